@@ -78,6 +78,7 @@ function App() {
                 desiredRetirementAge={simulation.inputs.profile.desiredRetirementAge}
                 pensionWithdrawalAges={pensionWithdrawalAges}
                 chartData={chartData}
+                salaryExchange={simulation.salaryExchangeComparison}
               />
             )}
 
@@ -95,6 +96,7 @@ function App() {
                 projections={simulation.projections}
                 currentYear={currentYear}
                 gender={simulation.inputs.profile.gender}
+                municipalityCode={simulation.inputs.profile.municipalityCode}
               />
             )}
           </div>
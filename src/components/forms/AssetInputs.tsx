@@ -1,6 +1,13 @@
+import { OwnedHome } from '../../types';
+
 interface Assets {
   liquidSavings: number;
   iskAccount: number;
+  iskMonthlyDeposit?: number;
+  home?: OwnedHome;
+  capitalInsurance?: number;
+  capitalInsuranceMonthlyDeposit?: number;
+  capitalInsuranceMonthlyWithdrawal?: number;
 }
 
 interface AssetInputsProps {
@@ -40,6 +47,118 @@ export function AssetInputs({ assets, onUpdate }: AssetInputsProps) {
           step="10000"
         />
       </div>
+      
+      <div>
+        <label className="label">Månadssparande ISK (kr/mån)</label>
+        <input
+          type="number"
+          value={assets.iskMonthlyDeposit ?? 0}
+          onChange={(e) => onUpdate({ 
+            iskMonthlyDeposit: parseInt(e.target.value) || 0 
+          })}
+          className="input-field"
+          min="0"
+          step="500"
+        />
+        <p className="text-xs text-gray-500 mt-1">
+          Insättningar görs fram till pension och ökar kapitalunderlaget för ISK-skatten.
+        </p>
+      </div>
+      
+      <div>
+        <label className="label">Kapitalförsäkring (kr)</label>
+        <input
+          type="number"
+          value={assets.capitalInsurance ?? 0}
+          onChange={(e) => onUpdate({ 
+            capitalInsurance: parseInt(e.target.value) || 0 
+          })}
+          className="input-field"
+          min="0"
+          step="10000"
+        />
+      </div>
+      
+      <div className="grid grid-cols-2 gap-4">
+        <div>
+          <label className="label">Insättning KF (kr/mån)</label>
+          <input
+            type="number"
+            value={assets.capitalInsuranceMonthlyDeposit ?? 0}
+            onChange={(e) => onUpdate({ 
+              capitalInsuranceMonthlyDeposit: parseInt(e.target.value) || 0 
+            })}
+            className="input-field"
+            min="0"
+            step="500"
+          />
+        </div>
+        <div>
+          <label className="label">Uttag KF (kr/mån)</label>
+          <input
+            type="number"
+            value={assets.capitalInsuranceMonthlyWithdrawal ?? 0}
+            onChange={(e) => onUpdate({ 
+              capitalInsuranceMonthlyWithdrawal: parseInt(e.target.value) || 0 
+            })}
+            className="input-field"
+            min="0"
+            step="500"
+          />
+        </div>
+      </div>
+      <p className="text-xs text-gray-500 mt-1">
+        Insättningar görs fram till pension och uttag från pension. Uttag ur kapitalförsäkring är skattefria.
+      </p>
+      
+      <div>
+        <label className="label">Bostad</label>
+        <select
+          value={assets.home?.type ?? ''}
+          onChange={(e) => onUpdate({ 
+            home: e.target.value
+              ? { taxAssessedValue: 0, ...assets.home, type: e.target.value as OwnedHome['type'], isPermanentHome: undefined }
+              : undefined
+          })}
+          className="input-field"
+        >
+          <option value="">Ingen ägd bostad</option>
+          <option value="villa">Villa</option>
+          <option value="bostadsrätt">Bostadsrätt</option>
+          <option value="ägarlägenhet">Ägarlägenhet</option>
+          <option value="fritidshus">Fritidshus</option>
+        </select>
+      </div>
+      
+      {assets.home && assets.home.type !== 'bostadsrätt' && (
+        <div>
+          <label className="label">Taxeringsvärde (kr)</label>
+          <input
+            type="number"
+            value={assets.home.taxAssessedValue}
+            onChange={(e) => onUpdate({ 
+              home: { ...assets.home!, taxAssessedValue: parseInt(e.target.value) || 0 }
+            })}
+            className="input-field"
+            min="0"
+            step="50000"
+          />
+          <label className="flex items-center space-x-2 text-sm text-gray-700 mt-2">
+            <input
+              type="checkbox"
+              checked={assets.home.isPermanentHome ?? assets.home.type !== 'fritidshus'}
+              onChange={(e) => onUpdate({ 
+                home: { ...assets.home!, isPermanentHome: e.target.checked }
+              })}
+              className="h-4 w-4 rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+            />
+            <span>Permanentbostad</span>
+          </label>
+          <p className="text-xs text-gray-500 mt-1">
+            Fastighetsavgift 0,75% av taxeringsvärdet, högst 9 809 kr (2025). Från 66 år högst 4% av inkomsten för permanentbostaden.
+          </p>
+        </div>
+      )}
     </div>
   );
 }
\ No newline at end of file
@@ -1,5 +1,6 @@
 interface Expenses {
   monthlyLiving: number;
+  monthlyHousingCost?: number;
 }
 
 interface ExpenseInputsProps {
@@ -28,6 +29,23 @@ export function ExpenseInputs({ expenses, onUpdate }: ExpenseInputsProps) {
           Inkludera boende, mat, transport, etc.
         </p>
       </div>
+
+      <div>
+        <label className="label">Boendekostnad per månad (kr)</label>
+        <input
+          type="number"
+          value={expenses.monthlyHousingCost ?? 0}
+          onChange={(e) => onUpdate({ 
+            monthlyHousingCost: parseInt(e.target.value) || 0 
+          })}
+          className="input-field"
+          min="0"
+          step="500"
+        />
+        <p className="text-xs text-gray-500 mt-1">
+          Hyra eller avgift, ingår i levnadskostnaderna. Används för bostadstillägg och äldreförsörjningsstöd som pensionär
+        </p>
+      </div>
     </div>
   );
 }
\ No newline at end of file
@@ -0,0 +1,126 @@
+import { useEffect, useMemo, useState } from 'react';
+import { Calculator } from 'lucide-react';
+import { taxSolver } from '../../engine/modules/TaxSolver';
+import { formatCurrency } from '../../utils/formatters';
+
+interface Profile {
+  currentAge: number;
+  municipalityCode?: string;
+  isChurchMember?: boolean;
+}
+
+interface GrossIncomeCalculatorProps {
+  profile: Profile;
+  onApplySalary: (monthlySalary: number) => void;
+  taxYear: number; // First simulated year
+}
+
+export function GrossIncomeCalculator({ profile, onApplySalary, taxYear }: GrossIncomeCalculatorProps) {
+  const [targetMonthlyNet, setTargetMonthlyNet] = useState(35000);
+  const [incomeType, setIncomeType] = useState<'salary' | 'pension'>('salary');
+  const [age, setAge] = useState(profile.currentAge);
+
+  // Start over from the profile's age when it changes
+  useEffect(() => {
+    setAge(profile.currentAge);
+  }, [profile.currentAge]);
+
+  const result = useMemo(
+    () => taxSolver.solveGrossIncome({
+      targetNetIncome: targetMonthlyNet * 12,
+      incomeType,
+      age,
+      year: taxYear,
+      municipalityCode: profile.municipalityCode,
+      isChurchMember: profile.isChurchMember
+    }),
+    [targetMonthlyNet, incomeType, age, taxYear, profile.municipalityCode, profile.isChurchMember]
+  );
+
+  const monthlyGross = Math.ceil(result.grossIncome / 12);
+  const tax = result.taxResult;
+  const breakdown = [
+    { label: 'Kommunalskatt', amount: tax.municipalTax },
+    { label: 'Statlig skatt', amount: tax.stateTax },
+    { label: 'Pensionsavgift', amount: tax.pensionFee - tax.pensionFeeReduction },
+    { label: 'Jobbskatteavdrag', amount: -tax.earnedIncomeTaxCredit },
+    { label: 'Övriga avgifter', amount: tax.publicServiceFee + tax.burialFee + tax.churchFee }
+  ];
+
+  return (
+    <div className="bg-gray-50 border border-gray-200 rounded-lg p-3 space-y-3">
+      <div className="flex items-center space-x-2">
+        <Calculator className="h-4 w-4 text-indigo-600" />
+        <h4 className="font-medium text-gray-700">Från netto till brutto</h4>
+      </div>
+
+      <div className="grid grid-cols-3 gap-2">
+        <div>
+          <label className="label">Netto/mån (kr)</label>
+          <input
+            type="number"
+            value={targetMonthlyNet}
+            onChange={(e) => setTargetMonthlyNet(parseInt(e.target.value) || 0)}
+            className="input-field"
+            min="0"
+            step="1000"
+          />
+        </div>
+        <div>
+          <label className="label">Inkomst</label>
+          <select
+            value={incomeType}
+            onChange={(e) => setIncomeType(e.target.value as 'salary' | 'pension')}
+            className="input-field"
+          >
+            <option value="salary">Lön</option>
+            <option value="pension">Pension</option>
+          </select>
+        </div>
+        <div>
+          <label className="label">Ålder</label>
+          <input
+            type="number"
+            value={age}
+            onChange={(e) => setAge(parseInt(e.target.value) || 0)}
+            className="input-field"
+            min="16"
+            max="100"
+          />
+        </div>
+      </div>
+
+      <div className="text-sm text-gray-600 space-y-1">
+        <div className="flex justify-between font-medium text-gray-900">
+          <span>Bruttoinkomst per månad:</span>
+          <span>{formatCurrency(monthlyGross)}</span>
+        </div>
+        {breakdown.map(item => (
+          <div key={item.label} className="flex justify-between">
+            <span>{item.label}:</span>
+            <span className={item.amount < 0 ? 'text-green-600' : 'text-red-600'}>
+              {formatCurrency(item.amount / 12)}
+            </span>
+          </div>
+        ))}
+        <div className="flex justify-between border-t border-gray-300 pt-1">
+          <span>Netto per månad:</span>
+          <span>{formatCurrency(result.netIncome / 12)}</span>
+        </div>
+      </div>
+
+      {incomeType === 'salary' && (
+        <button
+          type="button"
+          onClick={() => onApplySalary(monthlyGross)}
+          className="text-sm text-indigo-600 hover:text-indigo-800 font-medium"
+        >
+          Använd som bruttolön
+        </button>
+      )}
+      <p className="text-xs text-gray-500">
+        Beräknat med {profile.municipalityCode ? 'vald kommuns' : 'genomsnittlig'} skattesats och skatteregler för {taxYear}.
+      </p>
+    </div>
+  );
+}
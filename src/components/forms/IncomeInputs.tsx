@@ -1,14 +1,70 @@
+import { BusinessSettings, CloseCompanySettings, DividendRule, PensionAgreement, SalaryExchangeSettings } from '../../types';
+import { getTaxParameters } from '../../engine/swedish-parameters/TaxParameterRegistry';
+import { formatCurrency } from '../../utils/formatters';
+import { OwnerPayPlanInputs } from './OwnerPayPlanInputs';
+
 interface Income {
   monthlySalary: number;
   realSalaryGrowth: number;
+  pensionAgreement?: PensionAgreement;
+  business?: BusinessSettings;
+  closeCompany?: CloseCompanySettings;
+  salaryExchange?: SalaryExchangeSettings;
 }
 
+const DEFAULT_BUSINESS: BusinessSettings = {
+  yearlyProfit: 300000,
+  usePeriodiseringsfond: false,
+  expansionsfondAllocation: 0,
+  equityCapital: 0,
+};
+
+const DEFAULT_SALARY_EXCHANGE: SalaryExchangeSettings = {
+  monthlyAmount: 2000,
+  employerContribution: 0.058,
+};
+
+const DEFAULT_CLOSE_COMPANY: Omit<CloseCompanySettings, 'payPlan'> = {
+  ownershipShare: 1,
+  acquisitionCost: 25000,
+  yearlyProfit: 1000000,
+  retainedEarnings: 0,
+  otherSalaries: 0,
+  savedSpace: 0,
+};
+
+// Start from the current salary with the whole gränsbelopp as dividend
+const getDefaultCloseCompany = (currentAge: number, monthlySalary: number): CloseCompanySettings => ({
+  ...DEFAULT_CLOSE_COMPANY,
+  payPlan: [{ fromAge: currentAge, monthlySalary, dividendStrategy: 'gränsbelopp', yearlyDividend: 0 }],
+});
+
 interface IncomeInputsProps {
   income: Income;
   onUpdate: (updates: Partial<Income>) => void;
+  pensionAccounts?: Array<{ id: string; name: string; type: string }>;
+  taxYear: number; // First simulated year
+  currentAge: number;
 }
 
-export function IncomeInputs({ income, onUpdate }: IncomeInputsProps) {
+// Salary after löneväxling should stay above 8.07 IBB to keep full allmän pension
+const getSalaryExchangeLimit = (taxYear: number) => {
+  const taxParams = getTaxParameters(taxYear);
+  return (taxParams.generalPensionFeeLimits.maxIncomeIbb * taxParams.inkomstBasbelopp) / 12;
+};
+
+export function IncomeInputs({ income, onUpdate, pensionAccounts = [], taxYear, currentAge }: IncomeInputsProps) {
+  const salaryExchangeLimit = getSalaryExchangeLimit(taxYear);
+  const updateBusiness = (updates: Partial<BusinessSettings>) =>
+    onUpdate({ business: { ...DEFAULT_BUSINESS, ...income.business, ...updates } });
+  const updateCloseCompany = (updates: Partial<CloseCompanySettings>) =>
+    onUpdate({
+      closeCompany: { ...getDefaultCloseCompany(currentAge, income.monthlySalary), ...income.closeCompany, ...updates }
+    });
+  const updateSalaryExchange = (updates: Partial<SalaryExchangeSettings>) =>
+    onUpdate({ salaryExchange: { ...DEFAULT_SALARY_EXCHANGE, ...income.salaryExchange, ...updates } });
+  const exchangeAccounts = pensionAccounts.filter(account => account.type !== 'allmän');
+
   return (
     <div className="space-y-4">
       <h3 className="font-medium text-gray-700">Inkomst</h3>
@@ -44,6 +100,323 @@ export function IncomeInputs({ income, onUpdate }: IncomeInputsProps) {
           Standard: 1,6% (baserat på produktivitetsökning)
         </p>
       </div>
+      
+      <div>
+        <label className="label">Tjänstepension (kollektivavtal)</label>
+        <select
+          value={income.pensionAgreement ?? 'none'}
+          onChange={(e) => onUpdate({ 
+            pensionAgreement: e.target.value as PensionAgreement 
+          })}
+          className="input-field"
+        >
+          <option value="ITP1">ITP1 (tjänstemän)</option>
+          <option value="ITP2">ITP2 (tjänstemän födda före 1979)</option>
+          <option value="SAF-LO">SAF-LO (arbetare)</option>
+          <option value="KAP-KL">KAP-KL (kommun och region)</option>
+          <option value="AKAP-KR">AKAP-KR (kommun och region)</option>
+          <option value="PA16">PA16 (staten)</option>
+          <option value="none">Ingen tjänstepension</option>
+        </select>
+        <p className="text-xs text-gray-500 mt-1">
+          Premierna sätts in på tjänstepensionen varje arbetsår. Används även för arbetsgivarens kostnad och särskild löneskatt
+        </p>
+      </div>
+
+      <div>
+        <label className="flex items-center space-x-2 text-sm text-gray-700">
+          <input
+            type="checkbox"
+            checked={income.salaryExchange !== undefined}
+            onChange={(e) => onUpdate({ 
+              salaryExchange: e.target.checked ? DEFAULT_SALARY_EXCHANGE : undefined 
+            })}
+            className="h-4 w-4 rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+          />
+          <span>Löneväxling till pension</span>
+        </label>
+      </div>
+
+      {income.salaryExchange && (
+        <div className="bg-gray-50 p-3 rounded-lg space-y-3">
+          <div>
+            <label className="label">Växlat belopp per månad (kr)</label>
+            <input
+              type="number"
+              value={income.salaryExchange.monthlyAmount}
+              onChange={(e) => updateSalaryExchange({ 
+                monthlyAmount: parseInt(e.target.value) || 0 
+              })}
+              className="input-field"
+              min="0"
+              step="500"
+            />
+          </div>
+
+          <div>
+            <label className="label">Arbetsgivarens påslag (%)</label>
+            <input
+              type="number"
+              value={(income.salaryExchange.employerContribution * 100).toFixed(1)}
+              onChange={(e) => updateSalaryExchange({ 
+                employerContribution: (parseFloat(e.target.value) || 0) / 100 
+              })}
+              className="input-field"
+              min="0"
+              max="10"
+              step="0.1"
+            />
+          </div>
+
+          {exchangeAccounts.length > 0 && (
+            <div>
+              <label className="label">Pensionskonto</label>
+              <select
+                value={income.salaryExchange.accountId ?? ''}
+                onChange={(e) => updateSalaryExchange({ 
+                  accountId: e.target.value || undefined 
+                })}
+                className="input-field"
+              >
+                <option value="">Tjänstepensionen</option>
+                {exchangeAccounts.map(account => (
+                  <option key={account.id} value={account.id}>{account.name}</option>
+                ))}
+              </select>
+            </div>
+          )}
+
+          <p className={`text-xs mt-1 ${
+            income.monthlySalary - income.salaryExchange.monthlyAmount < salaryExchangeLimit
+              ? 'text-red-600'
+              : 'text-gray-500'
+          }`}>
+            Lönen efter växling bör vara över {formatCurrency(salaryExchangeLimit)}/mån (8,07 IBB), annars sänks allmän pension, sjukpenning och föräldrapenning
+          </p>
+        </div>
+      )}
+      
+      <div>
+        <label className="flex items-center space-x-2 text-sm text-gray-700">
+          <input
+            type="checkbox"
+            checked={income.business !== undefined}
+            onChange={(e) => onUpdate({ 
+              business: e.target.checked ? DEFAULT_BUSINESS : undefined 
+            })}
+            className="h-4 w-4 rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+          />
+          <span>Enskild näringsverksamhet</span>
+        </label>
+      </div>
+      
+      {income.business && (
+        <div className="space-y-4 pl-6">
+          <div>
+            <label className="label">Resultat per år (kr)</label>
+            <input
+              type="number"
+              value={income.business.yearlyProfit}
+              onChange={(e) => updateBusiness({ 
+                yearlyProfit: parseInt(e.target.value) || 0 
+              })}
+              className="input-field"
+              step="10000"
+            />
+            <p className="text-xs text-gray-500 mt-1">
+              Före egenavgifter och fonder, ökar med den reala löneökningen
+            </p>
+          </div>
+          
+          <div>
+            <label className="flex items-center space-x-2 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={income.business.usePeriodiseringsfond}
+                onChange={(e) => updateBusiness({ 
+                  usePeriodiseringsfond: e.target.checked 
+                })}
+                className="h-4 w-4 rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+              />
+              <span>Maximal avsättning till periodiseringsfond</span>
+            </label>
+            <p className="text-xs text-gray-500 mt-1">
+              Återförs efter sex år eller när verksamheten avslutas vid pension
+            </p>
+          </div>
+          
+          <div>
+            <label className="label">Avsättning till expansionsfond per år (kr)</label>
+            <input
+              type="number"
+              value={income.business.expansionsfondAllocation}
+              onChange={(e) => updateBusiness({ 
+                expansionsfondAllocation: parseInt(e.target.value) || 0 
+              })}
+              className="input-field"
+              min="0"
+              step="10000"
+            />
+          </div>
+          
+          <div>
+            <label className="label">Kapitalunderlag (kr)</label>
+            <input
+              type="number"
+              value={income.business.equityCapital}
+              onChange={(e) => updateBusiness({ 
+                equityCapital: parseInt(e.target.value) || 0 
+              })}
+              className="input-field"
+              step="10000"
+            />
+            <p className="text-xs text-gray-500 mt-1">
+              Justerat eget kapital, styr räntefördelning och taket för expansionsfond
+            </p>
+          </div>
+        </div>
+      )}
+      
+      <div>
+        <label className="flex items-center space-x-2 text-sm text-gray-700">
+          <input
+            type="checkbox"
+            checked={income.closeCompany !== undefined}
+            onChange={(e) => onUpdate({ 
+              closeCompany: e.target.checked ? getDefaultCloseCompany(currentAge, income.monthlySalary) : undefined 
+            })}
+            className="h-4 w-4 rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+          />
+          <span>Fåmansaktiebolag (3:12)</span>
+        </label>
+        <p className="text-xs text-gray-500 mt-1">
+          Lön och utdelning tas ut ur bolagets vinst enligt planen nedan i stället för lönen ovan
+        </p>
+      </div>
+      
+      {income.closeCompany && (
+        <div className="space-y-4 pl-6">
+          <div>
+            <label className="label">Ägarandel (%)</label>
+            <input
+              type="number"
+              value={(income.closeCompany.ownershipShare * 100).toFixed(0)}
+              onChange={(e) => updateCloseCompany({ 
+                ownershipShare: (parseFloat(e.target.value) || 0) / 100 
+              })}
+              className="input-field"
+              min="0"
+              max="100"
+              step="1"
+            />
+          </div>
+          
+          <div>
+            <label className="label">Omkostnadsbelopp för aktierna (kr)</label>
+            <input
+              type="number"
+              value={income.closeCompany.acquisitionCost}
+              onChange={(e) => updateCloseCompany({ 
+                acquisitionCost: parseInt(e.target.value) || 0 
+              })}
+              className="input-field"
+              min="0"
+              step="5000"
+            />
+          </div>
+          
+          <div>
+            <label className="label">Bolagets vinst per år före ägarens lön (kr)</label>
+            <input
+              type="number"
+              value={income.closeCompany.yearlyProfit}
+              onChange={(e) => updateCloseCompany({ 
+                yearlyProfit: parseInt(e.target.value) || 0 
+              })}
+              className="input-field"
+              step="50000"
+            />
+            <p className="text-xs text-gray-500 mt-1">
+              Ökar med den reala löneökningen
+            </p>
+          </div>
+          
+          <div>
+            <label className="label">Fritt eget kapital i bolaget (kr)</label>
+            <input
+              type="number"
+              value={income.closeCompany.retainedEarnings}
+              onChange={(e) => updateCloseCompany({ 
+                retainedEarnings: parseInt(e.target.value) || 0 
+              })}
+              className="input-field"
+              min="0"
+              step="50000"
+            />
+          </div>
+          
+          <div>
+            <label className="label">Övriga anställdas löner per år (kr)</label>
+            <input
+              type="number"
+              value={income.closeCompany.otherSalaries}
+              onChange={(e) => updateCloseCompany({ 
+                otherSalaries: parseInt(e.target.value) || 0 
+              })}
+              className="input-field"
+              min="0"
+              step="50000"
+            />
+            <p className="text-xs text-gray-500 mt-1">
+              Ingår i löneunderlaget för det lönebaserade utrymmet
+            </p>
+          </div>
+          
+          <div>
+            <label className="label">Beräkningsregel</label>
+            <select
+              value={income.closeCompany.rule ?? 'auto'}
+              onChange={(e) => updateCloseCompany({ 
+                rule: e.target.value === 'auto' ? undefined : e.target.value as DividendRule 
+              })}
+              className="input-field"
+            >
+              <option value="auto">Den regel som ger högst gränsbelopp</option>
+              <option value="simplified">Förenklingsregeln</option>
+              <option value="main">Huvudregeln</option>
+            </select>
+            <p className="text-xs text-gray-500 mt-1">
+              Från 2026 används en gemensam regel med grundbelopp
+            </p>
+          </div>
+          
+          <div>
+            <label className="label">Lön och utdelning per period</label>
+            <OwnerPayPlanInputs
+              payPlan={income.closeCompany.payPlan}
+              onChange={(payPlan) => updateCloseCompany({ payPlan })}
+              minAge={currentAge}
+            />
+            <p className="text-xs text-gray-500 mt-1">
+              Utdelningen begränsas av vinsten efter lönekostnad och bolagsskatt. Utan period tas ingenting ut
+            </p>
+          </div>
+          
+          <div>
+            <label className="label">Sparat utdelningsutrymme (kr)</label>
+            <input
+              type="number"
+              value={income.closeCompany.savedSpace}
+              onChange={(e) => updateCloseCompany({ 
+                savedSpace: parseInt(e.target.value) || 0 
+              })}
+              className="input-field"
+              min="0"
+              step="10000"
+            />
+          </div>
+        </div>
+      )}
     </div>
   );
 }
\ No newline at end of file
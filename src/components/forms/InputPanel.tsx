@@ -1,6 +1,7 @@
 import { Settings } from 'lucide-react';
 import { UserProfileInputs } from './UserProfileInputs';
 import { IncomeInputs } from './IncomeInputs';
+import { GrossIncomeCalculator } from './GrossIncomeCalculator';
 import { ExpenseInputs } from './ExpenseInputs';
 import { AssetInputs } from './AssetInputs';
 import { PensionInputs } from './PensionInputs';
@@ -27,6 +28,7 @@ interface InputPanelProps {
   onUpdatePensions: (pensions: PensionSettings) => void;
   investmentRates: InvestmentRates;
   onUpdateInvestmentRates: (updates: Partial<InvestmentRates>) => void;
+  startYear?: number; // First simulated year, the engine defaults to the current year
 }
 
 export function InputPanel({
@@ -37,7 +39,8 @@ export function InputPanel({
   onUpdateAssets,
   onUpdatePensions,
   investmentRates,
-  onUpdateInvestmentRates
+  onUpdateInvestmentRates,
+  startYear = new Date().getFullYear()
 }: InputPanelProps) {
   return (
     <div className="card">
@@ -55,6 +58,15 @@ export function InputPanel({
         <IncomeInputs 
           income={inputs.income}
           onUpdate={onUpdateIncome}
+          pensionAccounts={inputs.pensions.accounts}
+          taxYear={startYear}
+          currentAge={inputs.profile.currentAge}
+        />
+        
+        <GrossIncomeCalculator
+          profile={inputs.profile}
+          onApplySalary={(monthlySalary) => onUpdateIncome({ monthlySalary })}
+          taxYear={startYear}
         />
         
         <ExpenseInputs 
@@ -71,6 +83,7 @@ export function InputPanel({
           pensions={inputs.pensions}
           onUpdate={onUpdatePensions}
           userAge={inputs.profile.currentAge}
+          birthYear={inputs.profile.birthYear}
         />
         
         <InvestmentAssumptions 
@@ -3,6 +3,7 @@ import { TrendingUp, Info } from 'lucide-react';
 export interface InvestmentRates {
   liquidSavingsRate: number; // Expected return on bank accounts/cash
   iskAccountRate: number; // Expected return on ISK account investments
+  capitalInsuranceRate?: number; // Expected return on KF investments, defaults to the ISK rate
 }
 
 interface InvestmentAssumptionsProps {
@@ -72,6 +73,28 @@ export function InvestmentAssumptions({ rates, onUpdate }: InvestmentAssumptions
             Förväntad real avkastning på aktier och fonder efter avgifter i dagens penningvärde.
           </p>
         </div>
+        
+        <div>
+          <label className="label">
+            Kapitalförsäkring (% per år)
+            <span className="text-sm text-gray-500 ml-2">Rekommenderat: 3-5%</span>
+          </label>
+          <input
+            type="number"
+            value={Number(((rates.capitalInsuranceRate ?? rates.iskAccountRate) * 100).toFixed(1))}
+            onChange={(e) => onUpdate({ 
+              capitalInsuranceRate: (parseFloat(e.target.value) || 0) / 100
+            })}
+            className="input-field"
+            min="-50"
+            max="50"
+            step="0.1"
+            placeholder="3.5"
+          />
+          <p className="text-xs text-gray-500 mt-1">
+            Förväntad real avkastning i kapitalförsäkringen efter avgifter. Avkastningsskatten beräknas som för ISK.
+          </p>
+        </div>
       </div>
       
       <div className="bg-gray-50 border border-gray-200 rounded-lg p-3">
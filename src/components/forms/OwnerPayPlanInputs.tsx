@@ -0,0 +1,107 @@
+import { OwnerPaySegment } from '../../types';
+
+interface OwnerPayPlanInputsProps {
+  payPlan: OwnerPaySegment[];
+  onChange: (payPlan: OwnerPaySegment[]) => void;
+  minAge: number;
+}
+
+export function OwnerPayPlanInputs({ payPlan, onChange, minAge }: OwnerPayPlanInputsProps) {
+  const updateSegment = (index: number, updates: Partial<OwnerPaySegment>) =>
+    onChange(payPlan.map((segment, i) => i === index ? { ...segment, ...updates } : segment));
+
+  // A new period starts where the last one ends; an open last period is closed there
+  const addSegment = () => {
+    const last = payPlan[payPlan.length - 1];
+    const fromAge = last.toAge ?? last.fromAge + 1;
+    onChange([
+      ...payPlan.slice(0, -1),
+      last.toAge === undefined ? { ...last, toAge: fromAge } : last,
+      { ...last, fromAge, toAge: undefined }
+    ]);
+  };
+
+  return (
+    <div className="space-y-2">
+      {payPlan.map((segment, index) => (
+        <div key={index} className="grid grid-cols-3 gap-2 items-end">
+          <div>
+            <label className="label">Från ålder</label>
+            <input
+              type="number"
+              value={segment.fromAge}
+              onChange={(e) => updateSegment(index, { fromAge: parseInt(e.target.value) || minAge })}
+              className="input-field"
+              min={minAge}
+              max="80"
+            />
+            <input
+              type="number"
+              value={segment.toAge ?? ''}
+              placeholder="Till pension"
+              onChange={(e) => updateSegment(index, { toAge: parseInt(e.target.value) || undefined })}
+              className="input-field mt-1"
+              min={segment.fromAge + 1}
+              max="80"
+              title="Till ålder"
+            />
+          </div>
+          <div>
+            <label className="label">Lön per månad</label>
+            <input
+              type="number"
+              value={segment.monthlySalary}
+              onChange={(e) => updateSegment(index, { monthlySalary: parseInt(e.target.value) || 0 })}
+              className="input-field"
+              min="0"
+              step="1000"
+            />
+          </div>
+          <div>
+            <label className="label">Utdelning</label>
+            <div className="flex space-x-1">
+              <select
+                value={segment.dividendStrategy}
+                onChange={(e) => updateSegment(index, {
+                  dividendStrategy: e.target.value as OwnerPaySegment['dividendStrategy']
+                })}
+                className="input-field"
+              >
+                <option value="gränsbelopp">Gränsbeloppet</option>
+                <option value="fixed">Fast belopp</option>
+              </select>
+              {payPlan.length > 1 && (
+                <button
+                  type="button"
+                  onClick={() => onChange(payPlan.filter((_, i) => i !== index))}
+                  className="text-sm text-red-600 hover:text-red-800 px-1"
+                  title="Ta bort period"
+                >
+                  ✕
+                </button>
+              )}
+            </div>
+            {segment.dividendStrategy === 'fixed' && (
+              <input
+                type="number"
+                value={segment.yearlyDividend}
+                onChange={(e) => updateSegment(index, { yearlyDividend: parseInt(e.target.value) || 0 })}
+                className="input-field mt-1"
+                min="0"
+                step="10000"
+                title="Utdelning per år (kr)"
+              />
+            )}
+          </div>
+        </div>
+      ))}
+      <button
+        type="button"
+        onClick={addSegment}
+        className="text-sm text-indigo-600 hover:text-indigo-800"
+      >
+        + Lägg till period
+      </button>
+    </div>
+  );
+}
@@ -1,3 +1,8 @@
+import { PPMFund, PremiepensionStrategy } from '../../types';
+import { WithdrawalSegment } from '../../types/pension';
+import { getPensionAges, PENSION_PARAMETERS_2025 } from '../../engine/swedish-parameters/TaxParameters2025';
+import { WithdrawalScheduleInputs } from './WithdrawalScheduleInputs';
+
 interface PensionAccount {
   id: string;
   name: string;
@@ -5,6 +10,9 @@ interface PensionAccount {
   expectedMonthlyPension?: number;
   provider: string;
   type: 'allmän' | 'tjänste' | 'privat';
+  definedBenefit?: {
+    serviceYears: number;
+  };
   canChooseWithdrawalAge: boolean;
   earliestWithdrawalAge: number;
   latestWithdrawalAge: number;
@@ -13,6 +21,7 @@ interface PensionAccount {
     monthlyAmount: number;
     isPercentage: boolean;
     isLifelong: boolean;
+    schedule?: WithdrawalSegment[];
   };
 }
 
@@ -22,21 +31,45 @@ interface Pensions {
     currentPremiepension: number;
     estimatedMonthlyAmount: number;
     withdrawalStartAge: number;
+    withdrawalSchedule?: WithdrawalSegment[];
+    premiepensionStrategy?: PremiepensionStrategy;
+    selectedPPMFunds?: PPMFund[];
   };
   accounts: PensionAccount[];
 }
 
+const NEW_PPM_FUND: PPMFund = {
+  name: 'Ny fond',
+  allocation: 100,
+  expectedReturn: 0.045,
+  fees: 0.005,
+  rebate: 0.5,
+};
+
 interface PensionInputsProps {
   pensions: Pensions;
   onUpdate: (pensions: Pensions) => void;
   userAge: number;
+  birthYear?: number;
 }
 
-export function PensionInputs({ pensions, onUpdate, userAge }: PensionInputsProps) {
-  const handleTjänstePensionChange = (monthlyAmount: number) => {
+const { generalPensionPercentages, fixedTermYears } = PENSION_PARAMETERS_2025.withdrawalOptions;
+
+// Move the first period of a schedule along with the start age
+const withStartAge = (schedule: WithdrawalSegment[] | undefined, startAge: number) =>
+  schedule?.map((segment, i) => i === 0 ? { ...segment, fromAge: startAge } : segment);
+
+const getStartAge = (schedule: WithdrawalSegment[]) =>
+  Math.min(...schedule.map(segment => segment.fromAge));
+
+export function PensionInputs({ pensions, onUpdate, userAge, birthYear: profileBirthYear }: PensionInputsProps) {
+  const handleTjänstePensionChange = (
+    monthlyAmount: number,
+    definedBenefit: PensionAccount['definedBenefit']
+  ) => {
     const currentAccounts = pensions.accounts.filter(acc => acc.type !== 'tjänste');
     
-    if (monthlyAmount > 0) {
+    if (monthlyAmount > 0 || definedBenefit) {
       const existingAccount = pensions.accounts.find(acc => acc.type === 'tjänste');
       const tjänsteAccount: PensionAccount = {
         id: 'tjanste-main',
@@ -45,6 +78,7 @@ export function PensionInputs({ pensions, onUpdate, userAge }: PensionInputsProp
         expectedMonthlyPension: monthlyAmount,
         provider: 'Tjänstepensionsbolag',
         type: 'tjänste',
+        definedBenefit,
         canChooseWithdrawalAge: true,
         earliestWithdrawalAge: 55,
         latestWithdrawalAge: 70,
@@ -52,7 +86,8 @@ export function PensionInputs({ pensions, onUpdate, userAge }: PensionInputsProp
           startAge: existingAccount?.withdrawalSettings.startAge || 65,
           monthlyAmount: monthlyAmount,
           isPercentage: false,
-          isLifelong: true
+          isLifelong: true,
+          schedule: existingAccount?.withdrawalSettings.schedule
         }
       };
       currentAccounts.push(tjänsteAccount);
@@ -64,7 +99,13 @@ export function PensionInputs({ pensions, onUpdate, userAge }: PensionInputsProp
     });
   };
 
-  const handleTjänstePensionAgeChange = (startAge: number) => {
+  const handleTjänstePensionAgeChange = (startAge: number) =>
+    handleTjänstePensionScheduleChange(
+      startAge,
+      withStartAge(tjänstePensionAccount?.withdrawalSettings.schedule, startAge)
+    );
+
+  const handleTjänstePensionScheduleChange = (startAge: number, schedule: WithdrawalSegment[] | undefined) => {
     const currentAccounts = pensions.accounts.filter(acc => acc.type !== 'tjänste');
     const existingAccount = pensions.accounts.find(acc => acc.type === 'tjänste');
     
@@ -73,7 +114,8 @@ export function PensionInputs({ pensions, onUpdate, userAge }: PensionInputsProp
         ...existingAccount,
         withdrawalSettings: {
           ...existingAccount.withdrawalSettings,
-          startAge: startAge
+          startAge,
+          schedule
         }
       };
       currentAccounts.push(updatedAccount);
@@ -87,19 +129,21 @@ export function PensionInputs({ pensions, onUpdate, userAge }: PensionInputsProp
 
   const tjänstePensionAccount = pensions.accounts.find(acc => acc.type === 'tjänste');
 
-  // Beräkna riktålder baserat på födelseår (förenklad)
-  const birthYear = new Date().getFullYear() - userAge;
-  const getRiktålder = (birthYear: number): number => {
-    if (birthYear <= 1959) return 66;
-    if (birthYear <= 1966) return 67;
-    if (birthYear <= 1980) return 68;
-    if (birthYear <= 1996) return 69;
-    if (birthYear <= 2014) return 70;
-    return 71;
-  };
+  const updateGeneralPension = (updates: Partial<Pensions['generalPension']>) =>
+    onUpdate({
+      ...pensions,
+      generalPension: { ...pensions.generalPension, ...updates }
+    });
+
+  const ppmFunds = pensions.generalPension.selectedPPMFunds ?? [];
+  const updatePPMFund = (index: number, updates: Partial<PPMFund>) =>
+    updateGeneralPension({
+      selectedPPMFunds: ppmFunds.map((fund, i) => i === index ? { ...fund, ...updates } : fund)
+    });
 
-  const riktålder = getRiktålder(birthYear);
-  const earliestGeneralPensionAge = Math.max(61, riktålder - 3); // Tidigast 3 år före riktålder, men inte före 61
+  // Riktålder och tidigaste uttagsålder baserat på födelseår
+  const birthYear = profileBirthYear ?? new Date().getFullYear() - userAge;
+  const { riktålder, earliestGeneralPension: earliestGeneralPensionAge } = getPensionAges(birthYear);
 
   return (
     <div className="space-y-6">
@@ -141,7 +185,8 @@ export function PensionInputs({ pensions, onUpdate, userAge }: PensionInputsProp
               ...pensions,
               generalPension: {
                 ...pensions.generalPension,
-                withdrawalStartAge: parseInt(e.target.value)
+                withdrawalStartAge: parseInt(e.target.value),
+                withdrawalSchedule: withStartAge(pensions.generalPension.withdrawalSchedule, parseInt(e.target.value))
               }
             })}
             className="input-field"
@@ -156,6 +201,149 @@ export function PensionInputs({ pensions, onUpdate, userAge }: PensionInputsProp
             Tidigast {earliestGeneralPensionAge} år. Din riktålder är {riktålder} år (född {birthYear}).
           </p>
         </div>
+
+        <div>
+          <label className="flex items-center space-x-2 text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={pensions.generalPension.withdrawalSchedule !== undefined}
+              onChange={(e) => updateGeneralPension({
+                withdrawalSchedule: e.target.checked
+                  ? [{ fromAge: pensions.generalPension.withdrawalStartAge, percentage: 100 }]
+                  : undefined
+              })}
+              className="h-4 w-4 rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+            />
+            <span>Partiellt uttag (25, 50 eller 75%)</span>
+          </label>
+          {pensions.generalPension.withdrawalSchedule && (
+            <div className="mt-2">
+              <WithdrawalScheduleInputs
+                schedule={pensions.generalPension.withdrawalSchedule}
+                onChange={(schedule) => updateGeneralPension({
+                  withdrawalSchedule: schedule,
+                  withdrawalStartAge: getStartAge(schedule)
+                })}
+                minAge={earliestGeneralPensionAge}
+                percentages={generalPensionPercentages}
+              />
+              <p className="text-xs text-gray-500 mt-1">
+                Andelen kan ändras över tid. Garantipension betalas bara när hela pensionen tas ut
+              </p>
+            </div>
+          )}
+        </div>
+
+        <div className="grid grid-cols-2 gap-2">
+          <div>
+            <label className="label">Inkomstpension (kr)</label>
+            <input
+              type="number"
+              value={pensions.generalPension.currentInkomstpension}
+              onChange={(e) => updateGeneralPension({
+                currentInkomstpension: parseInt(e.target.value) || 0
+              })}
+              className="input-field"
+              min="0"
+              step="10000"
+            />
+          </div>
+          <div>
+            <label className="label">Premiepension (kr)</label>
+            <input
+              type="number"
+              value={pensions.generalPension.currentPremiepension}
+              onChange={(e) => updateGeneralPension({
+                currentPremiepension: parseInt(e.target.value) || 0
+              })}
+              className="input-field"
+              min="0"
+              step="10000"
+            />
+          </div>
+        </div>
+        <p className="text-xs text-gray-500">
+          Behållning enligt orange kuvert, används när månadsbeloppet är 0
+        </p>
+
+        <div>
+          <label className="label">Premiepensionsfonder</label>
+          <select
+            value={pensions.generalPension.premiepensionStrategy ?? 'ap7-safa'}
+            onChange={(e) => updateGeneralPension({
+              premiepensionStrategy: e.target.value as PremiepensionStrategy,
+              selectedPPMFunds: e.target.value === 'own-funds' && ppmFunds.length === 0
+                ? [NEW_PPM_FUND]
+                : ppmFunds
+            })}
+            className="input-field"
+          >
+            <option value="ap7-safa">AP7 Såfa (förvalet)</option>
+            <option value="own-funds">Egna fonder</option>
+          </select>
+          <p className="text-xs text-gray-500 mt-1">
+            AP7 Såfa flyttar gradvis från aktier till räntor från 56 års ålder
+          </p>
+        </div>
+
+        {pensions.generalPension.premiepensionStrategy === 'own-funds' && (
+          <div className="space-y-2">
+            {ppmFunds.map((fund, index) => (
+              <div key={index} className="bg-white p-2 rounded border space-y-2">
+                <div className="flex items-center space-x-2">
+                  <input
+                    type="text"
+                    value={fund.name}
+                    onChange={(e) => updatePPMFund(index, { name: e.target.value })}
+                    className="input-field"
+                  />
+                  <button
+                    type="button"
+                    onClick={() => updateGeneralPension({
+                      selectedPPMFunds: ppmFunds.filter((_, i) => i !== index)
+                    })}
+                    className="text-sm text-red-600"
+                  >
+                    Ta bort
+                  </button>
+                </div>
+                <div className="grid grid-cols-4 gap-2">
+                  {([
+                    ['allocation', 'Andel (%)', 1],
+                    ['expectedReturn', 'Avkastning (%)', 100],
+                    ['fees', 'Avgift (%)', 100],
+                    ['rebate', 'Rabatt (%)', 100],
+                  ] as const).map(([field, label, scale]) => (
+                    <div key={field}>
+                      <label className="text-xs text-gray-500">{label}</label>
+                      <input
+                        type="number"
+                        value={+((fund[field] ?? 0) * scale).toFixed(2)}
+                        onChange={(e) => updatePPMFund(index, {
+                          [field]: (parseFloat(e.target.value) || 0) / scale
+                        })}
+                        className="input-field"
+                        step="0.1"
+                      />
+                    </div>
+                  ))}
+                </div>
+              </div>
+            ))}
+            <button
+              type="button"
+              onClick={() => updateGeneralPension({
+                selectedPPMFunds: [...ppmFunds, { ...NEW_PPM_FUND, allocation: 0 }]
+              })}
+              className="text-sm text-blue-600"
+            >
+              + Lägg till fond
+            </button>
+            <p className="text-xs text-gray-500">
+              Real avkastning före avgifter. Fondrabatten minskar fondavgiften.
+            </p>
+          </div>
+        )}
       </div>
       
       {/* Tjänstepension */}
@@ -170,7 +358,10 @@ export function PensionInputs({ pensions, onUpdate, userAge }: PensionInputsProp
           <input
             type="number"
             value={tjänstePensionAccount?.expectedMonthlyPension || 0}
-            onChange={(e) => handleTjänstePensionChange(parseInt(e.target.value) || 0)}
+            onChange={(e) => handleTjänstePensionChange(
+              parseInt(e.target.value) || 0,
+              tjänstePensionAccount?.definedBenefit
+            )}
             className="input-field"
             min="0"
             step="1000"
@@ -180,7 +371,42 @@ export function PensionInputs({ pensions, onUpdate, userAge }: PensionInputsProp
           </p>
         </div>
 
-        {tjänstePensionAccount && (tjänstePensionAccount.expectedMonthlyPension || 0) > 0 && (
+        <div>
+          <label className="flex items-center space-x-2 text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={tjänstePensionAccount?.definedBenefit !== undefined}
+              onChange={(e) => handleTjänstePensionChange(
+                tjänstePensionAccount?.expectedMonthlyPension || 0,
+                e.target.checked ? { serviceYears: 0 } : undefined
+              )}
+              className="h-4 w-4 rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+            />
+            <span>Förmånsbestämd (ITP2, KAP-KL, PA16 avd II)</span>
+          </label>
+        </div>
+
+        {tjänstePensionAccount?.definedBenefit && (
+          <div>
+            <label className="label">Tjänsteår hittills</label>
+            <input
+              type="number"
+              value={tjänstePensionAccount.definedBenefit.serviceYears}
+              onChange={(e) => handleTjänstePensionChange(
+                tjänstePensionAccount.expectedMonthlyPension || 0,
+                { serviceYears: parseInt(e.target.value) || 0 }
+              )}
+              className="input-field"
+              min="0"
+              max="30"
+            />
+            <p className="text-xs text-gray-500 mt-1">
+              Pensionen beräknas från slutlönen: 10% upp till 7,5 IBB, 65% upp till 20 IBB och 32,5% upp till 30 IBB. Full pension kräver 30 tjänsteår
+            </p>
+          </div>
+        )}
+
+        {tjänstePensionAccount && ((tjänstePensionAccount.expectedMonthlyPension || 0) > 0 || tjänstePensionAccount.definedBenefit) && (
           <div>
             <label className="label">Uttagsålder</label>
             <select
@@ -197,6 +423,32 @@ export function PensionInputs({ pensions, onUpdate, userAge }: PensionInputsProp
             <p className="text-xs text-gray-500 mt-1">
               Tjänstepension kan vanligtvis tas ut från 55 år
             </p>
+
+            <label className="flex items-center space-x-2 text-sm text-gray-700 mt-2">
+              <input
+                type="checkbox"
+                checked={tjänstePensionAccount.withdrawalSettings.schedule !== undefined}
+                onChange={(e) => handleTjänstePensionScheduleChange(
+                  tjänstePensionAccount.withdrawalSettings.startAge,
+                  e.target.checked
+                    ? [{ fromAge: tjänstePensionAccount.withdrawalSettings.startAge, percentage: 100 }]
+                    : undefined
+                )}
+                className="h-4 w-4 rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+              />
+              <span>Tidsbegränsat eller partiellt uttag</span>
+            </label>
+            {tjänstePensionAccount.withdrawalSettings.schedule && (
+              <div className="mt-2">
+                <WithdrawalScheduleInputs
+                  schedule={tjänstePensionAccount.withdrawalSettings.schedule}
+                  onChange={(schedule) => handleTjänstePensionScheduleChange(getStartAge(schedule), schedule)}
+                  minAge={tjänstePensionAccount.earliestWithdrawalAge}
+                  percentages={generalPensionPercentages}
+                  termYears={fixedTermYears}
+                />
+              </div>
+            )}
           </div>
         )}
       </div>
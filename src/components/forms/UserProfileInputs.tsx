@@ -1,15 +1,41 @@
+import { MUNICIPALITIES_2025, getMunicipality, getLocalTaxRate } from '../../engine/swedish-parameters/Municipalities2025';
+import { SWEDISH_TAX_PARAMETERS_2025, getPensionAges } from '../../engine/swedish-parameters/TaxParameters2025';
+import { formatPercentage } from '../../utils/formatters';
+import { Municipality, CivilStatus } from '../../types';
+
 interface UserProfile {
   currentAge: number;
+  birthYear?: number;
   gender: 'man' | 'kvinna';
   desiredRetirementAge: number;
+  municipalityCode?: string;
+  isChurchMember?: boolean;
+  civilStatus?: CivilStatus;
 }
 
+// Municipalities grouped by county for the picker, sorted by name within each county
+const MUNICIPALITIES_BY_COUNTY = MUNICIPALITIES_2025.reduce<Record<string, Municipality[]>>(
+  (groups, municipality) => {
+    (groups[municipality.county] ??= []).push(municipality);
+    return groups;
+  },
+  {}
+);
+Object.values(MUNICIPALITIES_BY_COUNTY).forEach(group =>
+  group.sort((a, b) => a.name.localeCompare(b.name, 'sv'))
+);
+
 interface UserProfileInputsProps {
   profile: UserProfile;
   onUpdate: (updates: Partial<UserProfile>) => void;
 }
 
 export function UserProfileInputs({ profile, onUpdate }: UserProfileInputsProps) {
+  const municipality = profile.municipalityCode ? getMunicipality(profile.municipalityCode) : undefined;
+  const currentYear = new Date().getFullYear();
+  const birthYear = profile.birthYear ?? currentYear - profile.currentAge;
+  const pensionAges = getPensionAges(birthYear);
+
   return (
     <div className="space-y-4">
       <h3 className="font-medium text-gray-700">Personliga uppgifter</h3>
@@ -19,14 +45,39 @@ export function UserProfileInputs({ profile, onUpdate }: UserProfileInputsProps)
         <input
           type="number"
           value={profile.currentAge}
-          onChange={(e) => onUpdate({ 
-            currentAge: parseInt(e.target.value) || 0 
-          })}
+          onChange={(e) => {
+            // A chosen birth year follows the age so the two never disagree
+            const currentAge = parseInt(e.target.value) || 0;
+            onUpdate(profile.birthYear !== undefined
+              ? { currentAge, birthYear: currentYear - currentAge }
+              : { currentAge });
+          }}
           className="input-field"
           min="16"
           max="80"
         />
       </div>
+
+      <div>
+        <label className="label">Födelseår</label>
+        <input
+          type="number"
+          value={birthYear}
+          onChange={(e) => {
+            const newBirthYear = parseInt(e.target.value) || undefined;
+            onUpdate(newBirthYear !== undefined
+              ? { birthYear: newBirthYear, currentAge: currentYear - newBirthYear }
+              : { birthYear: undefined });
+          }}
+          className="input-field"
+          min="1940"
+          max={currentYear - 16}
+        />
+        <p className="text-xs text-gray-500 mt-1">
+          Riktålder {pensionAges.riktålder} år. Allmän pension tidigast från {pensionAges.earliestGeneralPension} år,
+          garantipension från {pensionAges.guaranteePension} år och rätt att behålla anställningen till {pensionAges.las} år
+        </p>
+      </div>
       
       <div>
         <label className="label">Kön</label>
@@ -42,6 +93,24 @@ export function UserProfileInputs({ profile, onUpdate }: UserProfileInputsProps)
         </select>
       </div>
       
+      <div>
+        <label className="label">Civilstånd</label>
+        <select
+          value={profile.civilStatus ?? 'ensamstående'}
+          onChange={(e) => onUpdate({ 
+            civilStatus: e.target.value as CivilStatus 
+          })}
+          className="input-field"
+        >
+          <option value="ensamstående">Ensamstående</option>
+          <option value="gift_sambo">Gift/sambo</option>
+          <option value="särbo">Särbo</option>
+        </select>
+        <p className="text-xs text-gray-500 mt-1">
+          Påverkar nivån för garantipension, bostadstillägg och äldreförsörjningsstöd
+        </p>
+      </div>
+
       <div>
         <label className="label">Önskad pensionsålder</label>
         <input
@@ -55,6 +124,53 @@ export function UserProfileInputs({ profile, onUpdate }: UserProfileInputsProps)
           max="75"
         />
       </div>
+
+      <div>
+        <label className="label">Kommun</label>
+        <select
+          value={profile.municipalityCode ?? ''}
+          onChange={(e) => onUpdate({ 
+            municipalityCode: e.target.value || undefined 
+          })}
+          className="input-field"
+        >
+          <option value="">Rikssnitt ({formatPercentage(SWEDISH_TAX_PARAMETERS_2025.averageMunicipalTax, 2)})</option>
+          {Object.entries(MUNICIPALITIES_BY_COUNTY).map(([county, municipalities]) => (
+            <optgroup key={county} label={county}>
+              {municipalities.map(m => (
+                <option key={m.code} value={m.code}>
+                  {m.name} ({formatPercentage(getLocalTaxRate(m), 2)})
+                </option>
+              ))}
+            </optgroup>
+          ))}
+        </select>
+        <p className="text-xs text-gray-500 mt-1">
+          {municipality
+            ? `Kommunal skatt ${formatPercentage(municipality.municipalRate, 2)} + region ${formatPercentage(municipality.regionalRate, 2)}, begravningsavgift ${formatPercentage(municipality.burialFee, 3)}`
+            : 'Genomsnittlig kommunalskatt används, utan begravnings- och kyrkoavgift'}
+        </p>
+      </div>
+
+      <div>
+        <label className="flex items-center space-x-2 text-sm text-gray-700">
+          <input
+            type="checkbox"
+            checked={profile.isChurchMember ?? false}
+            onChange={(e) => onUpdate({ 
+              isChurchMember: e.target.checked 
+            })}
+            disabled={!municipality}
+            className="h-4 w-4 rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+          />
+          <span>Medlem i Svenska kyrkan</span>
+        </label>
+        {municipality && profile.isChurchMember && (
+          <p className="text-xs text-gray-500 mt-1">
+            Kyrkoavgift {formatPercentage(municipality.churchFee, 2)} (snitt för {municipality.diocese} stift)
+          </p>
+        )}
+      </div>
     </div>
   );
 }
\ No newline at end of file
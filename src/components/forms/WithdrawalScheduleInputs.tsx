@@ -0,0 +1,116 @@
+import { WithdrawalSegment } from '../../types/pension';
+
+interface WithdrawalScheduleInputsProps {
+  schedule: WithdrawalSegment[];
+  onChange: (schedule: WithdrawalSegment[]) => void;
+  minAge: number;
+  percentages: number[];
+  termYears?: number[]; // Fixed-term options, none for allmän pension
+}
+
+// Value of the "Utbetalning" select for a segment
+const getPayoutValue = (segment: WithdrawalSegment): string =>
+  segment.termYears ? `term-${segment.termYears}` : segment.toAge !== undefined ? 'toAge' : 'lifelong';
+
+export function WithdrawalScheduleInputs({ schedule, onChange, minAge, percentages, termYears = [] }: WithdrawalScheduleInputsProps) {
+  const updateSegment = (index: number, updates: Partial<WithdrawalSegment>) =>
+    onChange(schedule.map((segment, i) => i === index ? { ...segment, ...updates } : segment));
+
+  const handlePayoutChange = (index: number, value: string) => {
+    const segment = schedule[index];
+    if (value.startsWith('term-')) {
+      updateSegment(index, { toAge: undefined, termYears: parseInt(value.slice(5)) });
+    } else if (value === 'toAge') {
+      updateSegment(index, { toAge: segment.fromAge + 1, termYears: undefined });
+    } else {
+      updateSegment(index, { toAge: undefined, termYears: undefined });
+    }
+  };
+
+  // A new period starts where the last one ends; an open last period is closed there
+  const addSegment = () => {
+    const last = schedule[schedule.length - 1];
+    const lastEnd = last.termYears ? last.fromAge + last.termYears : last.toAge;
+    const fromAge = lastEnd ?? last.fromAge + 1;
+    onChange([
+      ...schedule.slice(0, -1),
+      lastEnd === undefined ? { ...last, toAge: fromAge } : last,
+      { fromAge, percentage: 100 }
+    ]);
+  };
+
+  return (
+    <div className="space-y-2">
+      {schedule.map((segment, index) => (
+        <div key={index} className="grid grid-cols-3 gap-2 items-end">
+          <div>
+            <label className="label">Från ålder</label>
+            <input
+              type="number"
+              value={segment.fromAge}
+              onChange={(e) => updateSegment(index, { fromAge: parseInt(e.target.value) || minAge })}
+              className="input-field"
+              min={minAge}
+              max="80"
+            />
+          </div>
+          <div>
+            <label className="label">Utbetalning</label>
+            <select
+              value={getPayoutValue(segment)}
+              onChange={(e) => handlePayoutChange(index, e.target.value)}
+              className="input-field"
+            >
+              <option value="lifelong">Livsvarigt</option>
+              <option value="toAge">Till ålder</option>
+              {termYears.map(years => (
+                <option key={years} value={`term-${years}`}>{years} år</option>
+              ))}
+            </select>
+            {segment.toAge !== undefined && !segment.termYears && (
+              <input
+                type="number"
+                value={segment.toAge}
+                onChange={(e) => updateSegment(index, { toAge: parseInt(e.target.value) || segment.fromAge + 1 })}
+                className="input-field mt-1"
+                min={segment.fromAge + 1}
+                max="100"
+              />
+            )}
+          </div>
+          <div>
+            <label className="label">Andel</label>
+            <div className="flex space-x-1">
+              <select
+                value={segment.percentage}
+                onChange={(e) => updateSegment(index, { percentage: parseInt(e.target.value) })}
+                className="input-field"
+              >
+                {percentages.map(percentage => (
+                  <option key={percentage} value={percentage}>{percentage}%</option>
+                ))}
+              </select>
+              {schedule.length > 1 && (
+                <button
+                  type="button"
+                  onClick={() => onChange(schedule.filter((_, i) => i !== index))}
+                  className="text-sm text-red-600 hover:text-red-800 px-1"
+                  title="Ta bort period"
+                >
+                  ✕
+                </button>
+              )}
+            </div>
+          </div>
+        </div>
+      ))}
+      <button
+        type="button"
+        onClick={addSegment}
+        className="text-sm text-indigo-600 hover:text-indigo-800"
+      >
+        + Lägg till period
+      </button>
+    </div>
+  );
+}
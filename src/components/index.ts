@@ -9,9 +9,11 @@ export type { TabId } from './layout/TabNavigation';
 export { InputPanel } from './forms/InputPanel';
 export { UserProfileInputs } from './forms/UserProfileInputs';
 export { IncomeInputs } from './forms/IncomeInputs';
+export { GrossIncomeCalculator } from './forms/GrossIncomeCalculator';
 export { ExpenseInputs } from './forms/ExpenseInputs';
 export { AssetInputs } from './forms/AssetInputs';
 export { PensionInputs } from './forms/PensionInputs';
+export { WithdrawalScheduleInputs } from './forms/WithdrawalScheduleInputs';
 export { InvestmentAssumptions } from './forms/InvestmentAssumptions';
 export type { InvestmentRates } from './forms/InvestmentAssumptions';
 
@@ -8,25 +8,37 @@ import { Plus, Trash2, Edit3, Calculator, Info, HelpCircle } from 'lucide-react'
 import { PensionAccount, PensionSettings, PENSION_ACCOUNT_TEMPLATES } from '../../types/pension';
 import { formatCurrency, formatAge } from '../../utils/formatters';
 import { CurrencyInput, AgeInput } from '../common/InputField';
+import { getPensionAges, PENSION_PARAMETERS_2025 } from '../../engine/swedish-parameters/TaxParameters2025';
+import { WithdrawalScheduleInputs } from '../forms/WithdrawalScheduleInputs';
 
 interface PensionFormProps {
   pensions: PensionSettings;
   onUpdate: (pensions: PensionSettings) => void;
+  birthYear?: number;
   className?: string;
 }
 
-export function PensionForm({ pensions, onUpdate, className = '' }: PensionFormProps) {
+export function PensionForm({ pensions, onUpdate, birthYear, className = '' }: PensionFormProps) {
   const [showAddForm, setShowAddForm] = useState(false);
   const [editingAccount, setEditingAccount] = useState<string | null>(null);
+  const pensionAges = birthYear !== undefined ? getPensionAges(birthYear) : undefined;
 
   const addAccount = (template: keyof typeof PENSION_ACCOUNT_TEMPLATES) => {
     const templateData = PENSION_ACCOUNT_TEMPLATES[template];
+    // Allmän pension follows the ages for the birth year; other accounts default to riktåldern
+    const earliestWithdrawalAge = templateData.type === 'allmän' && pensionAges
+      ? pensionAges.earliestGeneralPension
+      : templateData.earliestWithdrawalAge;
+    const startAge = pensionAges
+      ? Math.min(Math.max(pensionAges.riktålder, earliestWithdrawalAge), templateData.latestWithdrawalAge)
+      : templateData.earliestWithdrawalAge + 10; // Default to reasonable age
     const newAccount: PensionAccount = {
       id: Date.now().toString(),
       currentValue: 0,
       ...templateData,
+      earliestWithdrawalAge,
       withdrawalSettings: {
-        startAge: templateData.earliestWithdrawalAge + 10, // Default to reasonable age
+        startAge,
         monthlyAmount: 0,
         isPercentage: false,
         isLifelong: true
@@ -109,9 +121,11 @@ export function PensionForm({ pensions, onUpdate, className = '' }: PensionFormP
             label="Önskad startålder för allmän pension"
             value={pensions.generalPension.withdrawalStartAge}
             onChange={(value) => updateGeneralPension({ withdrawalStartAge: value })}
-            min={62}
+            min={pensionAges?.earliestGeneralPension ?? 62}
             max={70}
-            helpText="Tidigast 3 år före riktålder"
+            helpText={pensionAges
+              ? `Tidigast ${pensionAges.earliestGeneralPension} år, riktålder ${pensionAges.riktålder} år`
+              : "Tidigast 3 år före riktålder"}
           />
         </div>
       </div>
@@ -221,7 +235,13 @@ export function PensionForm({ pensions, onUpdate, className = '' }: PensionFormP
                           label="Startålder för uttag"
                           value={account.withdrawalSettings.startAge}
                           onChange={(value) => updateAccount(account.id, {
-                            withdrawalSettings: { ...account.withdrawalSettings, startAge: value }
+                            withdrawalSettings: {
+                              ...account.withdrawalSettings,
+                              startAge: value,
+                              schedule: account.withdrawalSettings.schedule?.map((segment, i) =>
+                                i === 0 ? { ...segment, fromAge: value } : segment
+                              )
+                            }
                           })}
                           min={account.earliestWithdrawalAge}
                           max={account.latestWithdrawalAge}
@@ -253,6 +273,25 @@ export function PensionForm({ pensions, onUpdate, className = '' }: PensionFormP
                           </select>
                         </div>
                       </div>
+
+                      <div>
+                        <label className="label">Uttagsplan</label>
+                        <WithdrawalScheduleInputs
+                          schedule={account.withdrawalSettings.schedule ?? [
+                            { fromAge: account.withdrawalSettings.startAge, percentage: 100 }
+                          ]}
+                          onChange={(schedule) => updateAccount(account.id, {
+                            withdrawalSettings: {
+                              ...account.withdrawalSettings,
+                              startAge: Math.min(...schedule.map(segment => segment.fromAge)),
+                              schedule
+                            }
+                          })}
+                          minAge={account.earliestWithdrawalAge}
+                          percentages={PENSION_PARAMETERS_2025.withdrawalOptions.generalPensionPercentages}
+                          termYears={account.type === 'allmän' ? [] : PENSION_PARAMETERS_2025.withdrawalOptions.fixedTermYears}
+                        />
+                      </div>
                     </div>
                   </div>
                 ) : (
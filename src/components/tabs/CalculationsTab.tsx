@@ -1,5 +1,9 @@
-import { formatCurrency, formatSimulationYear } from '../../utils/formatters';
+import { formatCurrency, formatPercentage, formatSimulationYear } from '../../utils/formatters';
 import { InteractiveBarChart } from '../common/InteractiveCharts';
+import { getTaxParameters } from '../../engine/swedish-parameters/TaxParameterRegistry';
+import { calculateISKTaxRate } from '../../engine/swedish-parameters/TaxParameters2025';
+import { getMunicipality, getLocalTaxRate } from '../../engine/swedish-parameters/Municipalities2025';
+import { TransparentCalculation } from '../../types';
 import { useState } from 'react';
 
 interface CalculationDetails {
@@ -8,8 +12,24 @@ interface CalculationDetails {
   netIncome: number;
   municipalTax: number;
   stateTax: number;
+  publicServiceFee: number;
+  burialFee: number;
+  churchFee: number;
+  pensionFeeReduction: number;
+  earnedIncomeTaxCredit: number;
   iskTax: number;
+  kfTax: number;
+  propertyFee: number;
+  selfEmploymentContributions: number;
+  expansionsfondTax: number;
   totalTax: number;
+  employerContributions: number;
+  occupationalPensionPremium: number;
+  salaryExchangePremium?: number;
+  specialPayrollTax: number;
+  employerCost: number;
+  preliminaryTax: number;
+  taxRefund: number;
   cashFlow: number;
 }
 
@@ -21,8 +41,28 @@ interface Projection {
   savings: number;
   netWorth: number;
   calculations: CalculationDetails;
+  business?: {
+    profit: number;
+    businessIncome: number;
+  };
+  closeCompany?: {
+    companyProfit: number;
+    salaryCost: number;
+    corporateTax: number;
+    retainedEarnings: number;
+    dividendSpace: number;
+    dividend: number;
+    qualifiedDividend: number;
+    serviceDividend: number;
+    savedSpace: number;
+    pensionRights: number;
+    forgonePensionRights: number;
+  };
   pensionIncome?: {
     generalPension: number;
+    guaranteePension?: number;
+    housingSupplement?: number;
+    elderlySupport?: number;
     occupationalPension: number;
     privatePension: number;
     total: number;
@@ -33,17 +73,21 @@ interface Projection {
     private: number;
     total: number;
   };
+  trace?: TransparentCalculation[];
 }
 
 interface CalculationsTabProps {
   projections: Projection[];
   currentYear: number;
   gender: 'man' | 'kvinna';
+  municipalityCode?: string;
 }
 
-export function CalculationsTab({ projections, currentYear, gender }: CalculationsTabProps) {
+export function CalculationsTab({ projections, currentYear, gender, municipalityCode }: CalculationsTabProps) {
   const [selectedYearIndex, setSelectedYearIndex] = useState(0);
   const selectedProjection = projections[selectedYearIndex] || projections[0];
+  const taxParams = getTaxParameters(currentYear + (selectedProjection?.year ?? 0));
+  const municipality = municipalityCode ? getMunicipality(municipalityCode) : undefined;
 
   return (
     <div className="space-y-6">
@@ -66,6 +110,11 @@ export function CalculationsTab({ projections, currentYear, gender }: Calculatio
               value: selectedProjection.calculations.iskTax,
               color: '#B91C1C'
             },
+            {
+              label: 'KF-skatt',
+              value: selectedProjection.calculations.kfTax,
+              color: '#9A3412'
+            },
             {
               label: 'Pensionsavgift',
               value: selectedProjection.calculations.pensionFee,
@@ -121,12 +170,30 @@ export function CalculationsTab({ projections, currentYear, gender }: Calculatio
                         <span>Bruttolön:</span>
                         <span>{formatCurrency(selectedProjection.salary)}</span>
                       </div>
+                      {selectedProjection.business && (
+                        <div className="flex justify-between">
+                          <span>Näringsverksamhet (resultat):</span>
+                          <span>{formatCurrency(selectedProjection.business.profit)}</span>
+                        </div>
+                      )}
+                      {selectedProjection.closeCompany && (
+                        <div className="flex justify-between">
+                          <span>Utdelning fåmansföretag:</span>
+                          <span>{formatCurrency(selectedProjection.closeCompany.dividend)}</span>
+                        </div>
+                      )}
                       {selectedProjection.pensionIncome && selectedProjection.pensionIncome.total > 0 && (
                         <>
                           <div className="flex justify-between">
                             <span>Allmän pension:</span>
                             <span className="text-purple-600">{formatCurrency(selectedProjection.pensionIncome.generalPension * 12)}</span>
                           </div>
+                          {(selectedProjection.pensionIncome.guaranteePension ?? 0) > 0 && (
+                            <div className="flex justify-between">
+                              <span>Garantipension:</span>
+                              <span className="text-purple-600">{formatCurrency((selectedProjection.pensionIncome.guaranteePension ?? 0) * 12)}</span>
+                            </div>
+                          )}
                           <div className="flex justify-between">
                             <span>Tjänstepension:</span>
                             <span className="text-purple-600">{formatCurrency(selectedProjection.pensionIncome.occupationalPension * 12)}</span>
@@ -135,6 +202,18 @@ export function CalculationsTab({ projections, currentYear, gender }: Calculatio
                             <span>Privat pension:</span>
                             <span className="text-purple-600">{formatCurrency(selectedProjection.pensionIncome.privatePension * 12)}</span>
                           </div>
+                          {(selectedProjection.pensionIncome.housingSupplement ?? 0) > 0 && (
+                            <div className="flex justify-between">
+                              <span>Bostadstillägg (skattefritt):</span>
+                              <span className="text-purple-600">{formatCurrency((selectedProjection.pensionIncome.housingSupplement ?? 0) * 12)}</span>
+                            </div>
+                          )}
+                          {(selectedProjection.pensionIncome.elderlySupport ?? 0) > 0 && (
+                            <div className="flex justify-between">
+                              <span>Äldreförsörjningsstöd (skattefritt):</span>
+                              <span className="text-purple-600">{formatCurrency((selectedProjection.pensionIncome.elderlySupport ?? 0) * 12)}</span>
+                            </div>
+                          )}
                         </>
                       )}
                       <div className="flex justify-between font-medium border-t border-gray-300 pt-1">
@@ -159,18 +238,72 @@ export function CalculationsTab({ projections, currentYear, gender }: Calculatio
                         <span>Statlig skatt:</span>
                         <span className="text-red-600">{formatCurrency(selectedProjection.calculations.stateTax)}</span>
                       </div>
+                      <div className="flex justify-between">
+                        <span>Pensionsavgift:</span>
+                        <span className="text-red-600">{formatCurrency(selectedProjection.calculations.pensionFee)}</span>
+                      </div>
+                      <div className="flex justify-between">
+                        <span>Public service-avgift:</span>
+                        <span className="text-red-600">{formatCurrency(selectedProjection.calculations.publicServiceFee)}</span>
+                      </div>
+                      {selectedProjection.calculations.burialFee > 0 && (
+                        <div className="flex justify-between">
+                          <span>Begravningsavgift:</span>
+                          <span className="text-red-600">{formatCurrency(selectedProjection.calculations.burialFee)}</span>
+                        </div>
+                      )}
+                      {selectedProjection.calculations.churchFee > 0 && (
+                        <div className="flex justify-between">
+                          <span>Kyrkoavgift:</span>
+                          <span className="text-red-600">{formatCurrency(selectedProjection.calculations.churchFee)}</span>
+                        </div>
+                      )}
+                      <div className="flex justify-between">
+                        <span>Skattereduktion pensionsavgift:</span>
+                        <span className="text-green-600">-{formatCurrency(selectedProjection.calculations.pensionFeeReduction)}</span>
+                      </div>
+                      <div className="flex justify-between">
+                        <span>Jobbskatteavdrag:</span>
+                        <span className="text-green-600">-{formatCurrency(selectedProjection.calculations.earnedIncomeTaxCredit)}</span>
+                      </div>
                       <div className="flex justify-between">
                         <span>ISK-skatt:</span>
                         <span className="text-red-600">{formatCurrency(selectedProjection.calculations.iskTax)}</span>
                       </div>
                       <div className="flex justify-between">
-                        <span>Pensionsavgift:</span>
-                        <span className="text-red-600">{formatCurrency(selectedProjection.calculations.pensionFee)}</span>
+                        <span>KF-skatt:</span>
+                        <span className="text-red-600">{formatCurrency(selectedProjection.calculations.kfTax)}</span>
                       </div>
+                      {selectedProjection.business && (
+                        <>
+                          <div className="flex justify-between">
+                            <span>Egenavgifter:</span>
+                            <span className="text-red-600">{formatCurrency(selectedProjection.calculations.selfEmploymentContributions)}</span>
+                          </div>
+                          {selectedProjection.calculations.expansionsfondTax !== 0 && (
+                            <div className="flex justify-between">
+                              <span>Expansionsfondsskatt:</span>
+                              <span className={selectedProjection.calculations.expansionsfondTax > 0 ? 'text-red-600' : 'text-green-600'}>
+                                {formatCurrency(selectedProjection.calculations.expansionsfondTax)}
+                              </span>
+                            </div>
+                          )}
+                        </>
+                      )}
                       <div className="flex justify-between font-medium border-t border-gray-300 pt-1">
                         <span>Totala skatter & avgifter:</span>
                         <span className="text-red-600">{formatCurrency(selectedProjection.calculations.totalTax)}</span>
                       </div>
+                      <div className="flex justify-between">
+                        <span>Preliminärskatt (skattetabell):</span>
+                        <span>{formatCurrency(selectedProjection.calculations.preliminaryTax)}</span>
+                      </div>
+                      <div className="flex justify-between">
+                        <span>{selectedProjection.calculations.taxRefund >= 0 ? 'Återbetalning:' : 'Kvarskatt:'}</span>
+                        <span className={selectedProjection.calculations.taxRefund >= 0 ? 'text-green-600' : 'text-red-600'}>
+                          {formatCurrency(Math.abs(selectedProjection.calculations.taxRefund))}
+                        </span>
+                      </div>
                     </div>
                   </div>
 
@@ -179,8 +312,14 @@ export function CalculationsTab({ projections, currentYear, gender }: Calculatio
                     <div className="space-y-1 text-gray-600">
                       <div className="flex justify-between">
                         <span>Levnadskostnader:</span>
-                        <span className="text-orange-600">{formatCurrency(selectedProjection.expenses)}</span>
+                        <span className="text-orange-600">{formatCurrency(selectedProjection.expenses - selectedProjection.calculations.propertyFee)}</span>
                       </div>
+                      {selectedProjection.calculations.propertyFee > 0 && (
+                        <div className="flex justify-between">
+                          <span>Fastighetsavgift:</span>
+                          <span className="text-orange-600">{formatCurrency(selectedProjection.calculations.propertyFee)}</span>
+                        </div>
+                      )}
                       <div className="flex justify-between font-medium border-t border-gray-300 pt-1">
                         <span>Disponibel inkomst:</span>
                         <span>{formatCurrency(selectedProjection.calculations.netIncome - selectedProjection.expenses)}</span>
@@ -199,6 +338,99 @@ export function CalculationsTab({ projections, currentYear, gender }: Calculatio
                   </div>
                 </div>
                 
+                {selectedProjection.calculations.employerCost > 0 && (
+                  <div className="mt-4 pt-4 border-t border-gray-200 text-sm">
+                    <h5 className="font-medium text-gray-700 mb-2">Arbetsgivarens kostnad</h5>
+                    <div className="space-y-1 text-gray-600 md:w-1/2">
+                      <div className="flex justify-between">
+                        <span>Bruttolön:</span>
+                        <span>{formatCurrency(selectedProjection.salary)}</span>
+                      </div>
+                      <div className="flex justify-between">
+                        <span>Arbetsgivaravgifter:</span>
+                        <span>{formatCurrency(selectedProjection.calculations.employerContributions)}</span>
+                      </div>
+                      {(selectedProjection.calculations.occupationalPensionPremium > 0 ||
+                        (selectedProjection.calculations.salaryExchangePremium ?? 0) > 0) && (
+                        <>
+                          <div className="flex justify-between">
+                            <span>Tjänstepensionspremie:</span>
+                            <span className="text-purple-600">{formatCurrency(selectedProjection.calculations.occupationalPensionPremium)}</span>
+                          </div>
+                          {(selectedProjection.calculations.salaryExchangePremium ?? 0) > 0 && (
+                            <div className="flex justify-between">
+                              <span>Löneväxling till pension:</span>
+                              <span className="text-purple-600">{formatCurrency(selectedProjection.calculations.salaryExchangePremium ?? 0)}</span>
+                            </div>
+                          )}
+                          <div className="flex justify-between">
+                            <span>Särskild löneskatt:</span>
+                            <span>{formatCurrency(selectedProjection.calculations.specialPayrollTax)}</span>
+                          </div>
+                        </>
+                      )}
+                      <div className="flex justify-between font-medium border-t border-gray-300 pt-1">
+                        <span>Total kostnad per år:</span>
+                        <span>{formatCurrency(selectedProjection.calculations.employerCost)}</span>
+                      </div>
+                    </div>
+                  </div>
+                )}
+                
+                {selectedProjection.closeCompany && (
+                  <div className="mt-4 pt-4 border-t border-gray-200 text-sm">
+                    <h5 className="font-medium text-gray-700 mb-2">Fåmansaktiebolag (3:12)</h5>
+                    <div className="space-y-1 text-gray-600 md:w-1/2">
+                      <div className="flex justify-between">
+                        <span>Bolagets vinst före ägarens lön:</span>
+                        <span>{formatCurrency(selectedProjection.closeCompany.companyProfit)}</span>
+                      </div>
+                      <div className="flex justify-between">
+                        <span>Lönekostnad inkl. arbetsgivaravgifter:</span>
+                        <span>{formatCurrency(selectedProjection.closeCompany.salaryCost)}</span>
+                      </div>
+                      <div className="flex justify-between">
+                        <span>Bolagsskatt:</span>
+                        <span>{formatCurrency(selectedProjection.closeCompany.corporateTax)}</span>
+                      </div>
+                      <div className="flex justify-between">
+                        <span>Utdelning:</span>
+                        <span>{formatCurrency(selectedProjection.closeCompany.dividend)}</span>
+                      </div>
+                      <div className="flex justify-between">
+                        <span>Kvar i bolaget (fritt eget kapital):</span>
+                        <span>{formatCurrency(selectedProjection.closeCompany.retainedEarnings)}</span>
+                      </div>
+                      <div className="flex justify-between border-t border-gray-300 pt-1">
+                        <span>Gränsbelopp inkl. sparat utrymme:</span>
+                        <span>{formatCurrency(selectedProjection.closeCompany.dividendSpace)}</span>
+                      </div>
+                      <div className="flex justify-between">
+                        <span>Utdelning inom gränsbeloppet (20%):</span>
+                        <span>{formatCurrency(selectedProjection.closeCompany.qualifiedDividend)}</span>
+                      </div>
+                      {selectedProjection.closeCompany.serviceDividend > 0 && (
+                        <div className="flex justify-between">
+                          <span>Utdelning beskattad som tjänst:</span>
+                          <span className="text-red-600">{formatCurrency(selectedProjection.closeCompany.serviceDividend)}</span>
+                        </div>
+                      )}
+                      <div className="flex justify-between">
+                        <span>Sparat utdelningsutrymme till nästa år:</span>
+                        <span>{formatCurrency(selectedProjection.closeCompany.savedSpace)}</span>
+                      </div>
+                      <div className="flex justify-between border-t border-gray-300 pt-1">
+                        <span>Intjänad allmän pension (lön):</span>
+                        <span className="text-purple-600">{formatCurrency(selectedProjection.closeCompany.pensionRights)}</span>
+                      </div>
+                      <div className="flex justify-between">
+                        <span>Avstådd pensionsrätt (utdelning i stället för lön):</span>
+                        <span className="text-orange-600">{formatCurrency(selectedProjection.closeCompany.forgonePensionRights)}</span>
+                      </div>
+                    </div>
+                  </div>
+                )}
+                
                 <div className="mt-4 pt-4 border-t border-gray-200">
                   <div className="text-sm text-gray-600">
                     <h5 className="font-medium text-gray-700 mb-2">Sammanfattning</h5>
@@ -234,6 +466,38 @@ export function CalculationsTab({ projections, currentYear, gender }: Calculatio
                     </div>
                   </div>
                 </div>
+                
+                {selectedProjection.trace && selectedProjection.trace.length > 0 && (
+                  <div className="mt-4 pt-4 border-t border-gray-200 text-sm">
+                    <h5 className="font-medium text-gray-700 mb-2">Beräkningssteg</h5>
+                    <div className="space-y-2">
+                      {selectedProjection.trace.map((calculation, calculationIndex) => (
+                        <details key={calculationIndex} className="bg-white rounded border">
+                          <summary className="flex justify-between cursor-pointer p-3 font-medium text-gray-700">
+                            <span>{calculation.category}</span>
+                            <span>{formatCurrency(calculation.finalResult)}</span>
+                          </summary>
+                          <div className="px-3 pb-3 space-y-2">
+                            {calculation.steps.map((step, stepIndex) => (
+                              <div key={stepIndex} className="border-t border-gray-100 pt-2">
+                                <div className="flex justify-between text-gray-700">
+                                  <span>{step.description}</span>
+                                  <span className="font-medium">{formatCurrency(step.result)}</span>
+                                </div>
+                                <div className="text-xs text-gray-500 font-mono">{step.formula}</div>
+                                <div className="text-xs text-gray-500">
+                                  {Object.entries(step.inputs)
+                                    .map(([name, value]) => `${name} = ${value.toLocaleString('sv-SE', { maximumFractionDigits: 2 })}`)
+                                    .join(', ')}
+                                </div>
+                              </div>
+                            ))}
+                          </div>
+                        </details>
+                      ))}
+                    </div>
+                  </div>
+                )}
               </div>
             )}
             
@@ -243,8 +507,24 @@ export function CalculationsTab({ projections, currentYear, gender }: Calculatio
               <div className="grid grid-cols-1 md:grid-cols-2 gap-4 text-sm text-gray-600">
                 <div>
                   <p><strong>Real avkastning ISK:</strong> 3,5% per år</p>
-                  <p><strong>ISK-skatt:</strong> 0,888% per år (2025)</p>
-                  <p><strong>Kommunalskatt:</strong> 32,41% (rikssnitt)</p>
+                  <p>
+                    <strong>ISK/KF-skatt:</strong> {formatPercentage(calculateISKTaxRate(taxParams.iskKfParameters), 3)} per år ({taxParams.year}
+                    {taxParams.isForecast ? ', prognos' : ''})
+                  </p>
+                  <p>
+                    <strong>Skatteregler:</strong> {taxParams.year}
+                    {taxParams.isForecast
+                      ? ', prognos'
+                      : taxParams.carriedOver
+                        ? `, prognos för ${taxParams.carriedOver.join(' samt ')}`
+                        : ', fastställda'}
+                  </p>
+                  <p>
+                    <strong>Kommunalskatt:</strong>{' '}
+                    {municipality
+                      ? `${formatPercentage(getLocalTaxRate(municipality), 2)} (${municipality.name})`
+                      : `${formatPercentage(taxParams.averageMunicipalTax, 2)} (rikssnitt)`}
+                  </p>
                 </div>
                 <div>
                   <p><strong>Inflation:</strong> 0,0% (real prognosmodell)</p>
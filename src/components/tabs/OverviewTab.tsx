@@ -1,6 +1,10 @@
 import { formatCurrency, formatAge } from '../../utils/formatters';
+import { SalaryExchangeComparison } from '../../types';
 import { InteractiveLineChart, MultiLineChart } from '../common/InteractiveCharts';
 
+// Line colors for the payout curve of each pension account
+const ACCOUNT_COLORS = ['#10B981', '#8B5CF6', '#F59E0B', '#EC4899', '#14B8A6', '#6366F1'];
+
 interface OverviewTabProps {
   summary: {
     retirementNetWorth: number;
@@ -21,10 +25,13 @@ interface OverviewTabProps {
     cashFlowData: Array<{ year: number; age: number; value: number; label: string }>;
     incomeExpenseData: Array<{ year: number; age: number; netIncome: number; expenses: number; label: string }>;
     pensionIncomeData: Array<{ year: number; age: number; general: number; occupational: number; private: number; total: number; label: string }>;
+    accountPayoutData: Array<{ accountId: string; name: string; data: Array<{ year: number; age: number; value: number; label: string }> }>;
+    assetData: Array<{ year: number; age: number; liquid: number; isk: number; kf: number; label: string }>;
   };
+  salaryExchange?: SalaryExchangeComparison | null;
 }
 
-export function OverviewTab({ summary, desiredRetirementAge, pensionWithdrawalAges, chartData }: OverviewTabProps) {
+export function OverviewTab({ summary, desiredRetirementAge, pensionWithdrawalAges, chartData, salaryExchange }: OverviewTabProps) {
   return (
     <div className="space-y-6">
       {/* Summary Cards */}
@@ -82,6 +89,32 @@ export function OverviewTab({ summary, desiredRetirementAge, pensionWithdrawalAg
         </div>
       </div>
 
+      {/* Löneväxling compared with keeping the full salary */}
+      {salaryExchange && (
+        <div className="card">
+          <h3 className="text-xs sm:text-sm font-medium text-gray-700 mb-2">
+            Löneväxling jämfört med full lön
+          </h3>
+          <div className="grid grid-cols-2 gap-2 text-sm">
+            <span>Nettoinkomst under arbetslivet:</span>
+            <span className="text-right">{formatCurrency(salaryExchange.workingNetIncomeChange, { compact: true })}</span>
+            <span>Nettoinkomst som pensionär:</span>
+            <span className="text-right">{formatCurrency(salaryExchange.retirementNetIncomeChange, { compact: true })}</span>
+            <span className="font-medium">Nettoeffekt över livet:</span>
+            <span className={`text-right font-medium ${salaryExchange.lifetimeNetIncomeChange >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+              {formatCurrency(salaryExchange.lifetimeNetIncomeChange, { compact: true })}
+            </span>
+            <span>Förmögenhet vid livets slut:</span>
+            <span className="text-right">{formatCurrency(salaryExchange.finalNetWorthChange, { compact: true })}</span>
+          </div>
+          <p className="text-xs sm:text-sm text-gray-500 mt-2">
+            {salaryExchange.breakEvenAge !== null
+              ? `Löneväxlingen har betalat sig vid ${formatAge(salaryExchange.breakEvenAge)}`
+              : 'Löneväxlingen betalar sig inte under livstiden'}
+          </p>
+        </div>
+      )}
+
       {/* Interactive Charts */}
       {chartData.netWorthData.length > 0 && (
         <div className="space-y-4 sm:space-y-6">
@@ -95,6 +128,46 @@ export function OverviewTab({ summary, desiredRetirementAge, pensionWithdrawalAg
             valueFormatter={(value) => formatCurrency(value, { compact: true })}
           />
           
+          {/* Assets by Account Chart */}
+          <MultiLineChart
+            datasets={[
+              {
+                label: 'Likvida medel',
+                data: chartData.assetData.map(d => ({
+                  year: d.year,
+                  age: d.age,
+                  value: d.liquid,
+                  label: d.label
+                })),
+                color: '#6B7280'
+              },
+              {
+                label: 'ISK',
+                data: chartData.assetData.map(d => ({
+                  year: d.year,
+                  age: d.age,
+                  value: d.isk,
+                  label: d.label
+                })),
+                color: '#4F46E5',
+                fillColor: 'rgba(79, 70, 229, 0.05)'
+              },
+              {
+                label: 'Kapitalförsäkring',
+                data: chartData.assetData.map(d => ({
+                  year: d.year,
+                  age: d.age,
+                  value: d.kf,
+                  label: d.label
+                })),
+                color: '#D97706'
+              }
+            ]}
+            title="Tillgångar per konto"
+            height={250}
+            valueFormatter={(value) => formatCurrency(value, { compact: true })}
+          />
+          
           {/* Cash Flow Chart */}
           <InteractiveLineChart
             data={chartData.cashFlowData}
@@ -144,6 +217,32 @@ export function OverviewTab({ summary, desiredRetirementAge, pensionWithdrawalAg
             height={250}
             valueFormatter={(value) => formatCurrency(value, { compact: true })}
           />
+
+          {/* Payout curve per pension account */}
+          {chartData.accountPayoutData.length > 0 && (
+            <MultiLineChart
+              datasets={[
+                {
+                  label: 'Allmän pension',
+                  data: chartData.pensionIncomeData.map(d => ({
+                    year: d.year,
+                    age: d.age,
+                    value: d.general * 12, // Convert to annual
+                    label: d.label
+                  })),
+                  color: '#3B82F6'
+                },
+                ...chartData.accountPayoutData.map((account, index) => ({
+                  label: account.name,
+                  data: account.data,
+                  color: ACCOUNT_COLORS[index % ACCOUNT_COLORS.length]
+                }))
+              ]}
+              title="Utbetalning per pensionskonto"
+              height={250}
+              valueFormatter={(value) => formatCurrency(value, { compact: true })}
+            />
+          )}
           
           {/* Income vs Expenses Multi-line Chart */}
           <MultiLineChart
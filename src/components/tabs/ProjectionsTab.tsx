@@ -13,6 +13,10 @@ interface Projection {
   expenses: number;
   savings: number;
   netWorth: number;
+  assets: {
+    iskValue: number;
+    kfValue: number;
+  };
 }
 
 interface ProjectionsTabProps {
@@ -79,6 +83,12 @@ export function ProjectionsTab({
               <th className="px-3 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
                 Sparande
               </th>
+              <th className="px-3 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                ISK
+              </th>
+              <th className="px-3 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                KF
+              </th>
               <th className="px-3 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
                 Nettoförmögenhet
               </th>
@@ -114,6 +124,12 @@ export function ProjectionsTab({
                 }`}>
                   {formatCurrency(projection.savings, { compact: true })}
                 </td>
+                <td className="px-3 py-2 whitespace-nowrap text-sm text-gray-900 text-right">
+                  {formatCurrency(projection.assets.iskValue, { compact: true })}
+                </td>
+                <td className="px-3 py-2 whitespace-nowrap text-sm text-gray-900 text-right">
+                  {formatCurrency(projection.assets.kfValue, { compact: true })}
+                </td>
                 <td className="px-3 py-2 whitespace-nowrap text-sm font-medium text-gray-900 text-right">
                   {formatCurrency(projection.netWorth, { compact: true })}
                 </td>
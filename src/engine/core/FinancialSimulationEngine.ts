@@ -3,14 +3,38 @@
 // Core engine for Swedish personal finance lifetime simulation
 // ============================================================================
 
-import { MVPSimulationInputs, MVPYearProjection } from "../../types";
+import {
+  MVPSimulationInputs,
+  MVPYearProjection,
+  OwnedHome,
+  PensionAgreement,
+  BusinessSettings,
+  CloseCompanySettings,
+  CalculationStep,
+  TransparentCalculation,
+  CivilStatus,
+  SalaryExchangeSettings,
+  SalaryExchangeComparison,
+  PensionAges,
+} from "../../types";
 import {
   PensionSettings,
   PensionAccount,
   EnhancedYearProjection,
+  WithdrawalSegment,
 } from "../../types/pension";
-import { taxCalculator } from "../modules/TaxCalculator";
-import { MACROECONOMIC_ASSUMPTIONS } from "../swedish-parameters/TaxParameters2025";
+import { taxCalculator, TaxCalculationInputs } from "../modules/TaxCalculator";
+import { withholdingCalculator, IncomePayer, WithholdingResult } from "../modules/WithholdingCalculator";
+import { employerCostCalculator } from "../modules/EmployerCostCalculator";
+import { BusinessIncomeInputs } from "../modules/BusinessIncomeCalculator";
+import { closeCompanyCalculator } from "../modules/CloseCompanyCalculator";
+import { generalPensionCalculator, GeneralPensionPayoutResult } from "../modules/GeneralPensionCalculator";
+import { premiumPensionCalculator } from "../modules/PremiumPensionCalculator";
+import { pensionerBenefitsCalculator } from "../modules/PensionerBenefitsCalculator";
+import { definedBenefitPensionCalculator, SalaryYear } from "../modules/DefinedBenefitPensionCalculator";
+import { withdrawalScheduleCalculator, AccountPayoutResult } from "../modules/WithdrawalScheduleCalculator";
+import { MACROECONOMIC_ASSUMPTIONS, PENSION_PARAMETERS_2025, getPensionAges } from "../swedish-parameters/TaxParameters2025";
+import { getTaxParameters } from "../swedish-parameters/TaxParameterRegistry";
 import { InvestmentRates } from "../../components";
 
 // Configuration for simulation behavior
@@ -18,6 +42,7 @@ interface SimulationConfig {
   includePensions: boolean;
   useCustomInvestmentRates: boolean;
   enableTransparency: boolean;
+  startYear?: number; // Calendar year of simulation year 0, defaults to current year
 }
 
 // Unified input type that handles both MVP and Enhanced scenarios
@@ -31,6 +56,13 @@ type UnifiedYearProjection = MVPYearProjection & {
   pensionCapital?: EnhancedYearProjection["pensionCapital"];
 };
 
+// ISK development within a year, used for the quarterly kapitalunderlag
+interface ISKYearProjection {
+  deposits: number;
+  quarterlyValues: number[]; // Value at the start of each quarter
+  endValue: number;
+}
+
 // Validation result type
 interface ValidationResult {
   isValid: boolean;
@@ -38,16 +70,55 @@ interface ValidationResult {
   errors: string[];
 }
 
+// Business income plan for one year and the periodiseringsfonder left after återföring
+interface BusinessYearPlan {
+  inputs: BusinessIncomeInputs;
+  remainingFunds: number[];
+}
+
+// Allmän pension balances, kept apart since they are indexed differently
+interface GeneralPensionBalances {
+  inkomstpension: number;
+  premiepension: number;
+}
+
 // Year calculation parameters
+// The fåmansföretag owner's year: salary and dividend paid from the profit
+interface CloseCompanyYearPlan {
+  ownerSalary: number; // Yearly salary before löneväxling
+  dividend: NonNullable<TaxCalculationInputs["closeCompanyDividend"]>;
+  companyProfit: number; // Result before the owner's salary cost
+  salaryCost: number; // Owner's salary with arbetsgivaravgifter and tjänstepension
+  corporateTax: number;
+  retainedEarnings: number; // Fritt eget kapital left after the dividend
+  calculation: TransparentCalculation;
+}
+
 interface YearCalculationParams {
   year: number;
+  calendarYear: number;
   age: number;
+  birthYear: number;
+  lifeExpectancy: number; // Expected age at death for the profile's gender
+  municipalityCode?: string;
+  isChurchMember?: boolean;
+  civilStatus?: CivilStatus;
   isRetired: boolean;
   currentSalary: number;
+  pensionAgreement?: PensionAgreement;
+  salaryExchange?: SalaryExchangeSettings;
+  business?: BusinessIncomeInputs;
+  closeCompanyPlan?: CloseCompanyYearPlan;
   liquidAssets: number;
   iskAccount: number;
+  iskYear: ISKYearProjection;
+  kfAccount: number;
+  kfDeposit: number; // Yearly deposit into KF
+  kfWithdrawal: number; // Yearly withdrawal from KF
+  home?: OwnedHome;
   monthlyExpenses: number;
-  generalPensionCapital?: number;
+  monthlyHousingCost?: number;
+  generalPensionCapital?: GeneralPensionBalances;
   pensionAccounts?: PensionAccount[];
   pensionSettings?: PensionSettings;
   investmentRates?: InvestmentRates;
@@ -76,23 +147,42 @@ export class FinancialSimulationEngine {
 
     // Validate and cap investment rates to prevent extreme calculations
     const safeInvestmentRates = this.sanitizeInvestmentRates(investmentRates);
+    const startYear = config.startYear ?? new Date().getFullYear();
 
     // Initialize state variables with validation
     let currentSalary = this.safeNumber(inputs.income.monthlySalary * 12);
     let liquidAssets = this.safeNumber(inputs.assets.liquidSavings);
     let iskAccount = this.safeNumber(inputs.assets.iskAccount);
+    let kfAccount = this.safeNumber(inputs.assets.capitalInsurance);
+    let businessProfit = this.safeNumber(inputs.income.business?.yearlyProfit ?? 0);
+    let periodiseringsfonder: number[] = []; // Oldest first, one per business year
+    let expansionsfond = 0;
+    let savedDividendSpace = this.safeNumber(inputs.income.closeCompany?.savedSpace ?? 0);
+    let otherCompanySalaries = this.safeNumber(inputs.income.closeCompany?.otherSalaries ?? 0);
+    let companyProfit = this.safeNumber(inputs.income.closeCompany?.yearlyProfit ?? 0);
+    let retainedEarnings = this.safeNumber(inputs.income.closeCompany?.retainedEarnings ?? 0);
+    let previousOwnerSalary = this.safeNumber(
+      (inputs.income.closeCompany
+        ? closeCompanyCalculator.getPaySegment(inputs.income.closeCompany.payPlan, inputs.profile.currentAge)?.monthlySalary ?? 0
+        : 0) * 12
+    ); // 3:12 uses last year's salaries, assumed equal to the first year's
 
     // Initialize pension-related state if enabled
-    let generalPensionCapital = 0;
+    let generalPensionCapital: GeneralPensionBalances = { inkomstpension: 0, premiepension: 0 };
     let pensionAccounts: PensionAccount[] = [];
 
     if (config.includePensions && inputs.pensions) {
-      generalPensionCapital = this.safeNumber(
-        inputs.pensions.generalPension.currentInkomstpension +
-          inputs.pensions.generalPension.currentPremiepension
+      generalPensionCapital = {
+        inkomstpension: this.safeNumber(inputs.pensions.generalPension.currentInkomstpension),
+        premiepension: this.safeNumber(inputs.pensions.generalPension.currentPremiepension),
+      };
+      pensionAccounts = this.withPremiumAccounts(
+        inputs.pensions.accounts,
+        inputs.income,
+        inputs.profile.desiredRetirementAge
       );
-      pensionAccounts = [...inputs.pensions.accounts];
     }
+    const salaryHistory: SalaryYear[] = [];
 
     // Run simulation year by year
     for (
@@ -102,20 +192,91 @@ export class FinancialSimulationEngine {
     ) {
       const age = inputs.profile.currentAge + year;
       const isRetired = age >= inputs.profile.desiredRetirementAge;
+      const assetSteps: CalculationStep[] = [];
+
+      // ISK and KF deposits are made while working, KF withdrawals from retirement
+      const iskYear = this.projectISKYear(
+        iskAccount,
+        isRetired ? 0 : this.safeNumber(inputs.assets.iskMonthlyDeposit),
+        safeInvestmentRates,
+        config,
+        assetSteps
+      );
+      const kfDeposit = isRetired
+        ? 0
+        : this.safeNumber((inputs.assets.capitalInsuranceMonthlyDeposit ?? 0) * 12);
+      const kfWithdrawal = isRetired
+        ? Math.min(
+            kfAccount,
+            this.safeNumber((inputs.assets.capitalInsuranceMonthlyWithdrawal ?? 0) * 12)
+          )
+        : 0;
+
+      const businessPlan = inputs.income.business
+        ? this.planBusinessYear(
+            inputs.income.business,
+            businessProfit,
+            periodiseringsfonder,
+            expansionsfond,
+            isRetired,
+            startYear + year
+          )
+        : undefined;
+
+      // A fåmansföretag owner is paid salary and dividend from the company's
+      // profit while working, following the pay plan instead of monthlySalary
+      const closeCompany = inputs.income.closeCompany;
+      const closeCompanyPlan = closeCompany && !isRetired
+        ? this.planCloseCompanyYear(
+            closeCompany,
+            age,
+            companyProfit,
+            retainedEarnings,
+            previousOwnerSalary,
+            otherCompanySalaries,
+            savedDividendSpace,
+            inputs.income.pensionAgreement,
+            inputs.income.salaryExchange,
+            startYear + year
+          )
+        : undefined;
+      const yearSalary = closeCompanyPlan ? closeCompanyPlan.ownerSalary : currentSalary;
+
+      // Förmånsbestämd tjänstepension follows the salary path up to the pension
+      const definedBenefitSteps: CalculationStep[] = [];
+      const accountsForYear = pensionAccounts.map((account) =>
+        this.applyDefinedBenefit(account, age, salaryHistory, startYear + year, definedBenefitSteps)
+      );
 
       const yearProjection = this.simulateYear(
         {
           year,
+          calendarYear: startYear + year,
           age,
+          birthYear: this.getBirthYear(inputs.profile, startYear),
+          lifeExpectancy,
+          municipalityCode: inputs.profile.municipalityCode,
+          isChurchMember: inputs.profile.isChurchMember,
+          civilStatus: inputs.profile.civilStatus,
           isRetired,
-          currentSalary: isRetired ? 0 : currentSalary,
+          currentSalary: isRetired ? 0 : yearSalary,
+          pensionAgreement: inputs.income.pensionAgreement,
+          salaryExchange: inputs.income.salaryExchange,
+          business: businessPlan?.inputs,
+          closeCompanyPlan,
           liquidAssets,
           iskAccount,
+          iskYear,
+          kfAccount,
+          kfDeposit,
+          kfWithdrawal,
+          home: inputs.assets.home,
           monthlyExpenses: this.safeNumber(inputs.expenses.monthlyLiving),
+          monthlyHousingCost: this.safeNumber(inputs.expenses.monthlyHousingCost),
           generalPensionCapital: config.includePensions
             ? generalPensionCapital
             : undefined,
-          pensionAccounts: config.includePensions ? pensionAccounts : undefined,
+          pensionAccounts: config.includePensions ? accountsForYear : undefined,
           pensionSettings: config.includePensions ? inputs.pensions : undefined,
           investmentRates: config.useCustomInvestmentRates
             ? safeInvestmentRates
@@ -131,6 +292,7 @@ export class FinancialSimulationEngine {
         yearProjection,
         liquidAssets,
         iskAccount,
+        kfAccount,
         currentSalary,
         generalPensionCapital,
         pensionAccounts,
@@ -145,24 +307,86 @@ export class FinancialSimulationEngine {
         yearProjection,
         liquidAssets,
         safeInvestmentRates,
-        config
+        config,
+        assetSteps
       );
-      iskAccount = this.calculateNextISKValue(
-        iskAccount,
+      iskAccount = iskYear.endValue;
+      kfAccount = this.calculateNextKFValue(
+        kfAccount,
+        kfDeposit,
+        kfWithdrawal,
         safeInvestmentRates,
-        config
+        config,
+        assetSteps
       );
 
+      // The final salary is the pensionsmedförande lön before löneväxling
+      salaryHistory.push({ age, salary: isRetired ? 0 : this.safeNumber(yearSalary) });
+
+      if (yearProjection.trace && definedBenefitSteps.length > 0) {
+        yearProjection.trace.push({
+          category: "Förmånsbestämd tjänstepension",
+          steps: definedBenefitSteps,
+          finalResult: (yearProjection.pensionIncome?.occupationalPension ?? 0) * 12,
+        });
+      }
+
+      if (yearProjection.trace) {
+        yearProjection.trace.push({
+          category: "Tillgångar och uttag",
+          steps: assetSteps,
+          finalResult: liquidAssets + iskAccount + kfAccount,
+        });
+      }
+
       if (config.includePensions) {
-        generalPensionCapital = yearProjection.pensionCapital?.general || 0;
-        pensionAccounts = this.updatePensionAccounts(pensionAccounts, age);
+        generalPensionCapital = {
+          inkomstpension: yearProjection.pensionCapital?.inkomstpension || 0,
+          premiepension: yearProjection.pensionCapital?.premiepension || 0,
+        };
+        pensionAccounts = this.updatePensionAccounts(
+          accountsForYear,
+          age,
+          lifeExpectancy,
+          this.getAccountPremiums(
+            accountsForYear,
+            inputs.income.pensionAgreement,
+            yearProjection.calculations.occupationalPensionPremium,
+            yearProjection.calculations.salaryExchangePremium,
+            inputs.income.salaryExchange?.accountId
+          )
+        );
       }
 
-      // Update salary if not retired
+      // Carry periodiseringsfonder and expansionsfond into the next year
+      if (businessPlan && yearProjection.business) {
+        periodiseringsfonder = [
+          ...businessPlan.remainingFunds,
+          yearProjection.business.periodiseringsfondAllocation,
+        ];
+        expansionsfond += yearProjection.business.expansionsfondChange;
+      }
+
+      if (yearProjection.closeCompany) {
+        savedDividendSpace = yearProjection.closeCompany.savedSpace;
+        retainedEarnings = yearProjection.closeCompany.retainedEarnings;
+      }
+
+      // Update salary and business profit if not retired
       if (!isRetired) {
+        previousOwnerSalary = yearSalary;
+        otherCompanySalaries = this.safeNumber(
+          otherCompanySalaries * (1 + inputs.income.realSalaryGrowth)
+        );
+        companyProfit = this.safeNumber(
+          companyProfit * (1 + inputs.income.realSalaryGrowth)
+        );
         currentSalary = this.safeNumber(
           currentSalary * (1 + inputs.income.realSalaryGrowth)
         );
+        businessProfit = this.safeNumber(
+          businessProfit * (1 + inputs.income.realSalaryGrowth)
+        );
       }
     }
 
@@ -178,18 +402,67 @@ export class FinancialSimulationEngine {
   ): UnifiedYearProjection {
     const {
       year,
+      calendarYear,
       age,
+      birthYear,
+      lifeExpectancy,
+      municipalityCode,
+      isChurchMember,
+      civilStatus,
       currentSalary,
+      pensionAgreement,
+      salaryExchange,
+      business,
+      closeCompanyPlan,
       liquidAssets,
       iskAccount,
+      iskYear,
+      kfAccount,
+      kfDeposit,
+      kfWithdrawal,
+      home,
       monthlyExpenses,
+      monthlyHousingCost,
       generalPensionCapital,
       pensionAccounts,
       pensionSettings,
     } = params;
+    const taxParams = getTaxParameters(calendarYear);
+
+    const pensionSteps: CalculationStep[] = [];
+
+    // Premiepension return from AP7 Såfa or the chosen funds, after fees
+    const premiepensionReturn = pensionSettings
+      ? premiumPensionCalculator.calculateYearlyReturn(age, pensionSettings.generalPension)
+      : undefined;
+    if (config.includePensions && premiepensionReturn) {
+      pensionSteps.push(...premiepensionReturn.calculation.steps);
+    }
+
+    // Allmän pension is paid with delningstal unless an estimate is given,
+    // at the share the withdrawal schedule takes this year
+    const generalPensionShare = pensionSettings
+      ? withdrawalScheduleCalculator.getGeneralPensionShare(pensionSettings.generalPension, age)
+      : 0;
+    const generalPensionPayout =
+      config.includePensions &&
+      generalPensionCapital !== undefined &&
+      pensionSettings &&
+      premiepensionReturn &&
+      generalPensionShare > 0 &&
+      !(pensionSettings.generalPension.estimatedMonthlyAmount > 0)
+        ? generalPensionCalculator.calculatePayout({
+            inkomstpension: generalPensionCapital.inkomstpension,
+            premiepension: generalPensionCapital.premiepension,
+            age,
+            birthYear,
+            premiepensionReturn: premiepensionReturn.netReturn,
+            withdrawalShare: generalPensionShare,
+          })
+        : undefined;
 
     // Calculate pension income if enabled
-    let pensionIncome = undefined;
+    let pensionIncome: EnhancedYearProjection["pensionIncome"] | undefined = undefined;
     if (
       config.includePensions &&
       generalPensionCapital !== undefined &&
@@ -198,31 +471,161 @@ export class FinancialSimulationEngine {
     ) {
       pensionIncome = this.calculatePensionIncome(
         age,
-        generalPensionCapital,
+        lifeExpectancy,
+        generalPensionShare,
+        generalPensionPayout,
         pensionAccounts,
-        pensionSettings
+        pensionSettings,
+        pensionSteps
+      );
+    }
+
+    // Garantipension requires the inkomstgrundad pension to be taken in full
+    const benefitCalculations: TransparentCalculation[] = [];
+    if (pensionIncome && generalPensionShare === 1) {
+      const guarantee = pensionerBenefitsCalculator.calculateGuaranteePension(
+        pensionIncome.generalPension * 12,
+        age,
+        taxParams,
+        civilStatus,
+        birthYear
       );
+      const guaranteePension = this.safeNumber(guarantee.amount / 12);
+      benefitCalculations.push(guarantee.calculation);
+      pensionIncome = {
+        ...pensionIncome,
+        guaranteePension,
+        total: pensionIncome.total + guaranteePension,
+      };
     }
 
+    // Löneväxling: part of the gross salary is paid as a pension premium
+    const exchangedSalary = salaryExchange
+      ? Math.min(this.safeNumber(salaryExchange.monthlyAmount * 12), this.safeNumber(currentSalary))
+      : 0;
+
     // Calculate total income (salary + pension if applicable)
-    const salaryIncome = this.safeNumber(currentSalary);
+    const salaryIncome = this.safeNumber(currentSalary) - exchangedSalary;
     const pensionYearlyIncome = pensionIncome
       ? this.safeNumber(pensionIncome.total * 12)
       : 0;
-    const totalGrossIncome = salaryIncome + pensionYearlyIncome;
-
-    // Calculate taxes on total income
-    const taxResult = taxCalculator.calculateYearlyTax({
-      grossSalary: totalGrossIncome,
+    const businessProfit = this.safeNumber(business?.profit ?? 0);
+    const closeCompanyDividend = closeCompanyPlan?.dividend;
+    const dividend = this.safeNumber(closeCompanyDividend?.dividend ?? 0);
+    const totalGrossIncome = salaryIncome + pensionYearlyIncome + businessProfit + dividend;
+
+    // Calculate taxes, keeping salary, business and pension apart since only
+    // work income carries pension fee and jobbskatteavdrag
+    const taxInputs: TaxCalculationInputs = {
+      year: calendarYear,
+      grossSalary: salaryIncome,
+      pensionIncome: pensionYearlyIncome,
+      business,
+      closeCompanyDividend,
       age,
+      municipalityCode,
+      isChurchMember,
       iskCapital: this.safeNumber(iskAccount),
-      kfCapital: 0,
+      iskQuarterlyValues: iskYear.quarterlyValues,
+      iskDeposits: iskYear.deposits,
+      kfCapital: this.safeNumber(kfAccount),
+      homes: home ? [home] : [],
+    };
+    const taxResult = taxCalculator.calculateYearlyTax(taxInputs);
+
+    // Bostadstillägg and äldreförsörjningsstöd are tax-free and tested
+    // against the year's income and savings
+    let taxFreeBenefits = 0;
+    if (pensionIncome) {
+      const assets = this.safeNumber(liquidAssets + iskAccount + kfAccount);
+      const housingSupplement = pensionerBenefitsCalculator.calculateHousingSupplement(
+        {
+          age,
+          birthYear,
+          civilStatus,
+          monthlyHousingCost: this.safeNumber(monthlyHousingCost),
+          yearlyIncome: totalGrossIncome,
+          assets,
+        },
+        taxParams
+      );
+      const elderlySupport = pensionerBenefitsCalculator.calculateElderlySupport(
+        {
+          age,
+          birthYear,
+          civilStatus,
+          monthlyHousingCost: this.safeNumber(monthlyHousingCost),
+          yearlyNetIncome: this.safeNumber(taxResult.netIncome),
+          housingSupplement: housingSupplement.amount,
+          assets,
+        },
+        taxParams
+      );
+      taxFreeBenefits = this.safeNumber(housingSupplement.amount + elderlySupport.amount);
+      benefitCalculations.push(housingSupplement.calculation, elderlySupport.calculation);
+      pensionIncome = {
+        ...pensionIncome,
+        housingSupplement: this.safeNumber(housingSupplement.amount / 12),
+        elderlySupport: this.safeNumber(elderlySupport.amount / 12),
+        total: pensionIncome.total + taxFreeBenefits / 12,
+      };
+    }
+
+    // Employer's cost of the salary, including tjänstepension
+    const employerCost = employerCostCalculator.calculateEmployerCost({
+      monthlySalary: salaryIncome / 12,
+      age,
+      year: calendarYear,
+      pensionAgreement,
+      salaryExchange: exchangedSalary > 0
+        ? { yearlyAmount: exchangedSalary, employerContribution: this.safeNumber(salaryExchange?.employerContribution) }
+        : undefined,
     });
+    const accountPremiums = pensionAccounts
+      ? this.getAccountPremiums(
+          pensionAccounts,
+          pensionAgreement,
+          this.safeNumber(employerCost.pensionPremium),
+          this.safeNumber(employerCost.salaryExchangePremium),
+          salaryExchange?.accountId
+        )
+      : {};
+
+    // F-skatt and the tax withheld on dividends are assumed to match the
+    // final tax the business and the dividend add
+    const totalTax = this.safeNumber(taxResult.totalTax);
+    let otherPreliminaryTax = 0;
+    if (business || closeCompanyDividend) {
+      const taxWithoutOwnCompany = taxCalculator.calculateYearlyTax({
+        ...taxInputs,
+        business: undefined,
+        closeCompanyDividend: undefined,
+      });
+      otherPreliminaryTax = this.safeNumber(totalTax - taxWithoutOwnCompany.totalTax);
+    }
+
+    // Preliminärskatt from each payer compared with the year's slutskatt. The
+    // KF avkastningsskatt is paid by the insurer from the policy, so it is not
+    // part of the slutskatt
+    const withholding = this.calculatePreliminaryTax(
+      salaryIncome,
+      pensionIncome,
+      age,
+      calendarYear,
+      otherPreliminaryTax,
+      totalTax - this.safeNumber(taxResult.kfTax),
+      municipalityCode,
+      isChurchMember
+    );
+    const preliminaryTax = this.safeNumber(withholding.preliminaryTax);
 
-    // Calculate yearly expenses and cash flow
-    const yearlyExpenses = this.safeNumber(monthlyExpenses * 12);
-    const netIncome = this.safeNumber(taxResult.netIncome);
-    const cashFlow = netIncome - yearlyExpenses;
+    // Calculate yearly expenses and cash flow. ISK and KF deposits are paid
+    // from and KF withdrawals (tax-free) paid into liquid assets
+    const propertyFee = this.safeNumber(taxResult.propertyFee + taxResult.propertyTax);
+    const yearlyExpenses = this.safeNumber(monthlyExpenses * 12) + propertyFee;
+    const netIncome = this.safeNumber(taxResult.netIncome) + taxFreeBenefits;
+    const savings = netIncome - yearlyExpenses;
+    const cashFlow = savings - iskYear.deposits - kfDeposit + kfWithdrawal;
 
     // Calculate pension capital if enabled
     let pensionCapital = undefined;
@@ -232,15 +635,26 @@ export class FinancialSimulationEngine {
       pensionAccounts &&
       pensionSettings
     ) {
+      // Salary and överskott av näringsverksamhet give allmän pension rights
+      const workIncome = salaryIncome + this.safeNumber(taxResult.business?.businessIncome ?? 0);
       const updatedPensionCapital = this.updatePensionCapital(
         age,
+        lifeExpectancy,
+        calendarYear,
+        workIncome,
         generalPensionCapital,
+        generalPensionPayout,
+        premiepensionReturn?.netReturn ?? 0,
         pensionAccounts,
+        accountPremiums,
         pensionSettings,
-        pensionIncome!
+        pensionIncome!,
+        pensionSteps
       );
       pensionCapital = {
         general: this.safeNumber(updatedPensionCapital.general),
+        inkomstpension: this.safeNumber(updatedPensionCapital.inkomstpension),
+        premiepension: this.safeNumber(updatedPensionCapital.premiepension),
         occupational: this.safeNumber(updatedPensionCapital.occupational),
         private: this.safeNumber(updatedPensionCapital.private),
         total: this.safeNumber(updatedPensionCapital.total),
@@ -253,6 +667,7 @@ export class FinancialSimulationEngine {
       0,
       this.safeNumber(liquidAssets) +
         this.safeNumber(iskAccount) +
+        this.safeNumber(kfAccount) +
         totalPensionCapital
     );
 
@@ -262,20 +677,95 @@ export class FinancialSimulationEngine {
       age,
       salary: salaryIncome,
       expenses: yearlyExpenses,
-      savings: cashFlow,
+      savings,
       netWorth: this.safeNumber(netWorth),
+      assets: {
+        liquidAssets: this.safeNumber(liquidAssets),
+        iskValue: this.safeNumber(iskAccount),
+        kfValue: this.safeNumber(kfAccount),
+      },
       calculations: {
-        grossIncome: totalGrossIncome,
-        pensionFee: this.safeNumber(salaryIncome * 0.07), // Only on salary
+        grossIncome: totalGrossIncome + taxFreeBenefits,
+        pensionFee: this.safeNumber(taxResult.pensionFee), // Only on salary
         municipalTax: this.safeNumber(taxResult.municipalTax),
         stateTax: this.safeNumber(taxResult.stateTax),
+        publicServiceFee: this.safeNumber(taxResult.publicServiceFee),
+        burialFee: this.safeNumber(taxResult.burialFee),
+        churchFee: this.safeNumber(taxResult.churchFee),
+        pensionFeeReduction: this.safeNumber(taxResult.pensionFeeReduction),
+        earnedIncomeTaxCredit: this.safeNumber(taxResult.earnedIncomeTaxCredit),
         iskTax: this.safeNumber(taxResult.iskTax),
-        totalTax: this.safeNumber(taxResult.totalTax),
+        kfTax: this.safeNumber(taxResult.kfTax),
+        propertyFee,
+        selfEmploymentContributions: this.safeNumber(taxResult.selfEmploymentContributions),
+        expansionsfondTax: this.safeNumber(taxResult.expansionsfondTax),
+        totalTax,
+        employerContributions: this.safeNumber(employerCost.employerContributions),
+        occupationalPensionPremium: this.safeNumber(employerCost.pensionPremium),
+        salaryExchangePremium: this.safeNumber(employerCost.salaryExchangePremium),
+        specialPayrollTax: this.safeNumber(employerCost.specialPayrollTax),
+        employerCost: this.safeNumber(employerCost.totalCost),
+        preliminaryTax,
+        taxRefund: this.safeNumber(withholding.difference),
         netIncome,
         cashFlow,
       },
     };
 
+    if (taxResult.closeCompanyDividend && closeCompanyPlan) {
+      const split = taxResult.closeCompanyDividend;
+      const pensionRights = closeCompanyCalculator.calculatePensionRights(salaryIncome, taxParams);
+      const salaryEquivalent = closeCompanyCalculator.calculateSalaryEquivalent(split.dividend, age, taxParams);
+
+      baseProjection.closeCompany = {
+        companyProfit: closeCompanyPlan.companyProfit,
+        salaryCost: closeCompanyPlan.salaryCost,
+        corporateTax: closeCompanyPlan.corporateTax,
+        retainedEarnings: closeCompanyPlan.retainedEarnings,
+        dividendSpace: closeCompanyPlan.dividend.dividendSpace,
+        dividend: split.dividend,
+        qualifiedDividend: split.qualifiedDividend,
+        serviceDividend: split.serviceDividend,
+        savedSpace: split.remainingSpace,
+        pensionRights,
+        forgonePensionRights:
+          closeCompanyCalculator.calculatePensionRights(salaryIncome + salaryEquivalent, taxParams) -
+          pensionRights,
+      };
+    }
+
+    if (taxResult.business) {
+      baseProjection.business = {
+        profit: taxResult.business.profit,
+        businessIncome: taxResult.business.businessIncome,
+        periodiseringsfondAllocation: taxResult.business.periodiseringsfondAllocation,
+        periodiseringsfondReversal: taxResult.business.periodiseringsfondReversal,
+        expansionsfondChange: taxResult.business.expansionsfondChange,
+      };
+    }
+
+    // Keep every calculation behind the year's numbers when asked for
+    if (config.enableTransparency) {
+      const trace: TransparentCalculation[] = [...taxResult.calculations, withholding.calculation];
+
+      if (salaryIncome > 0) {
+        trace.push(employerCost.calculation);
+      }
+      if (closeCompanyPlan) {
+        trace.push(closeCompanyPlan.calculation);
+      }
+      if (pensionCapital) {
+        trace.push({
+          category: "Pension",
+          steps: pensionSteps,
+          finalResult: pensionYearlyIncome,
+        });
+        trace.push(...benefitCalculations.filter((calculation) => calculation.steps.length > 0));
+      }
+
+      baseProjection.trace = trace;
+    }
+
     // Add pension data if enabled
     if (config.includePensions && pensionIncome && pensionCapital) {
       return {
@@ -303,10 +793,12 @@ export class FinancialSimulationEngine {
     const errors: string[] = [];
 
     // Basic profile validation
-    this.validateProfile(inputs.profile, errors, warnings);
+    const startYear = config.startYear ?? new Date().getFullYear();
+    const pensionAges = getPensionAges(this.getBirthYear(inputs.profile, startYear));
+    this.validateProfile(inputs.profile, startYear, pensionAges, errors, warnings);
 
-    // Income validation
-    this.validateIncome(inputs.income, warnings);
+    // Income validation, with the limits of the first simulated year
+    this.validateIncome(inputs.income, startYear, warnings);
 
     // Expense validation
     this.validateExpenses(inputs.expenses, inputs.income, warnings);
@@ -318,7 +810,7 @@ export class FinancialSimulationEngine {
 
     // Pension validation if enabled
     if (config.includePensions && inputs.pensions) {
-      this.validatePensions(inputs.pensions, errors, warnings);
+      this.validatePensions(inputs.pensions, pensionAges, errors, warnings);
     }
 
     return {
@@ -333,6 +825,8 @@ export class FinancialSimulationEngine {
    */
   private validateProfile(
     profile: MVPSimulationInputs["profile"],
+    startYear: number,
+    pensionAges: PensionAges,
     errors: string[],
     warnings: string[]
   ): void {
@@ -340,13 +834,29 @@ export class FinancialSimulationEngine {
       errors.push("Ålder måste vara mellan 16 och 80 år");
     }
 
+    // The age is reached during the start year, so the birth year may differ by one
+    if (
+      profile.birthYear !== undefined &&
+      Math.abs(profile.birthYear - (startYear - profile.currentAge)) > 1
+    ) {
+      errors.push(
+        `Födelseår ${profile.birthYear} stämmer inte med åldern ${profile.currentAge} år ${startYear}`
+      );
+    }
+
     if (profile.desiredRetirementAge <= profile.currentAge) {
       errors.push("Pensionsålder måste vara högre än nuvarande ålder");
     }
 
-    if (profile.desiredRetirementAge < 61) {
+    if (profile.desiredRetirementAge < pensionAges.earliestGeneralPension) {
+      warnings.push(
+        `Pensionsålder under ${pensionAges.earliestGeneralPension} år kan begränsa pensionsutbetalningar`
+      );
+    }
+
+    if (profile.desiredRetirementAge > pensionAges.las) {
       warnings.push(
-        "Pensionsålder under 61 år kan begränsa pensionsutbetalningar"
+        `Rätten att behålla anställningen (LAS) gäller till ${pensionAges.las} års ålder`
       );
     }
   }
@@ -356,6 +866,7 @@ export class FinancialSimulationEngine {
    */
   private validateIncome(
     income: MVPSimulationInputs["income"],
+    startYear: number,
     warnings: string[]
   ): void {
     if (income.monthlySalary < 10000) {
@@ -373,6 +884,19 @@ export class FinancialSimulationEngine {
         "Ovanlig real lönetillväxt - kontrollera att värdet är rimligt"
       );
     }
+
+    // Below 8.07 IBB the exchanged salary no longer gives allmän pension
+    if (income.salaryExchange && income.salaryExchange.monthlyAmount > 0) {
+      const params = getTaxParameters(startYear);
+      const monthlyLimit =
+        (params.generalPensionFeeLimits.maxIncomeIbb * params.inkomstBasbelopp) / 12;
+
+      if (income.monthlySalary - income.salaryExchange.monthlyAmount < monthlyLimit) {
+        warnings.push(
+          `Lön efter löneväxling under ${Math.round(monthlyLimit)} kr/mån (8,07 IBB) - lägre allmän pension, sjukpenning och föräldrapenning`
+        );
+      }
+    }
   }
 
   /**
@@ -419,6 +943,15 @@ export class FinancialSimulationEngine {
         "Hög förväntad avkastning på ISK-konto (över 15% årligen) - överväg mer konservativa antaganden"
       );
     }
+
+    if (
+      rates.capitalInsuranceRate !== undefined &&
+      (rates.capitalInsuranceRate < -0.5 || rates.capitalInsuranceRate > 0.5)
+    ) {
+      errors.push(
+        "Avkastning på kapitalförsäkring måste vara mellan -50% och 50%"
+      );
+    }
   }
 
   /**
@@ -426,18 +959,59 @@ export class FinancialSimulationEngine {
    */
   private validatePensions(
     pensions: PensionSettings,
+    pensionAges: PensionAges,
     errors: string[],
     warnings: string[]
   ): void {
-    if (pensions.generalPension.withdrawalStartAge < 62) {
-      errors.push("Allmän pension kan tidigast tas ut vid 62 års ålder");
+    if (pensions.generalPension.withdrawalStartAge < pensionAges.earliestGeneralPension) {
+      errors.push(
+        `Allmän pension kan tidigast tas ut vid ${pensionAges.earliestGeneralPension} års ålder`
+      );
+    }
+
+    if (pensions.generalPension.withdrawalStartAge < pensionAges.guaranteePension) {
+      warnings.push(
+        `Garantipension och bostadstillägg betalas först från ${pensionAges.guaranteePension} års ålder`
+      );
     }
 
     if (pensions.generalPension.withdrawalStartAge > 70) {
       warnings.push("Allmän pension bör tas ut senast vid 70 års ålder");
     }
 
+    const { generalPensionPercentages, fixedTermYears } = PENSION_PARAMETERS_2025.withdrawalOptions;
+    const generalSchedule = pensions.generalPension.withdrawalSchedule ?? [];
+    this.validateWithdrawalSchedule(
+      "Allmän pension",
+      generalSchedule,
+      pensionAges.earliestGeneralPension,
+      errors
+    );
+    generalSchedule.forEach((segment) => {
+      if (!generalPensionPercentages.includes(segment.percentage)) {
+        errors.push(
+          `Allmän pension kan tas ut med ${generalPensionPercentages.join(", ")}%`
+        );
+      }
+      if (segment.termYears) {
+        errors.push("Allmän pension betalas ut livsvarigt och kan inte tas ut under en begränsad tid");
+      }
+    });
+
     pensions.accounts.forEach((account) => {
+      const schedule = account.withdrawalSettings.schedule ?? [];
+      this.validateWithdrawalSchedule(account.name, schedule, account.earliestWithdrawalAge, errors);
+      schedule.forEach((segment) => {
+        if (segment.termYears && !fixedTermYears.includes(segment.termYears)) {
+          errors.push(
+            `${account.name}: Tidsbegränsat uttag kan vara ${fixedTermYears.join(", ")} år`
+          );
+        }
+        if (segment.percentage <= 0 || segment.percentage > 100) {
+          errors.push(`${account.name}: Uttagsandelen måste vara mellan 1 och 100%`);
+        }
+      });
+
       if (account.withdrawalSettings.startAge < account.earliestWithdrawalAge) {
         errors.push(
           `${account.name}: Uttagsålder för tidigt (minimum ${account.earliestWithdrawalAge} år)`
@@ -456,6 +1030,33 @@ export class FinancialSimulationEngine {
     });
   }
 
+  /**
+   * Segments must start at or after the earliest age, end after they start
+   * and not overlap
+   */
+  private validateWithdrawalSchedule(
+    name: string,
+    schedule: WithdrawalSegment[],
+    earliestAge: number,
+    errors: string[]
+  ): void {
+    const segments = [...schedule].sort((a, b) => a.fromAge - b.fromAge);
+
+    segments.forEach((segment, index) => {
+      const endAge = withdrawalScheduleCalculator.getSegmentEndAge(segment);
+
+      if (segment.fromAge < earliestAge) {
+        errors.push(`${name}: Uttag kan tidigast starta vid ${earliestAge} års ålder`);
+      }
+      if (endAge <= segment.fromAge) {
+        errors.push(`${name}: Uttagsperioden från ${segment.fromAge} år måste sluta efter att den startar`);
+      }
+      if (index > 0 && segment.fromAge < withdrawalScheduleCalculator.getSegmentEndAge(segments[index - 1])) {
+        errors.push(`${name}: Uttagsperioderna överlappar vid ${segment.fromAge} år`);
+      }
+    });
+  }
+
   /**
    * Sanitize and cap investment rates to prevent extreme calculations
    */
@@ -464,6 +1065,8 @@ export class FinancialSimulationEngine {
       return {
         liquidSavingsRate: this.assumptions.realReturnOnInvestments.bonds,
         iskAccountRate: this.assumptions.realReturnOnInvestments.mixedPortfolio,
+        capitalInsuranceRate:
+          this.assumptions.realReturnOnInvestments.mixedPortfolio,
       };
     }
 
@@ -472,6 +1075,8 @@ export class FinancialSimulationEngine {
       Math.min(0.2, rates.liquidSavingsRate)
     );
     const safeISKRate = Math.max(-0.5, Math.min(0.5, rates.iskAccountRate));
+    const kfRate = rates.capitalInsuranceRate ?? rates.iskAccountRate;
+    const safeKFRate = Math.max(-0.5, Math.min(0.5, kfRate));
 
     if (safeLiquidRate !== rates.liquidSavingsRate) {
       console.warn(
@@ -484,147 +1089,390 @@ export class FinancialSimulationEngine {
       );
     }
 
+    if (safeKFRate !== kfRate) {
+      console.warn(`KF rate capped from ${kfRate} to ${safeKFRate}`);
+    }
+
     return {
       liquidSavingsRate: safeLiquidRate,
       iskAccountRate: safeISKRate,
+      capitalInsuranceRate: safeKFRate,
     };
   }
 
+  /**
+   * Plan the business year: while working the profit is taxed with the chosen
+   * fund allocations and the oldest periodiseringsfond is reversed after six
+   * years. In the first retired year the business is wound up and all fonder
+   * are reversed. Returns undefined once nothing is left to tax.
+   */
+  private planBusinessYear(
+    settings: BusinessSettings,
+    profit: number,
+    periodiseringsfonder: number[],
+    expansionsfond: number,
+    isRetired: boolean,
+    calendarYear: number
+  ): BusinessYearPlan | undefined {
+    const fundYears = getTaxParameters(calendarYear).businessAllocations.periodiseringsfondYears;
+
+    if (isRetired) {
+      const remaining = periodiseringsfonder.reduce((sum, fund) => sum + fund, 0);
+      if (remaining <= 0 && expansionsfond <= 0) {
+        return undefined;
+      }
+
+      return {
+        inputs: {
+          profit: 0,
+          periodiseringsfondReversal: remaining,
+          expansionsfondChange: -expansionsfond,
+          expansionsfondBalance: expansionsfond,
+          equityCapital: settings.equityCapital,
+        },
+        remainingFunds: [],
+      };
+    }
+
+    const reverseOldest = periodiseringsfonder.length >= fundYears;
+
+    return {
+      inputs: {
+        profit,
+        // Ask for the whole profit; the calculator limits it to the maximum
+        periodiseringsfondAllocation: settings.usePeriodiseringsfond ? profit : 0,
+        periodiseringsfondReversal: reverseOldest ? periodiseringsfonder[0] : 0,
+        expansionsfondChange: settings.expansionsfondAllocation,
+        expansionsfondBalance: expansionsfond,
+        equityCapital: settings.equityCapital,
+      },
+      remainingFunds: reverseOldest ? periodiseringsfonder.slice(1) : periodiseringsfonder,
+    };
+  }
+
+  /**
+   * Plan the owner's year from the pay plan. The salary and its employer cost
+   * are paid from the profit, scaled down when the profit and retained
+   * earnings cannot cover them. The dividend is limited to the owner's share
+   * of what is left after bolagsskatt, together with earnings retained from
+   * earlier years. The gränsbelopp uses last year's salaries.
+   */
+  private planCloseCompanyYear(
+    settings: CloseCompanySettings,
+    age: number,
+    profit: number,
+    retainedEarnings: number,
+    previousOwnerSalary: number,
+    otherSalaries: number,
+    savedSpace: number,
+    pensionAgreement: PensionAgreement | undefined,
+    salaryExchange: SalaryExchangeSettings | undefined,
+    calendarYear: number
+  ): CloseCompanyYearPlan {
+    const taxParams = getTaxParameters(calendarYear);
+    const segment = closeCompanyCalculator.getPaySegment(settings.payPlan, age);
+
+    // Employer cost as in simulateYear: löneväxling is paid as a premium
+    const salaryCostFor = (salary: number) => {
+      const exchanged = salaryExchange
+        ? Math.min(this.safeNumber(salaryExchange.monthlyAmount * 12), salary)
+        : 0;
+      return this.safeNumber(
+        employerCostCalculator.calculateEmployerCost({
+          monthlySalary: (salary - exchanged) / 12,
+          age,
+          year: calendarYear,
+          pensionAgreement,
+          salaryExchange: exchanged > 0
+            ? { yearlyAmount: exchanged, employerContribution: this.safeNumber(salaryExchange?.employerContribution) }
+            : undefined,
+        }).totalCost
+      );
+    };
+
+    let ownerSalary = this.safeNumber((segment?.monthlySalary ?? 0) * 12);
+    let salaryCost = salaryCostFor(ownerSalary);
+    const funds = Math.max(0, profit + retainedEarnings);
+    if (salaryCost > funds) {
+      ownerSalary = ownerSalary * funds / salaryCost;
+      salaryCost = salaryCostFor(ownerSalary);
+    }
+
+    const result = closeCompanyCalculator.calculateCompanyResult(profit, salaryCost, retainedEarnings, taxParams);
+    const space = closeCompanyCalculator.calculateDividendSpace(
+      {
+        ownershipShare: settings.ownershipShare,
+        acquisitionCost: settings.acquisitionCost,
+        ownerSalary: previousOwnerSalary,
+        companySalaries: previousOwnerSalary + otherSalaries,
+        savedSpace,
+        rule: settings.rule,
+      },
+      taxParams
+    );
+
+    // Every owner is paid in proportion to the shares
+    const ownership = Math.min(1, Math.max(0, settings.ownershipShare));
+    const plannedDividend = !segment
+      ? 0
+      : segment.dividendStrategy === "gränsbelopp"
+        ? space.dividendSpace
+        : this.safeNumber(segment.yearlyDividend);
+    const dividend = Math.min(plannedDividend, result.distributableEarnings * ownership);
+    const paidOut = ownership > 0 ? dividend / ownership : 0;
+
+    result.calculation.steps.push({
+      description: `Utdelning till ägaren (högst ${(ownership * 100).toFixed(0)}% av fritt eget kapital)`,
+      formula: "min(planerad_utdelning, fritt_eget_kapital × ägarandel)",
+      inputs: { planerad_utdelning: plannedDividend, fritt_eget_kapital: result.distributableEarnings, ägarandel: ownership },
+      result: dividend
+    });
+
+    return {
+      ownerSalary,
+      dividend: { dividend, dividendSpace: space.dividendSpace },
+      companyProfit: profit,
+      salaryCost,
+      corporateTax: result.corporateTax,
+      retainedEarnings: result.distributableEarnings - paidOut,
+      calculation: result.calculation,
+    };
+  }
+
+  /**
+   * Yearly preliminärskatt withheld by the employer and each pension payer,
+   * plus other preliminary tax, compared with the year's final tax
+   */
+  private calculatePreliminaryTax(
+    salaryIncome: number,
+    pensionIncome: EnhancedYearProjection["pensionIncome"] | undefined,
+    age: number,
+    calendarYear: number,
+    otherPreliminaryTax: number,
+    finalTax: number,
+    municipalityCode?: string,
+    isChurchMember?: boolean
+  ): WithholdingResult {
+    const payers: IncomePayer[] = [
+      { name: "Arbetsgivare", monthlyAmount: salaryIncome / 12, incomeType: "salary" },
+      {
+        name: "Pensionsmyndigheten",
+        monthlyAmount: (pensionIncome?.generalPension ?? 0) + (pensionIncome?.guaranteePension ?? 0),
+        incomeType: "pension",
+      },
+      { name: "Tjänstepension", monthlyAmount: pensionIncome?.occupationalPension ?? 0, incomeType: "pension" },
+      { name: "Privat pension", monthlyAmount: pensionIncome?.privatePension ?? 0, incomeType: "pension" },
+    ];
+
+    // The largest payer is the main payer and uses the skattetabell, the
+    // others withhold as for a sidoinkomst
+    return withholdingCalculator.simulateWithholding({
+      payers: payers
+        .filter((payer) => payer.monthlyAmount > 0)
+        .sort((a, b) => b.monthlyAmount - a.monthlyAmount),
+      age,
+      year: calendarYear,
+      municipalityCode,
+      isChurchMember,
+      otherPreliminaryTax,
+      finalTax,
+    });
+  }
+
   /**
    * Calculate pension income for a given year
    */
   private calculatePensionIncome(
     age: number,
-    generalPensionCapital: number,
+    lifeExpectancy: number,
+    generalPensionShare: number,
+    generalPensionPayout: GeneralPensionPayoutResult | undefined,
     pensionAccounts: PensionAccount[],
-    pensionSettings: PensionSettings
+    pensionSettings: PensionSettings,
+    steps: CalculationStep[]
   ): EnhancedYearProjection["pensionIncome"] {
     let generalPension = 0;
     let occupationalPension = 0;
     let privatePension = 0;
+    const accounts: EnhancedYearProjection["pensionIncome"]["accounts"] = [];
 
     // General pension
-    if (age >= pensionSettings.generalPension.withdrawalStartAge) {
+    if (generalPensionShare > 0) {
       if (pensionSettings.generalPension.estimatedMonthlyAmount > 0) {
         generalPension = this.safeNumber(
-          pensionSettings.generalPension.estimatedMonthlyAmount
-        );
-      } else {
-        // Estimate based on capital and life expectancy
-        const genderKey = age >= 65 ? "female" : "male";
-        const remainingYears = Math.max(
-          1,
-          this.assumptions.lifeExpectancy[genderKey] - age
-        );
-        generalPension = this.safeNumber(
-          generalPensionCapital / (remainingYears * 12)
+          pensionSettings.generalPension.estimatedMonthlyAmount * generalPensionShare
         );
+
+        steps.push({
+          description: generalPensionShare < 1
+            ? `Allmän pension per månad (uppskattat belopp, uttag ${generalPensionShare * 100}%)`
+            : "Allmän pension per månad (uppskattat belopp)",
+          formula: generalPensionShare < 1 ? "uppskattat_belopp × uttagsandel" : "uppskattat_belopp",
+          inputs: {
+            uppskattat_belopp: pensionSettings.generalPension.estimatedMonthlyAmount,
+            uttagsandel: generalPensionShare,
+          },
+          result: generalPension,
+        });
+      } else if (generalPensionPayout) {
+        // Inkomstpension and premiepension divided by delningstal
+        generalPension = this.safeNumber(generalPensionPayout.monthlyPension);
+        steps.push(...generalPensionPayout.calculation.steps);
       }
     }
 
     // Occupational and private pensions
     pensionAccounts.forEach((account) => {
-      if (age >= account.withdrawalSettings.startAge) {
-        const monthlyAmount = this.safeNumber(
-          this.calculateAccountPension(account, age)
-        );
+      if (withdrawalScheduleCalculator.isWithdrawing(account, age)) {
+        const payout = this.calculateAccountPension(account, age, lifeExpectancy);
+        const monthlyAmount = this.safeNumber(payout.monthlyAmount);
 
         if (account.type === "tjänste") {
           occupationalPension += monthlyAmount;
         } else if (account.type === "privat") {
           privatePension += monthlyAmount;
         }
+
+        accounts.push({
+          accountId: account.id,
+          name: account.name,
+          type: account.type,
+          monthlyAmount,
+        });
+        steps.push(...payout.calculation.steps);
       }
     });
 
     return {
       generalPension,
+      guaranteePension: 0,
+      housingSupplement: 0,
+      elderlySupport: 0,
       occupationalPension,
       privatePension,
       total: generalPension + occupationalPension + privatePension,
+      accounts,
     };
   }
 
   /**
-   * Calculate monthly pension from a specific account
+   * Calculate monthly pension from a specific account, following its
+   * withdrawal schedule
    */
   private calculateAccountPension(
     account: PensionAccount,
-    currentAge: number
-  ): number {
-    if (currentAge < account.withdrawalSettings.startAge) {
-      return 0;
-    }
-
-    // Use specified monthly amount if set
-    if (account.withdrawalSettings.monthlyAmount > 0) {
-      return this.safeNumber(account.withdrawalSettings.monthlyAmount);
-    }
-
-    // Use expected monthly pension if available
-    if (account.expectedMonthlyPension && account.expectedMonthlyPension > 0) {
-      return this.safeNumber(account.expectedMonthlyPension);
-    }
-
-    // Calculate based on capital and withdrawal strategy
-    const currentValue = this.safeNumber(account.currentValue);
-
-    if (account.withdrawalSettings.isLifelong) {
-      // Lifelong pension - calculate based on life expectancy
-      const genderKey = currentAge >= 65 ? "female" : "male";
-      const lifeExpectancy = this.assumptions.lifeExpectancy[genderKey];
-      const remainingYears = Math.max(1, lifeExpectancy - currentAge);
-      return currentValue / (remainingYears * 12);
-    } else {
-      // Until capital depleted - use 4% rule as default
-      return (currentValue * 0.04) / 12;
-    }
+    currentAge: number,
+    lifeExpectancy: number
+  ): AccountPayoutResult {
+    return withdrawalScheduleCalculator.calculateAccountPayout(
+      { ...account, currentValue: this.safeNumber(account.currentValue) },
+      currentAge,
+      lifeExpectancy
+    );
   }
 
   /**
-   * Update pension capital values
+   * Update pension capital values. Before withdrawals start the allmän
+   * pension is indexed and receives the year's rights from work income;
+   * afterwards withdrawals are taken from both parts in proportion and any
+   * work income still adds rights. The employer's tjänstepension and
+   * löneväxling premiums are credited to their accounts.
    */
   private updatePensionCapital(
     age: number,
-    generalPensionCapital: number,
+    lifeExpectancy: number,
+    calendarYear: number,
+    workIncome: number,
+    generalPensionCapital: GeneralPensionBalances,
+    generalPensionPayout: GeneralPensionPayoutResult | undefined,
+    premiepensionReturn: number,
     pensionAccounts: PensionAccount[],
+    accountPremiums: Record<string, number>,
     pensionSettings: PensionSettings,
-    pensionIncome: EnhancedYearProjection["pensionIncome"]
+    pensionIncome: EnhancedYearProjection["pensionIncome"],
+    steps: CalculationStep[]
   ) {
     // General pension capital
-    let updatedGeneralCapital = this.safeNumber(generalPensionCapital);
-    if (age >= pensionSettings.generalPension.withdrawalStartAge) {
-      // If withdrawing, reduce capital
+    const taxParams = getTaxParameters(calendarYear);
+    let inkomstpension = this.safeNumber(generalPensionCapital.inkomstpension);
+    let premiepension = this.safeNumber(generalPensionCapital.premiepension);
+
+    if (withdrawalScheduleCalculator.getGeneralPensionShare(pensionSettings.generalPension, age) > 0) {
+      // If withdrawing, keep the value of the remaining pension, or reduce
+      // the capital by an estimated amount
+      const capital = inkomstpension + premiepension;
       const withdrawal = this.safeNumber(pensionIncome.generalPension * 12);
-      updatedGeneralCapital = Math.max(0, updatedGeneralCapital - withdrawal);
+      const rights = generalPensionCalculator.calculatePensionRights(workIncome, taxParams);
+
+      if (generalPensionPayout) {
+        inkomstpension = this.safeNumber(generalPensionPayout.inkomstpension) + rights.inkomstpension;
+        premiepension = this.safeNumber(generalPensionPayout.premiepension) + rights.premiepension;
+      } else {
+        const remainingShare = capital > 0 ? Math.max(0, 1 - withdrawal / capital) : 0;
+        inkomstpension = inkomstpension * remainingShare + rights.inkomstpension;
+        premiepension = premiepension * remainingShare + rights.premiepension;
+      }
+
+      steps.push({
+        description: "Allmänt pensionskapital efter årets uttag och nya pensionsrätter",
+        formula: generalPensionPayout
+          ? "årsbelopp × delningstal_nästa_år × följsamhetsindex + pensionsrätter"
+          : "max(0, kapital - månadsbelopp × 12) + pensionsrätter",
+        inputs: { kapital: capital, uttag: withdrawal, pensionsrätter: rights.total },
+        result: inkomstpension + premiepension,
+      });
     } else {
-      // If not withdrawing, grow with conservative return
-      updatedGeneralCapital = this.safeNumber(
-        updatedGeneralCapital *
-          (1 + this.assumptions.realReturnOnInvestments.bonds)
+      // If not withdrawing, index inkomstpension and add the year's rights
+      const accrual = generalPensionCalculator.calculateYearlyAccrual(
+        {
+          inkomstpension,
+          premiepension,
+          workIncome,
+          premiepensionReturn,
+        },
+        taxParams
       );
+      inkomstpension = accrual.inkomstpension;
+      premiepension = accrual.premiepension;
+      steps.push(...accrual.calculation.steps);
     }
 
+    const updatedGeneralCapital = this.safeNumber(inkomstpension + premiepension);
+
     // Occupational and private pension capital
     let occupationalCapital = 0;
     let privateCapital = 0;
 
-    pensionAccounts.forEach((account) => {
-      if (age >= account.withdrawalSettings.startAge) {
-        // Withdrawing from this account
-        const annualWithdrawal = this.safeNumber(
-          this.calculateAccountPension(account, age) * 12
-        );
-        account.currentValue = Math.max(
-          0,
-          this.safeNumber(account.currentValue) - annualWithdrawal
-        );
+    const updatedAccounts = this.updatePensionAccounts(pensionAccounts, age, lifeExpectancy, accountPremiums);
+
+    updatedAccounts.forEach((account, index) => {
+      const startValue = this.safeNumber(pensionAccounts[index].currentValue);
+      const premium = accountPremiums[account.id] ?? 0;
+
+      if (withdrawalScheduleCalculator.isWithdrawing(pensionAccounts[index], age)) {
+        steps.push({
+          description: `${account.name}: kapital efter årets uttag`,
+          formula: premium > 0 ? "max(0, kapital - uttag) + premier" : "max(0, kapital - uttag)",
+          inputs: {
+            kapital: startValue,
+            uttag: this.safeNumber(this.calculateAccountPension(pensionAccounts[index], age, lifeExpectancy).monthlyAmount * 12),
+            premier: premium,
+          },
+          result: account.currentValue,
+        });
       } else {
-        // Not withdrawing yet, grow the capital
-        account.currentValue = this.safeNumber(
-          account.currentValue *
-            (1 + this.assumptions.realReturnOnInvestments.mixedPortfolio)
-        );
+        const growthRate = this.assumptions.realReturnOnInvestments.mixedPortfolio;
+
+        steps.push({
+          description: premium > 0
+            ? `${account.name}: kapital efter avkastning (${(growthRate * 100).toFixed(1)}% real) och arbetsgivarens premier`
+            : `${account.name}: kapital efter avkastning (${(growthRate * 100).toFixed(1)}% real)`,
+          formula: premium > 0
+            ? `kapital × ${(1 + growthRate).toFixed(3)} + premier`
+            : `kapital × ${(1 + growthRate).toFixed(3)}`,
+          inputs: { kapital: startValue, premier: premium },
+          result: account.currentValue,
+        });
       }
 
       if (account.type === "tjänste") {
@@ -636,6 +1484,8 @@ export class FinancialSimulationEngine {
 
     return {
       general: updatedGeneralCapital,
+      inkomstpension,
+      premiepension,
       occupational: occupationalCapital,
       private: privateCapital,
       total: updatedGeneralCapital + occupationalCapital + privateCapital,
@@ -649,8 +1499,9 @@ export class FinancialSimulationEngine {
     yearProjection: UnifiedYearProjection;
     liquidAssets: number;
     iskAccount: number;
+    kfAccount: number;
     currentSalary: number;
-    generalPensionCapital: number;
+    generalPensionCapital: GeneralPensionBalances;
     pensionAccounts: PensionAccount[];
     isRetired: boolean;
     config: SimulationConfig;
@@ -667,6 +1518,8 @@ export class FinancialSimulationEngine {
           0
         )}, ISK=${params.iskAccount.toFixed(
           0
+        )}, KF=${params.kfAccount.toFixed(
+          0
         )}, CashFlow=${params.yearProjection.calculations.cashFlow.toFixed(
           0
         )}, NetWorth=${params.yearProjection.netWorth.toFixed(0)}`
@@ -681,7 +1534,8 @@ export class FinancialSimulationEngine {
     yearProjection: UnifiedYearProjection,
     currentLiquidAssets: number,
     investmentRates: InvestmentRates,
-    config: SimulationConfig
+    config: SimulationConfig,
+    steps: CalculationStep[]
   ): number {
     let totalCashFlow = yearProjection.calculations.cashFlow;
     let liquidAssets = currentLiquidAssets;
@@ -692,9 +1546,23 @@ export class FinancialSimulationEngine {
       const liquidDeficit = Math.min(-totalCashFlow, liquidAssets);
       liquidAssets -= liquidDeficit;
       totalCashFlow += liquidDeficit;
+
+      steps.push({
+        description: "Uttag från likvida medel för att täcka underskottet",
+        formula: "min(underskott, likvida_medel)",
+        inputs: { underskott: -yearProjection.calculations.cashFlow, likvida_medel: currentLiquidAssets },
+        result: liquidDeficit,
+      });
     } else {
       // Positive cash flow goes to liquid assets
       liquidAssets += totalCashFlow;
+
+      steps.push({
+        description: "Årets sparande till likvida medel",
+        formula: "likvida_medel + kassaflöde",
+        inputs: { likvida_medel: currentLiquidAssets, kassaflöde: totalCashFlow },
+        result: liquidAssets,
+      });
     }
 
     // Apply investment growth to remaining positive assets
@@ -702,63 +1570,273 @@ export class FinancialSimulationEngine {
       const growthRate = config.useCustomInvestmentRates
         ? investmentRates.liquidSavingsRate
         : this.assumptions.realReturnOnInvestments.bonds;
+      const beforeGrowth = liquidAssets;
       liquidAssets = this.safeNumber(liquidAssets * (1 + growthRate));
+
+      steps.push({
+        description: `Likvida medel efter avkastning (${(growthRate * 100).toFixed(1)}%)`,
+        formula: `likvida_medel × ${(1 + growthRate).toFixed(3)}`,
+        inputs: { likvida_medel: beforeGrowth },
+        result: liquidAssets,
+      });
     }
 
     return Math.max(0, liquidAssets);
   }
 
   /**
-   * Calculate next year's ISK value
+   * Project the ISK value month by month over a year. Deposits are made at
+   * the start of each month and growth compounds monthly at the yearly rate.
    */
-  private calculateNextISKValue(
+  private projectISKYear(
     currentISKValue: number,
+    monthlyDeposit: number,
     investmentRates: InvestmentRates,
-    config: SimulationConfig
+    config: SimulationConfig,
+    steps: CalculationStep[]
+  ): ISKYearProjection {
+    const growthRate = config.useCustomInvestmentRates
+      ? investmentRates.iskAccountRate
+      : this.assumptions.realReturnOnInvestments.mixedPortfolio;
+    const monthlyRate = Math.pow(1 + growthRate, 1 / 12) - 1;
+    const deposit = Math.max(0, monthlyDeposit);
+
+    const quarterlyValues: number[] = [];
+    let value = Math.max(0, this.safeNumber(currentISKValue));
+
+    for (let month = 0; month < 12; month++) {
+      if (month % 3 === 0) {
+        quarterlyValues.push(value);
+      }
+      value = (value + deposit) * (1 + monthlyRate);
+    }
+
+    const startValue = quarterlyValues[0];
+
+    steps.push({
+      description: `ISK efter insättningar och avkastning (${(growthRate * 100).toFixed(1)}% per år, månadsvis)`,
+      formula: "(värde + månadsinsättning) × (1 + månadsavkastning), 12 månader",
+      inputs: { startvärde: startValue, månadsinsättning: deposit, årsavkastning: growthRate * 100 },
+      result: this.safeNumber(value),
+    });
+
+    return {
+      deposits: deposit * 12,
+      quarterlyValues,
+      endValue: this.safeNumber(value),
+    };
+  }
+
+  /**
+   * Calculate next year's KF value (after deposits and withdrawals)
+   */
+  private calculateNextKFValue(
+    currentKFValue: number,
+    deposit: number,
+    withdrawal: number,
+    investmentRates: InvestmentRates,
+    config: SimulationConfig,
+    steps: CalculationStep[]
   ): number {
-    if (currentISKValue <= 0) return 0;
+    const valueAfterFlows = currentKFValue + deposit - withdrawal;
+    if (valueAfterFlows <= 0) return 0;
 
     const growthRate = config.useCustomInvestmentRates
-      ? investmentRates.iskAccountRate
+      ? investmentRates.capitalInsuranceRate ?? investmentRates.iskAccountRate
       : this.assumptions.realReturnOnInvestments.mixedPortfolio;
+    const nextValue = this.safeNumber(valueAfterFlows * (1 + growthRate));
+
+    steps.push({
+      description: `Kapitalförsäkring efter insättning, uttag och avkastning (${(growthRate * 100).toFixed(1)}%)`,
+      formula: `(värde + insättning - uttag) × ${(1 + growthRate).toFixed(3)}`,
+      inputs: { värde: currentKFValue, insättning: deposit, uttag: withdrawal },
+      result: nextValue,
+    });
 
-    return this.safeNumber(currentISKValue * (1 + growthRate));
+    return nextValue;
   }
 
   /**
-   * Update pension accounts array
+   * Update pension accounts array: withdraw or grow each account and credit
+   * the year's premiums per account id
    */
   private updatePensionAccounts(
     accounts: PensionAccount[],
-    age: number
+    age: number,
+    lifeExpectancy: number,
+    accountPremiums: Record<string, number> = {}
   ): PensionAccount[] {
     return accounts.map((account) => {
-      if (age >= account.withdrawalSettings.startAge) {
+      const premium = this.safeNumber(accountPremiums[account.id]);
+
+      if (withdrawalScheduleCalculator.isWithdrawing(account, age)) {
         const monthlyWithdrawal = this.safeNumber(
-          this.calculateAccountPension(account, age)
+          this.calculateAccountPension(account, age, lifeExpectancy).monthlyAmount
         );
         const annualWithdrawal = monthlyWithdrawal * 12;
 
         return {
           ...account,
-          currentValue: Math.max(
-            0,
-            this.safeNumber(account.currentValue) - annualWithdrawal
-          ),
+          currentValue:
+            Math.max(0, this.safeNumber(account.currentValue) - annualWithdrawal) + premium,
         };
       } else {
         // Grow the capital
         return {
           ...account,
-          currentValue: this.safeNumber(
-            account.currentValue *
-              (1 + this.assumptions.realReturnOnInvestments.mixedPortfolio)
-          ),
+          currentValue:
+            this.safeNumber(
+              account.currentValue *
+                (1 + this.assumptions.realReturnOnInvestments.mixedPortfolio)
+            ) + premium,
         };
       }
     });
   }
 
+  /**
+   * Premiums for each account this year: the agreement's tjänstepension
+   * premium and the löneväxling premium, which goes to the chosen account or
+   * else the tjänstepension account
+   */
+  private getAccountPremiums(
+    accounts: PensionAccount[],
+    pensionAgreement: PensionAgreement | undefined,
+    occupationalPremium: number,
+    salaryExchangePremium: number,
+    salaryExchangeAccountId?: string
+  ): Record<string, number> {
+    const premiums: Record<string, number> = {};
+    const credit = (accountId: string | undefined, premium: number) => {
+      if (accountId && premium > 0) {
+        premiums[accountId] = (premiums[accountId] ?? 0) + premium;
+      }
+    };
+
+    credit(this.findPremiumAccountId(accounts, pensionAgreement), occupationalPremium);
+    credit(
+      accounts.some((account) => account.id === salaryExchangeAccountId)
+        ? salaryExchangeAccountId
+        : this.findPremiumAccountId(accounts, pensionAgreement) ??
+            accounts.find((account) => account.type !== "allmän" && !account.definedBenefit)?.id,
+      salaryExchangePremium
+    );
+
+    return premiums;
+  }
+
+  /**
+   * Set the monthly pension of a förmånsbestämd account from the simulated
+   * salary path once withdrawals start. Without any salary in the
+   * simulation the amount entered by hand is kept.
+   */
+  private applyDefinedBenefit(
+    account: PensionAccount,
+    age: number,
+    salaryHistory: SalaryYear[],
+    calendarYear: number,
+    steps: CalculationStep[]
+  ): PensionAccount {
+    if (!account.definedBenefit || age < account.withdrawalSettings.startAge) {
+      return account;
+    }
+
+    const benefit = definedBenefitPensionCalculator.calculateBenefit(
+      {
+        salaryHistory,
+        retirementAge: account.withdrawalSettings.startAge,
+        serviceYears: account.definedBenefit.serviceYears,
+      },
+      getTaxParameters(calendarYear)
+    );
+
+    if (benefit.finalSalary <= 0) {
+      return account;
+    }
+
+    steps.push(...benefit.calculation.steps);
+    const monthlyPension = this.safeNumber(benefit.monthlyPension);
+
+    return {
+      ...account,
+      expectedMonthlyPension: monthlyPension,
+      withdrawalSettings: { ...account.withdrawalSettings, monthlyAmount: monthlyPension },
+    };
+  }
+
+  /**
+   * The tjänste account that receives the premiums: the one for the
+   * agreement, or else the first tjänste account without an agreement.
+   * Förmånsbestämd accounts hold no premiums.
+   */
+  private findPremiumAccountId(
+    accounts: PensionAccount[],
+    pensionAgreement?: PensionAgreement
+  ): string | undefined {
+    if (!pensionAgreement || pensionAgreement === "none") {
+      return undefined;
+    }
+
+    const occupationalAccounts = accounts.filter(
+      (account) => account.type === "tjänste" && !account.definedBenefit
+    );
+    return (
+      occupationalAccounts.find((account) => account.agreement === pensionAgreement) ??
+      occupationalAccounts.find((account) => account.agreement === undefined)
+    )?.id;
+  }
+
+  /**
+   * Add a tjänste account for premiums that have no account to go to: the
+   * agreement's premium without an account for it, or a löneväxling premium
+   * without any tjänste or privat account. Paid for life from the
+   * retirement age.
+   */
+  private withPremiumAccounts(
+    accounts: PensionAccount[],
+    income: MVPSimulationInputs["income"],
+    retirementAge: number
+  ): PensionAccount[] {
+    const agreement = income.pensionAgreement;
+    const createAccount = (id: string, name: string): PensionAccount => ({
+      id,
+      name,
+      currentValue: 0,
+      provider: "Kollektivavtal",
+      type: "tjänste",
+      agreement: agreement && agreement !== "none" ? agreement : undefined,
+      canChooseWithdrawalAge: true,
+      earliestWithdrawalAge: 55,
+      latestWithdrawalAge: 70,
+      withdrawalSettings: {
+        startAge: Math.min(70, Math.max(55, retirementAge)),
+        monthlyAmount: 0,
+        isPercentage: false,
+        isLifelong: true,
+      },
+    });
+
+    if (agreement && agreement !== "none" && !this.findPremiumAccountId(accounts, agreement)) {
+      return [...accounts, createAccount(`avtal-${agreement}`, `Tjänstepension ${agreement}`)];
+    }
+
+    const hasExchangeAccount = accounts.some(
+      (account) => account.type !== "allmän" && !account.definedBenefit
+    );
+    if ((income.salaryExchange?.monthlyAmount ?? 0) > 0 && !hasExchangeAccount) {
+      return [...accounts, createAccount("lonevaxling", "Tjänstepension (löneväxling)")];
+    }
+
+    return [...accounts];
+  }
+
+  /**
+   * Birth year from the profile, or from the age at the start year
+   */
+  private getBirthYear(profile: MVPSimulationInputs["profile"], startYear: number): number {
+    return profile.birthYear ?? startYear - profile.currentAge;
+  }
+
   /**
    * Utility method to ensure a number is valid and not NaN
    */
@@ -784,6 +1862,61 @@ export class FinancialSimulationEngine {
     return value;
   }
 
+  /**
+   * Compare the simulation with löneväxling against keeping the full
+   * salary. Returns null when no salary is exchanged.
+   */
+  compareSalaryExchange(
+    inputs: UnifiedSimulationInputs,
+    config: SimulationConfig,
+    investmentRates?: InvestmentRates
+  ): SalaryExchangeComparison | null {
+    if (!inputs.income.salaryExchange || inputs.income.salaryExchange.monthlyAmount <= 0) {
+      return null;
+    }
+
+    const comparisonConfig = { ...config, enableTransparency: false };
+    const withExchange = this.runSimulation(inputs, comparisonConfig, investmentRates);
+    const withoutExchange = this.runSimulation(
+      { ...inputs, income: { ...inputs.income, salaryExchange: undefined } },
+      comparisonConfig,
+      investmentRates
+    );
+
+    let workingNetIncomeChange = 0;
+    let retirementNetIncomeChange = 0;
+    let accumulatedChange = 0;
+    let breakEvenAge: number | null = null;
+
+    withExchange.forEach((projection, index) => {
+      const change =
+        projection.calculations.netIncome - withoutExchange[index].calculations.netIncome;
+
+      if (projection.age < inputs.profile.desiredRetirementAge) {
+        workingNetIncomeChange += change;
+      } else {
+        retirementNetIncomeChange += change;
+      }
+
+      const wasBehind = accumulatedChange < 0;
+      accumulatedChange += change;
+      if (wasBehind && accumulatedChange >= 0 && breakEvenAge === null) {
+        breakEvenAge = projection.age;
+      }
+    });
+
+    const finalWith = withExchange[withExchange.length - 1];
+    const finalWithout = withoutExchange[withoutExchange.length - 1];
+
+    return {
+      workingNetIncomeChange,
+      retirementNetIncomeChange,
+      lifetimeNetIncomeChange: workingNetIncomeChange + retirementNetIncomeChange,
+      finalNetWorthChange: (finalWith?.netWorth ?? 0) - (finalWithout?.netWorth ?? 0),
+      breakEvenAge,
+    };
+  }
+
   /**
    * Generate summary statistics for the simulation
    */
@@ -0,0 +1,305 @@
+// ============================================================================
+// BUSINESS INCOME CALCULATOR MODULE
+// Handles inkomst av aktiv näringsverksamhet for enskild näringsidkare:
+// räntefördelning, periodiseringsfond, expansionsfond and egenavgifter
+// ============================================================================
+
+import { CalculationStep, TransparentCalculation, TaxYearParameters } from '../../types';
+
+export interface BusinessIncomeInputs {
+  profit: number; // Yearly result of the business before allocations and egenavgifter
+  periodiseringsfondAllocation?: number; // Requested avsättning, limited to the maximum
+  periodiseringsfondReversal?: number; // Återföring of earlier periodiseringsfonder
+  expansionsfondChange?: number; // Positive = avsättning, negative = återföring
+  expansionsfondBalance?: number; // Fund balance at the start of the year
+  equityCapital?: number; // Kapitalunderlag (justerat eget kapital) at the start of the year
+  useInterestAllocation?: boolean; // Apply positiv räntefördelning, defaults to true
+}
+
+export interface BusinessIncomeResult {
+  profit: number;
+  interestAllocation: number; // Positive = moved to kapital, negative = moved to näring
+  periodiseringsfondAllocation: number;
+  periodiseringsfondReversal: number;
+  expansionsfondChange: number;
+  standardDeduction: number; // Schablonavdrag for egenavgifter
+  businessIncome: number; // Överskott av aktiv näringsverksamhet, pensionsgrundande
+  contributions: number; // Egenavgifter after nedsättning
+  expansionsfondTax: number; // Negative when a reversal gives back earlier tax
+  calculation: TransparentCalculation;
+}
+
+export class BusinessIncomeCalculator {
+  /**
+   * Calculate the taxable business income and egenavgifter for one year.
+   * Order: räntefördelning, återföring and avsättning to periodiseringsfond
+   * (at most 30% of the underlag after schablonavdrag), expansionsfond
+   * (limited by the kapitalunderlag), then the schablonavdrag of 25% and
+   * egenavgifter on the remaining överskott. A deficit is not carried forward.
+   */
+  calculateBusinessIncome(
+    inputs: BusinessIncomeInputs,
+    age: number,
+    params: TaxYearParameters
+  ): BusinessIncomeResult {
+    const steps: CalculationStep[] = [];
+    const allocations = params.businessAllocations;
+    const contributionParams = params.selfEmploymentContributions;
+    const isOldAge = age >= contributionParams.oldAgeFrom;
+    const standardDeductionRate = isOldAge
+      ? contributionParams.standardDeductionOldAge
+      : contributionParams.standardDeduction;
+
+    const profit = inputs.profit;
+    const reversal = Math.max(0, inputs.periodiseringsfondReversal ?? 0);
+    const equity = inputs.equityCapital ?? 0;
+    const fundBalance = Math.max(0, inputs.expansionsfondBalance ?? 0);
+
+    steps.push({
+      description: "Resultat av näringsverksamheten",
+      formula: "intäkter - kostnader",
+      inputs: { resultat: profit },
+      result: profit
+    });
+
+    // Step 1: Räntefördelning on the kapitalunderlag
+    const interestAllocation = this.calculateInterestAllocation(
+      profit + reversal,
+      equity,
+      inputs.useInterestAllocation ?? true,
+      params,
+      steps
+    );
+
+    // Step 2: Periodiseringsfond, at most 30% of the underlag after schablonavdrag
+    const incomeBeforeFunds = profit + reversal - interestAllocation;
+    const periodiseringsfondMax = Math.max(0, incomeBeforeFunds) *
+                                  (1 - standardDeductionRate) * allocations.periodiseringsfondShare;
+    const periodiseringsfondAllocation = Math.min(
+      Math.max(0, inputs.periodiseringsfondAllocation ?? 0),
+      periodiseringsfondMax
+    );
+
+    if (reversal > 0) {
+      steps.push({
+        description: "Återföring av periodiseringsfond",
+        formula: "återförda_fonder",
+        inputs: { återföring: reversal },
+        result: reversal
+      });
+    }
+
+    if (periodiseringsfondAllocation > 0) {
+      steps.push({
+        description: `Avsättning till periodiseringsfond (högst ${allocations.periodiseringsfondShare * 100}% av underlaget)`,
+        formula: `min(önskad_avsättning, underlag × ${(1 - standardDeductionRate) * 100}% × ${allocations.periodiseringsfondShare * 100}%)`,
+        inputs: {
+          önskad_avsättning: inputs.periodiseringsfondAllocation ?? 0,
+          underlag: incomeBeforeFunds
+        },
+        result: periodiseringsfondAllocation
+      });
+    }
+
+    // Step 3: Expansionsfond, limited by income and by the kapitalunderlag
+    const expansionsfondChange = this.calculateExpansionsfondChange(
+      inputs.expansionsfondChange ?? 0,
+      incomeBeforeFunds - periodiseringsfondAllocation,
+      equity,
+      fundBalance,
+      params,
+      steps
+    );
+    const expansionsfondTax = expansionsfondChange * allocations.expansionsfondTaxRate;
+
+    if (expansionsfondChange !== 0) {
+      steps.push({
+        description: expansionsfondChange > 0
+          ? `Expansionsfondsskatt (${allocations.expansionsfondTaxRate * 100}%)`
+          : `Återbetald expansionsfondsskatt (${allocations.expansionsfondTaxRate * 100}%)`,
+        formula: `förändring_expansionsfond × ${allocations.expansionsfondTaxRate * 100}%`,
+        inputs: { förändring_expansionsfond: expansionsfondChange },
+        result: expansionsfondTax
+      });
+    }
+
+    // Step 4: Schablonavdrag for egenavgifter
+    const incomeBeforeDeduction = Math.max(0, incomeBeforeFunds - periodiseringsfondAllocation - expansionsfondChange);
+    const standardDeduction = incomeBeforeDeduction * standardDeductionRate;
+    const businessIncome = incomeBeforeDeduction - standardDeduction;
+
+    steps.push({
+      description: `Schablonavdrag för egenavgifter (${standardDeductionRate * 100}%)`,
+      formula: `inkomst_före_avdrag × ${standardDeductionRate * 100}%`,
+      inputs: { inkomst_före_avdrag: incomeBeforeDeduction },
+      result: standardDeduction
+    });
+
+    steps.push({
+      description: "Överskott av aktiv näringsverksamhet (pensionsgrundande)",
+      formula: "inkomst_före_avdrag - schablonavdrag",
+      inputs: { inkomst_före_avdrag: incomeBeforeDeduction, schablonavdrag: standardDeduction },
+      result: businessIncome
+    });
+
+    // Step 5: Egenavgifter on the överskott
+    const contributions = this.calculateContributions(businessIncome, isOldAge, params, steps);
+
+    const calculation: TransparentCalculation = {
+      category: "Näringsverksamhet",
+      steps,
+      finalResult: businessIncome
+    };
+
+    return {
+      profit,
+      interestAllocation,
+      periodiseringsfondAllocation,
+      periodiseringsfondReversal: reversal,
+      expansionsfondChange,
+      standardDeduction,
+      businessIncome,
+      contributions,
+      expansionsfondTax,
+      calculation
+    };
+  }
+
+  /**
+   * Positiv räntefördelning moves statslåneräntan + 6% of a positive
+   * kapitalunderlag to inkomst av kapital, at most the income available.
+   * Negativ räntefördelning (statslåneräntan + 1%) is mandatory below
+   * −500,000 kr and moves income the other way.
+   */
+  private calculateInterestAllocation(
+    availableIncome: number,
+    equity: number,
+    usePositive: boolean,
+    params: TaxYearParameters,
+    steps: CalculationStep[]
+  ): number {
+    const allocations = params.businessAllocations;
+    const bondRate = params.iskKfParameters.governmentBondRate;
+
+    if (usePositive && equity > allocations.positiveInterestMinBase) {
+      const rate = bondRate + allocations.positiveInterestSupplement;
+      const allocation = Math.min(equity * rate, Math.max(0, availableIncome));
+
+      steps.push({
+        description: `Positiv räntefördelning (statslåneränta + ${allocations.positiveInterestSupplement * 100}%)`,
+        formula: `min(kapitalunderlag × ${(rate * 100).toFixed(2)}%, överskott)`,
+        inputs: { kapitalunderlag: equity, procent: rate * 100, överskott: availableIncome },
+        result: allocation
+      });
+
+      return allocation;
+    }
+
+    if (equity < allocations.negativeInterestMaxBase) {
+      const rate = bondRate + allocations.negativeInterestSupplement;
+      const allocation = equity * rate;
+
+      steps.push({
+        description: `Negativ räntefördelning (statslåneränta + ${allocations.negativeInterestSupplement * 100}%)`,
+        formula: `kapitalunderlag × ${(rate * 100).toFixed(2)}%`,
+        inputs: { kapitalunderlag: equity, procent: rate * 100 },
+        result: allocation
+      });
+
+      return allocation;
+    }
+
+    return 0;
+  }
+
+  /**
+   * Avsättning is limited by the income left and by the room under
+   * kapitalunderlag × 125.94%; återföring by the fund balance.
+   */
+  private calculateExpansionsfondChange(
+    requested: number,
+    availableIncome: number,
+    equity: number,
+    fundBalance: number,
+    params: TaxYearParameters,
+    steps: CalculationStep[]
+  ): number {
+    if (requested < 0) {
+      const reversal = Math.max(requested, -fundBalance);
+
+      steps.push({
+        description: "Återföring av expansionsfond",
+        formula: "max(önskad_återföring, -fondens_saldo)",
+        inputs: { önskad_återföring: requested, fondens_saldo: fundBalance },
+        result: reversal
+      });
+
+      return reversal;
+    }
+
+    if (requested === 0) {
+      return 0;
+    }
+
+    const factor = params.businessAllocations.expansionsfondCapitalFactor;
+    const capitalRoom = Math.max(0, equity * factor - fundBalance);
+    const allocation = Math.min(requested, Math.max(0, availableIncome), capitalRoom);
+
+    steps.push({
+      description: "Avsättning till expansionsfond",
+      formula: `min(önskad_avsättning, överskott, kapitalunderlag × ${(factor * 100).toFixed(2)}% - fondens_saldo)`,
+      inputs: {
+        önskad_avsättning: requested,
+        överskott: availableIncome,
+        kapitalunderlag: equity,
+        fondens_saldo: fundBalance
+      },
+      result: allocation
+    });
+
+    return allocation;
+  }
+
+  /**
+   * Egenavgifter on the överskott. From 66 only the ålderspensionsavgift is
+   * paid; before that the generell nedsättning reduces the avgifter on the
+   * first 200,000 kr.
+   */
+  private calculateContributions(
+    businessIncome: number,
+    isOldAge: boolean,
+    params: TaxYearParameters,
+    steps: CalculationStep[]
+  ): number {
+    const { fullRate, oldAgeRate, oldAgeFrom, reductionRate, reductionMaxBase } = params.selfEmploymentContributions;
+
+    if (isOldAge) {
+      const contributions = businessIncome * oldAgeRate;
+
+      steps.push({
+        description: `Egenavgifter, endast ålderspensionsavgift (${oldAgeFrom} år och äldre)`,
+        formula: `överskott × ${(oldAgeRate * 100).toFixed(2)}%`,
+        inputs: { överskott: businessIncome, procent: oldAgeRate * 100 },
+        result: contributions
+      });
+
+      return contributions;
+    }
+
+    const fullContributions = businessIncome * fullRate;
+    const reduction = Math.min(businessIncome, reductionMaxBase) * reductionRate;
+    const contributions = Math.max(0, fullContributions - reduction);
+
+    steps.push({
+      description: `Egenavgifter (${(fullRate * 100).toFixed(2)}%) med nedsättning (${reductionRate * 100}% upp till ${reductionMaxBase} kr)`,
+      formula: `överskott × ${(fullRate * 100).toFixed(2)}% - min(överskott, ${reductionMaxBase}) × ${reductionRate * 100}%`,
+      inputs: { överskott: businessIncome, procent: fullRate * 100 },
+      result: contributions
+    });
+
+    return contributions;
+  }
+}
+
+// Export singleton instance
+export const businessIncomeCalculator = new BusinessIncomeCalculator();
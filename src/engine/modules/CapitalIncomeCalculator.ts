@@ -0,0 +1,138 @@
+// ============================================================================
+// CAPITAL INCOME CALCULATOR MODULE
+// Handles inkomst av kapital: interest, dividends, capital gains and losses,
+// ränteavdrag and skattereduktion för underskott av kapital
+// ============================================================================
+
+import { CalculationStep, TransparentCalculation, TaxYearParameters } from '../../types';
+
+export interface CapitalIncomeInputs {
+  interestIncome?: number; // Ränteinkomster
+  dividends?: number; // Utdelningar
+  capitalGains?: number; // Net gain on listed shares and funds, negative = loss
+  capitalLosses?: number; // Losses on listed shares and funds (positive amount)
+  interestExpenses?: number; // Ränteutgifter, e.g. mortgage interest
+  interestAllocation?: number; // Räntefördelning from näringsverksamhet, negative = deduction
+  reducibleTax?: number; // Tax on earned income the deficit reduction may be offset against
+}
+
+export interface CapitalIncomeResult {
+  surplus: number; // Överskott av kapital (rounded down to whole hundreds)
+  deficit: number; // Underskott av kapital
+  tax: number; // 30% tax on the surplus
+  deficitReduction: number; // Skattereduktion för underskott av kapital, limited by reducibleTax
+  calculation: TransparentCalculation;
+}
+
+export class CapitalIncomeCalculator {
+  /**
+   * Calculate the yearly result in inkomst av kapital.
+   * Listed losses are first offset in full against listed gains; 70% of any
+   * remaining loss is deductible against other capital income. A surplus is
+   * taxed at 30%, a deficit gives a tax reduction of 30% up to 100,000 kr and
+   * 21% above, which can only reduce tax on earned income.
+   */
+  calculateCapitalIncome(inputs: CapitalIncomeInputs, params: TaxYearParameters): CapitalIncomeResult {
+    const steps: CalculationStep[] = [];
+
+    const interestIncome = Math.max(0, inputs.interestIncome ?? 0);
+    const dividends = Math.max(0, inputs.dividends ?? 0);
+    const interestExpenses = Math.max(0, inputs.interestExpenses ?? 0);
+    const interestAllocation = inputs.interestAllocation ?? 0;
+    const gains = Math.max(0, inputs.capitalGains ?? 0);
+    const losses = Math.max(0, inputs.capitalLosses ?? 0) + Math.max(0, -(inputs.capitalGains ?? 0));
+
+    // Step 1: Offset listed losses against listed gains (kvittning)
+    const netGain = gains - losses;
+
+    steps.push({
+      description: "Kvittning av vinster och förluster på marknadsnoterade värdepapper",
+      formula: "vinster - förluster",
+      inputs: { vinster: gains, förluster: losses },
+      result: netGain
+    });
+
+    // Step 2: 70% of the remaining loss is deductible
+    const lossShare = params.capitalLossDeduction.listedSecurities;
+    const deductibleLoss = netGain < 0 ? -netGain * lossShare : 0;
+
+    if (deductibleLoss > 0) {
+      steps.push({
+        description: `Avdragsgill förlust (${lossShare * 100}% av kvarvarande förlust)`,
+        formula: `(förluster - vinster) × ${lossShare * 100}%`,
+        inputs: { kvarvarande_förlust: -netGain, procent: lossShare * 100 },
+        result: deductibleLoss
+      });
+    }
+
+    // Step 3: Net result in inkomst av kapital
+    const netResult = interestIncome + dividends + Math.max(0, netGain) + interestAllocation -
+                      interestExpenses - deductibleLoss;
+
+    steps.push({
+      description: "Resultat av inkomst av kapital",
+      formula: "ränteinkomster + utdelningar + kapitalvinst + räntefördelning - ränteutgifter - avdragsgill_förlust",
+      inputs: {
+        ränteinkomster: interestIncome,
+        utdelningar: dividends,
+        kapitalvinst: Math.max(0, netGain),
+        räntefördelning: interestAllocation,
+        ränteutgifter: interestExpenses,
+        avdragsgill_förlust: deductibleLoss
+      },
+      result: netResult
+    });
+
+    // Step 4: Tax on överskott, rounded down to whole hundreds
+    const surplus = Math.floor(Math.max(0, netResult) / 100) * 100;
+    const taxRate = params.capitalGainsTax.securities;
+    const tax = surplus * taxRate;
+
+    steps.push({
+      description: `Skatt på överskott av kapital (${taxRate * 100}%)`,
+      formula: `avrunda_nedåt(överskott, 100) × ${taxRate * 100}%`,
+      inputs: { överskott: Math.max(0, netResult), procent: taxRate * 100 },
+      result: tax
+    });
+
+    // Step 5: Skattereduktion för underskott av kapital
+    const deficit = Math.max(0, -netResult);
+    let deficitReduction = 0;
+
+    if (deficit > 0) {
+      const { rate1, rate2, threshold } = params.interestDeduction;
+      const fullReduction = Math.min(deficit, threshold) * rate1 +
+                            Math.max(0, deficit - threshold) * rate2;
+
+      steps.push({
+        description: `Skattereduktion för underskott av kapital (${rate1 * 100}%/${rate2 * 100}%)`,
+        formula: `min(underskott, ${threshold}) × ${rate1 * 100}% + max(0, underskott - ${threshold}) × ${rate2 * 100}%`,
+        inputs: { underskott: deficit, gräns: threshold },
+        result: fullReduction
+      });
+
+      const reducibleTax = Math.max(0, inputs.reducibleTax ?? Infinity);
+      deficitReduction = Math.min(fullReduction, reducibleTax);
+
+      if (deficitReduction < fullReduction) {
+        steps.push({
+          description: "Skattereduktion (högst skatten på förvärvsinkomst)",
+          formula: "min(skattereduktion, skatt_förvärvsinkomst)",
+          inputs: { skattereduktion: fullReduction, skatt_förvärvsinkomst: reducibleTax },
+          result: deficitReduction
+        });
+      }
+    }
+
+    const calculation: TransparentCalculation = {
+      category: "Inkomst av kapital",
+      steps,
+      finalResult: tax - deficitReduction
+    };
+
+    return { surplus, deficit, tax, deficitReduction, calculation };
+  }
+}
+
+// Export singleton instance
+export const capitalIncomeCalculator = new CapitalIncomeCalculator();
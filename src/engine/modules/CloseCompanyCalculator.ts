@@ -0,0 +1,373 @@
+// ============================================================================
+// CLOSE COMPANY CALCULATOR MODULE
+// Handles the 3:12 rules for owners of fåmansaktiebolag: gränsbelopp,
+// sparat utdelningsutrymme and the split of dividends between kapital and tjänst,
+// and the company result that salary and dividends are paid from
+// ============================================================================
+
+import { CalculationStep, TransparentCalculation, TaxYearParameters, DividendRule, OwnerPaySegment } from '../../types';
+import { generalPensionCalculator } from './GeneralPensionCalculator';
+
+export interface DividendSpaceInputs {
+  ownershipShare: number; // Share of the company owned (0–1)
+  acquisitionCost: number; // Omkostnadsbelopp for the owner's shares
+  ownerSalary: number; // Owner's cash salary from the company the year before
+  companySalaries: number; // Löneunderlag: all cash salaries in the company the year before, incl. the owner's
+  savedSpace?: number; // Sparat utdelningsutrymme carried from last year
+  rule?: DividendRule; // Up to 2025, defaults to the rule giving the higher amount
+}
+
+export interface DividendSpaceResult {
+  rule: DividendRule;
+  baseAmount: number; // Förenklingsregel or grundbelopp
+  wageBasedSpace: number; // Lönebaserat utrymme
+  capitalBasedSpace: number; // Kapitalbaserat utrymme
+  savedSpace: number; // Sparat utdelningsutrymme after uppräkning
+  dividendSpace: number; // Gränsbelopp for the year including sparat utrymme
+  calculation: TransparentCalculation;
+}
+
+export interface DividendSplit {
+  dividend: number;
+  qualifiedDividend: number; // Within the gränsbelopp, taxed at 20%
+  serviceDividend: number; // Above the gränsbelopp, taxed as inkomst av tjänst
+  capitalDividend: number; // Above the tjänst cap, taxed in full in kapital
+  taxableCapitalDividend: number; // Amount taken up in inkomst av kapital
+  remainingSpace: number; // Sparat utdelningsutrymme carried to next year
+  calculation: TransparentCalculation;
+}
+
+export interface CompanyResult {
+  resultBeforeTax: number; // Profit less the owner's salary cost
+  corporateTax: number; // Bolagsskatt on a positive result
+  distributableEarnings: number; // Retained earnings plus the result after tax
+  calculation: TransparentCalculation;
+}
+
+export class CloseCompanyCalculator {
+  /**
+   * The owner's pay plan segment for an age, if any
+   */
+  getPaySegment(payPlan: OwnerPaySegment[], age: number): OwnerPaySegment | undefined {
+    return payPlan.find(segment => age >= segment.fromAge && age < (segment.toAge ?? Infinity));
+  }
+
+  /**
+   * Company result for the year: the profit less the owner's salary cost,
+   * with bolagsskatt on a positive result. What is left, together with
+   * earnings retained from earlier years, can be paid as dividend. A loss is
+   * taken from the retained earnings (underskott is not carried forward).
+   */
+  calculateCompanyResult(
+    profit: number,
+    salaryCost: number,
+    retainedEarnings: number,
+    params: TaxYearParameters
+  ): CompanyResult {
+    const steps: CalculationStep[] = [];
+    const rate = params.closeCompany.corporateTaxRate;
+
+    const resultBeforeTax = profit - salaryCost;
+
+    steps.push({
+      description: "Bolagets resultat efter ägarens lönekostnad",
+      formula: "vinst - lönekostnad",
+      inputs: { vinst: profit, lönekostnad: salaryCost },
+      result: resultBeforeTax
+    });
+
+    const corporateTax = Math.max(0, resultBeforeTax) * rate;
+
+    steps.push({
+      description: `Bolagsskatt (${(rate * 100).toFixed(1)}%)`,
+      formula: `max(0, resultat) × ${(rate * 100).toFixed(1)}%`,
+      inputs: { resultat: resultBeforeTax },
+      result: corporateTax
+    });
+
+    const distributableEarnings = Math.max(0, retainedEarnings + resultBeforeTax - corporateTax);
+
+    steps.push({
+      description: "Fritt eget kapital att dela ut",
+      formula: "balanserade_vinstmedel + resultat - bolagsskatt",
+      inputs: { balanserade_vinstmedel: retainedEarnings, resultat: resultBeforeTax, bolagsskatt: corporateTax },
+      result: distributableEarnings
+    });
+
+    const calculation: TransparentCalculation = {
+      category: "Bolagets resultat",
+      steps,
+      finalResult: distributableEarnings
+    };
+
+    return { resultBeforeTax, corporateTax, distributableEarnings, calculation };
+  }
+
+  /**
+   * Salary the company could have paid with the profit behind a dividend:
+   * the dividend grossed up for bolagsskatt, less arbetsgivaravgifter
+   */
+  calculateSalaryEquivalent(dividend: number, age: number, params: TaxYearParameters): number {
+    const { fullRate, oldAgeRate, oldAgeFrom } = params.employerContributions;
+    const contributionRate = age >= oldAgeFrom ? oldAgeRate : fullRate;
+    const profit = Math.max(0, dividend) / (1 - params.closeCompany.corporateTaxRate);
+    return profit / (1 + contributionRate);
+  }
+
+  /**
+   * Calculate the gränsbelopp for one owner. Up to 2025 the owner uses either
+   * the förenklingsregel (2.75 IBB) or the huvudregel (lönebaserat utrymme of
+   * 50% of the löneunderlag if the löneuttagskrav is met, plus kapitalbaserat
+   * utrymme). From 2026 a grundbelopp of 4 IBB is always included and the
+   * lönebaserat utrymme only counts löneunderlag above 8 IBB. Amounts are
+   * split by ownership share; sparat utrymme is added after uppräkning.
+   */
+  calculateDividendSpace(inputs: DividendSpaceInputs, params: TaxYearParameters): DividendSpaceResult {
+    const steps: CalculationStep[] = [];
+    const rules = params.closeCompany;
+    const ibb = rules.previousYearIbb;
+    const bondRate = params.iskKfParameters.governmentBondRate;
+    const ownership = Math.min(1, Math.max(0, inputs.ownershipShare));
+
+    // Förenklingsregel / grundbelopp
+    const baseAmount = rules.baseAmountIbb * ibb * ownership;
+
+    steps.push({
+      description: rules.baseAmountWithMainRule
+        ? `Grundbelopp (${rules.baseAmountIbb} IBB efter ägarandel)`
+        : `Förenklingsregeln (${rules.baseAmountIbb} IBB efter ägarandel)`,
+      formula: `${rules.baseAmountIbb} × ${ibb} × ägarandel`,
+      inputs: { inkomstbasbelopp: ibb, ägarandel: ownership },
+      result: baseAmount
+    });
+
+    const wageBasedSpace = this.calculateWageBasedSpace(inputs, ownership, params, steps);
+
+    // Kapitalbaserat utrymme on the omkostnadsbelopp
+    const capitalRate = bondRate + rules.capitalRateSupplement;
+    const capitalBase = Math.max(0, inputs.acquisitionCost - rules.capitalThreshold);
+    const capitalBasedSpace = capitalBase * capitalRate;
+
+    if (capitalBasedSpace > 0) {
+      steps.push({
+        description: `Kapitalbaserat utrymme (statslåneränta + ${rules.capitalRateSupplement * 100}%)`,
+        formula: rules.capitalThreshold > 0
+          ? `(omkostnadsbelopp - ${rules.capitalThreshold}) × ${(capitalRate * 100).toFixed(2)}%`
+          : `omkostnadsbelopp × ${(capitalRate * 100).toFixed(2)}%`,
+        inputs: { omkostnadsbelopp: inputs.acquisitionCost, procent: capitalRate * 100 },
+        result: capitalBasedSpace
+      });
+    }
+
+    // Choose the rule (combined from 2026)
+    const mainRuleAmount = wageBasedSpace + capitalBasedSpace;
+    const rule: DividendRule = rules.baseAmountWithMainRule
+      ? 'main'
+      : inputs.rule ?? (mainRuleAmount > baseAmount ? 'main' : 'simplified');
+    const yearSpace = rules.baseAmountWithMainRule
+      ? baseAmount + mainRuleAmount
+      : rule === 'main' ? mainRuleAmount : baseAmount;
+
+    steps.push({
+      description: rules.baseAmountWithMainRule
+        ? "Årets gränsbelopp"
+        : `Årets gränsbelopp (${rule === 'main' ? 'huvudregeln' : 'förenklingsregeln'})`,
+      formula: rules.baseAmountWithMainRule
+        ? "grundbelopp + lönebaserat_utrymme + kapitalbaserat_utrymme"
+        : rule === 'main' ? "lönebaserat_utrymme + kapitalbaserat_utrymme" : "förenklingsbelopp",
+      inputs: { grundbelopp: baseAmount, lönebaserat: wageBasedSpace, kapitalbaserat: capitalBasedSpace },
+      result: yearSpace
+    });
+
+    // Sparat utdelningsutrymme with uppräkning
+    const savedRate = rules.savedSpaceRateSupplement > 0 ? bondRate + rules.savedSpaceRateSupplement : 0;
+    const savedSpace = Math.max(0, inputs.savedSpace ?? 0) * (1 + savedRate);
+
+    if (savedSpace > 0) {
+      steps.push({
+        description: savedRate > 0
+          ? `Sparat utdelningsutrymme uppräknat (statslåneränta + ${rules.savedSpaceRateSupplement * 100}%)`
+          : "Sparat utdelningsutrymme",
+        formula: `sparat_utrymme × ${(1 + savedRate).toFixed(4)}`,
+        inputs: { sparat_utrymme: inputs.savedSpace ?? 0 },
+        result: savedSpace
+      });
+    }
+
+    const dividendSpace = yearSpace + savedSpace;
+
+    const calculation: TransparentCalculation = {
+      category: "Gränsbelopp (3:12)",
+      steps,
+      finalResult: dividendSpace
+    };
+
+    return { rule, baseAmount, wageBasedSpace, capitalBasedSpace, savedSpace, dividendSpace, calculation };
+  }
+
+  /**
+   * Split a dividend on kvalificerade andelar. Within the gränsbelopp 2/3 is
+   * taken up in kapital (20% tax); above it the dividend is taxed as tjänst up
+   * to 90 IBB and in kapital beyond that. Unused gränsbelopp is saved.
+   */
+  splitDividend(dividend: number, dividendSpace: number, params: TaxYearParameters): DividendSplit {
+    const steps: CalculationStep[] = [];
+    const rules = params.closeCompany;
+    const amount = Math.max(0, dividend);
+    const space = Math.max(0, dividendSpace);
+
+    const qualifiedDividend = Math.min(amount, space);
+    const serviceCap = rules.serviceIncomeCapIbb * params.inkomstBasbelopp;
+    const serviceDividend = Math.min(amount - qualifiedDividend, serviceCap);
+    const capitalDividend = amount - qualifiedDividend - serviceDividend;
+    const taxableCapitalDividend = qualifiedDividend * rules.qualifiedDividendShare + capitalDividend;
+    const remainingSpace = space - qualifiedDividend;
+    const effectiveRate = params.capitalGainsTax.securities * rules.qualifiedDividendShare;
+
+    steps.push({
+      description: `Utdelning inom gränsbeloppet (${Math.round(effectiveRate * 100)}% skatt)`,
+      formula: "min(utdelning, gränsbelopp)",
+      inputs: { utdelning: amount, gränsbelopp: space },
+      result: qualifiedDividend
+    });
+
+    if (serviceDividend > 0) {
+      steps.push({
+        description: `Utdelning över gränsbeloppet beskattas i tjänst (högst ${rules.serviceIncomeCapIbb} IBB)`,
+        formula: `min(utdelning - gränsbelopp, ${serviceCap})`,
+        inputs: { utdelning: amount, gränsbelopp: space, tak: serviceCap },
+        result: serviceDividend
+      });
+    }
+
+    if (capitalDividend > 0) {
+      steps.push({
+        description: "Utdelning över taket beskattas i kapital",
+        formula: "utdelning - gränsbelopp - tjänstedel",
+        inputs: { utdelning: amount, gränsbelopp: space, tjänstedel: serviceDividend },
+        result: capitalDividend
+      });
+    }
+
+    steps.push({
+      description: "Utdelning som tas upp i inkomst av kapital",
+      formula: `utdelning_inom_gränsbelopp × ${(rules.qualifiedDividendShare * 100).toFixed(1)}% + utdelning_över_taket`,
+      inputs: { utdelning_inom_gränsbelopp: qualifiedDividend, utdelning_över_taket: capitalDividend },
+      result: taxableCapitalDividend
+    });
+
+    steps.push({
+      description: "Sparat utdelningsutrymme till nästa år",
+      formula: "gränsbelopp - utdelning_inom_gränsbelopp",
+      inputs: { gränsbelopp: space, utdelning_inom_gränsbelopp: qualifiedDividend },
+      result: remainingSpace
+    });
+
+    const calculation: TransparentCalculation = {
+      category: "Utdelning fåmansföretag",
+      steps,
+      finalResult: taxableCapitalDividend
+    };
+
+    return {
+      dividend: amount,
+      qualifiedDividend,
+      serviceDividend,
+      capitalDividend,
+      taxableCapitalDividend,
+      remainingSpace,
+      calculation
+    };
+  }
+
+  /**
+   * Yearly allmän pension rights (18.5% of pensionsgrundande inkomst) that
+   * a salary gives. Dividends give no pension rights.
+   */
+  calculatePensionRights(salary: number, params: TaxYearParameters): number {
+    return generalPensionCalculator.calculatePensionRights(salary, params).total;
+  }
+
+  /**
+   * Lönebaserat utrymme: the ownership share of 50% of the löneunderlag
+   * (above 8 IBB from 2026). Up to 2025 it requires at least 4% ownership
+   * and that the owner met the löneuttagskrav, and is capped at 50 times
+   * the owner's salary.
+   */
+  private calculateWageBasedSpace(
+    inputs: DividendSpaceInputs,
+    ownership: number,
+    params: TaxYearParameters,
+    steps: CalculationStep[]
+  ): number {
+    const rules = params.closeCompany;
+    const ibb = rules.previousYearIbb;
+    const companySalaries = Math.max(0, inputs.companySalaries);
+    const ownerSalary = Math.max(0, inputs.ownerSalary);
+
+    if (rules.minOwnershipForWageSpace !== undefined && ownership < rules.minOwnershipForWageSpace) {
+      steps.push({
+        description: `Inget lönebaserat utrymme (ägarandel under ${rules.minOwnershipForWageSpace * 100}%)`,
+        formula: "0",
+        inputs: { ägarandel: ownership },
+        result: 0
+      });
+      return 0;
+    }
+
+    if (rules.salaryRequirement) {
+      const { baseIbb, share, maxIbb } = rules.salaryRequirement;
+      const requirement = Math.min(baseIbb * ibb + share * companySalaries, maxIbb * ibb);
+
+      steps.push({
+        description: `Löneuttagskrav (${baseIbb} IBB + ${share * 100}% av löneunderlaget, högst ${maxIbb} IBB)`,
+        formula: `min(${baseIbb} × ${ibb} + löneunderlag × ${share * 100}%, ${maxIbb} × ${ibb})`,
+        inputs: { löneunderlag: companySalaries, egen_lön: ownerSalary },
+        result: requirement
+      });
+
+      if (ownerSalary < requirement) {
+        steps.push({
+          description: "Inget lönebaserat utrymme (löneuttagskravet är inte uppfyllt)",
+          formula: "0",
+          inputs: { egen_lön: ownerSalary, löneuttagskrav: requirement },
+          result: 0
+        });
+        return 0;
+      }
+    }
+
+    const wageBase = Math.max(0, companySalaries - rules.wageDeductionIbb * ibb);
+    let wageBasedSpace = wageBase * rules.wageShare * ownership;
+
+    steps.push({
+      description: rules.wageDeductionIbb > 0
+        ? `Lönebaserat utrymme (${rules.wageShare * 100}% av löneunderlaget över ${rules.wageDeductionIbb} IBB)`
+        : `Lönebaserat utrymme (${rules.wageShare * 100}% av löneunderlaget)`,
+      formula: rules.wageDeductionIbb > 0
+        ? `(löneunderlag - ${rules.wageDeductionIbb} × ${ibb}) × ${rules.wageShare * 100}% × ägarandel`
+        : `löneunderlag × ${rules.wageShare * 100}% × ägarandel`,
+      inputs: { löneunderlag: companySalaries, ägarandel: ownership },
+      result: wageBasedSpace
+    });
+
+    if (rules.wageSpaceSalaryMultiple !== undefined) {
+      const cap = rules.wageSpaceSalaryMultiple * ownerSalary;
+      if (wageBasedSpace > cap) {
+        wageBasedSpace = cap;
+
+        steps.push({
+          description: `Lönebaserat utrymme begränsat till ${rules.wageSpaceSalaryMultiple} gånger egen lön`,
+          formula: `${rules.wageSpaceSalaryMultiple} × egen_lön`,
+          inputs: { egen_lön: ownerSalary },
+          result: cap
+        });
+      }
+    }
+
+    return wageBasedSpace;
+  }
+}
+
+// Export singleton instance
+export const closeCompanyCalculator = new CloseCompanyCalculator();
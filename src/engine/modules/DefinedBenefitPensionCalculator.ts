@@ -0,0 +1,138 @@
+// ============================================================================
+// DEFINED BENEFIT PENSION CALCULATOR MODULE
+// Handles förmånsbestämd tjänstepension (ITP2, KAP-KL, PA16 avdelning II):
+// final salary, years of service and the benefit per band of IBB
+// ============================================================================
+
+import { CalculationStep, TransparentCalculation, TaxYearParameters } from '../../types';
+import { PENSION_PARAMETERS_2025 } from '../swedish-parameters/TaxParameters2025';
+
+export interface SalaryYear {
+  age: number;
+  salary: number; // Yearly salary
+}
+
+export interface DefinedBenefitInputs {
+  salaryHistory: SalaryYear[]; // Simulated salary path, in age order
+  retirementAge: number; // Age when the pension starts
+  serviceYears: number; // Years of service before the salary history starts
+}
+
+export interface DefinedBenefitResult {
+  finalSalary: number; // Pensionsmedförande lön per year
+  serviceYears: number; // Counted up to the full requirement
+  serviceShare: number; // Reduction for short service (0–1)
+  yearlyPension: number;
+  monthlyPension: number;
+  calculation: TransparentCalculation;
+}
+
+export class DefinedBenefitPensionCalculator {
+  /**
+   * Calculate the förmånsbestämd pension: the final salary is split into
+   * bands of inkomstbasbelopp, each giving its percentage, and the sum is
+   * reduced in proportion for less than full service.
+   */
+  calculateBenefit(inputs: DefinedBenefitInputs, params: TaxYearParameters): DefinedBenefitResult {
+    const steps: CalculationStep[] = [];
+    const { bands, fullServiceYears } = PENSION_PARAMETERS_2025.occupationalPension.definedBenefit;
+
+    const finalSalary = this.calculateFinalSalary(inputs.salaryHistory, inputs.retirementAge, steps);
+    const serviceYears = this.calculateServiceYears(inputs, steps);
+    const serviceShare = Math.min(1, serviceYears / fullServiceYears);
+
+    // Full pension per band of IBB
+    let fullPension = 0;
+    let lowerLimit = 0;
+    const bandInputs: Record<string, number> = { slutlön: finalSalary, ibb: params.inkomstBasbelopp };
+
+    bands.forEach(band => {
+      const upperLimit = band.upToIbb * params.inkomstBasbelopp;
+      const bandSalary = Math.max(0, Math.min(finalSalary, upperLimit) - lowerLimit);
+      fullPension += bandSalary * band.rate;
+      bandInputs[`lön_upp_till_${band.upToIbb}_ibb`] = bandSalary;
+      lowerLimit = upperLimit;
+    });
+
+    steps.push({
+      description: `Pension vid full tjänstetid (${bands.map(b => `${b.rate * 100}% upp till ${b.upToIbb} IBB`).join(', ')})`,
+      formula: bands.map(b => `lön_upp_till_${b.upToIbb}_ibb × ${b.rate * 100}%`).join(' + '),
+      inputs: bandInputs,
+      result: fullPension
+    });
+
+    const yearlyPension = fullPension * serviceShare;
+    const monthlyPension = yearlyPension / 12;
+
+    steps.push({
+      description: `Avräkning för kort tjänstetid (${fullServiceYears} år ger full pension)`,
+      formula: `pension × min(1, tjänsteår / ${fullServiceYears})`,
+      inputs: { pension: fullPension, tjänsteår: serviceYears },
+      result: yearlyPension
+    });
+
+    return {
+      finalSalary,
+      serviceYears,
+      serviceShare,
+      yearlyPension,
+      monthlyPension,
+      calculation: {
+        category: "Förmånsbestämd tjänstepension",
+        steps,
+        finalResult: yearlyPension
+      }
+    };
+  }
+
+  /**
+   * Slutlön as the average of the last working years' salaries before the
+   * pension starts
+   */
+  private calculateFinalSalary(
+    salaryHistory: SalaryYear[],
+    retirementAge: number,
+    steps: CalculationStep[]
+  ): number {
+    const { finalSalaryYears } = PENSION_PARAMETERS_2025.occupationalPension.definedBenefit;
+    const lastSalaries = salaryHistory
+      .filter(year => year.age < retirementAge && year.salary > 0)
+      .slice(-finalSalaryYears)
+      .map(year => year.salary);
+    const finalSalary = lastSalaries.length > 0
+      ? lastSalaries.reduce((sum, salary) => sum + salary, 0) / lastSalaries.length
+      : 0;
+
+    steps.push({
+      description: `Slutlön (snitt av de sista ${finalSalaryYears} årens lön före pensionen)`,
+      formula: "summa(årslöner) / antal_år",
+      inputs: { antal_år: lastSalaries.length },
+      result: finalSalary
+    });
+
+    return finalSalary;
+  }
+
+  /**
+   * Years of service: earlier service plus each working year in the salary
+   * history up to the service end age and the start of the pension
+   */
+  private calculateServiceYears(inputs: DefinedBenefitInputs, steps: CalculationStep[]): number {
+    const { fullServiceYears, serviceEndAge } = PENSION_PARAMETERS_2025.occupationalPension.definedBenefit;
+    const endAge = Math.min(inputs.retirementAge, serviceEndAge);
+    const simulatedYears = inputs.salaryHistory.filter(year => year.age < endAge && year.salary > 0).length;
+    const serviceYears = Math.min(fullServiceYears, Math.max(0, inputs.serviceYears) + simulatedYears);
+
+    steps.push({
+      description: `Tjänsteår (räknas till ${serviceEndAge} år, högst ${fullServiceYears})`,
+      formula: `min(${fullServiceYears}, tidigare_tjänsteår + arbetade_år)`,
+      inputs: { tidigare_tjänsteår: inputs.serviceYears, arbetade_år: simulatedYears },
+      result: serviceYears
+    });
+
+    return serviceYears;
+  }
+}
+
+// Export singleton instance
+export const definedBenefitPensionCalculator = new DefinedBenefitPensionCalculator();
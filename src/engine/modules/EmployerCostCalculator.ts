@@ -0,0 +1,254 @@
+// ============================================================================
+// EMPLOYER COST CALCULATOR MODULE
+// Handles arbetsgivaravgifter, tjänstepension premiums and särskild löneskatt,
+// giving the employer's total cost of employment
+// ============================================================================
+
+import { CalculationStep, TransparentCalculation, TaxYearParameters, PensionAgreement } from '../../types';
+import { PENSION_PARAMETERS_2025 } from '../swedish-parameters/TaxParameters2025';
+import { getTaxParameters, DEFAULT_TAX_YEAR } from '../swedish-parameters/TaxParameterRegistry';
+
+export interface EmployerCostInputs {
+  monthlySalary: number;
+  age: number; // Age at the start of the year
+  year?: number; // Calendar (income) year, defaults to DEFAULT_TAX_YEAR
+  pensionAgreement?: PensionAgreement; // Defaults to none
+  salaryExchange?: {
+    // Löneväxling, monthlySalary is the salary after the exchange
+    yearlyAmount: number;
+    employerContribution: number; // Uplift on the premium
+  };
+}
+
+export interface EmployerCostResult {
+  grossSalary: number; // Per year
+  employerContributions: number; // Arbetsgivaravgifter
+  pensionPremium: number; // Tjänstepension premium
+  salaryExchangePremium: number; // Löneväxling premium including the uplift
+  specialPayrollTax: number; // Särskild löneskatt on the premium
+  totalCost: number;
+  calculation: TransparentCalculation;
+}
+
+// Premium rates per kollektivavtal: one rate up to lowLimitIbb and a higher
+// rate between lowLimitIbb and highLimitIbb (IBB per year, applied monthly)
+interface PremiumRule {
+  label: string;
+  rateBelow: number;
+  rateAbove: number;
+  lowLimitIbb: number;
+  highLimitIbb: number;
+}
+
+const { ITP1, ITPK, SAFLO, KAPKL, AKAPKR, PA16 } = PENSION_PARAMETERS_2025.occupationalPension;
+
+const PREMIUM_RULES: Record<Exclude<PensionAgreement, 'none'>, PremiumRule> = {
+  'ITP1': {
+    label: 'ITP1',
+    rateBelow: ITP1.premieUnderTak,
+    rateAbove: ITP1.premieÖverTak,
+    lowLimitIbb: ITP1.takLågNivåIbb,
+    highLimitIbb: ITP1.takHögNivåIbb,
+  },
+  // Only the ITPK premium, the förmånsbestämd ITP2 is not a premium on an account
+  'ITP2': {
+    label: 'ITPK (ITP2)',
+    rateBelow: ITPK.premie,
+    rateAbove: ITPK.premie,
+    lowLimitIbb: ITPK.takIbb,
+    highLimitIbb: ITPK.takIbb,
+  },
+  'SAF-LO': {
+    label: 'SAF-LO',
+    rateBelow: SAFLO.premieUnderTak,
+    rateAbove: SAFLO.premieÖverTak,
+    lowLimitIbb: SAFLO.takIbb,
+    highLimitIbb: Infinity,
+  },
+  'KAP-KL': {
+    label: 'KAP-KL',
+    rateBelow: KAPKL.premieUnderTak,
+    rateAbove: KAPKL.premieÖverTak,
+    lowLimitIbb: KAPKL.takIbb,
+    highLimitIbb: Infinity,
+  },
+  'AKAP-KR': {
+    label: 'AKAP-KR',
+    rateBelow: AKAPKR.premieUnderTak,
+    rateAbove: AKAPKR.premieÖverTak,
+    lowLimitIbb: AKAPKR.takIbb,
+    highLimitIbb: AKAPKR.takHögNivåIbb,
+  },
+  'PA16': {
+    label: 'PA16',
+    rateBelow: PA16.premieUnderTak,
+    rateAbove: PA16.premieÖverTak,
+    lowLimitIbb: PA16.takIbb,
+    highLimitIbb: PA16.takHögNivåIbb,
+  },
+};
+
+export class EmployerCostCalculator {
+  /**
+   * Calculate the employer's yearly cost for a monthly salary: arbetsgivaravgifter
+   * (reduced from 66 and, in some years, for young employees), the tjänstepension
+   * premium under the chosen kollektivavtal and särskild löneskatt on that premium.
+   * With löneväxling the tjänstepension premium still follows the salary before
+   * the exchange.
+   */
+  calculateEmployerCost(inputs: EmployerCostInputs): EmployerCostResult {
+    const params = getTaxParameters(inputs.year ?? DEFAULT_TAX_YEAR);
+    const steps: CalculationStep[] = [];
+
+    const monthlySalary = Math.max(0, inputs.monthlySalary);
+    const grossSalary = monthlySalary * 12;
+
+    steps.push({
+      description: "Bruttolön per år",
+      formula: "månadslön × 12",
+      inputs: { månadslön: monthlySalary },
+      result: grossSalary
+    });
+
+    const employerContributions = this.calculateContributions(monthlySalary, inputs.age, params, steps);
+
+    // Tjänstepension premium
+    const agreement = inputs.pensionAgreement ?? 'none';
+    let pensionPremium = 0;
+
+    const exchangedSalary = Math.max(0, inputs.salaryExchange?.yearlyAmount ?? 0);
+    const premiumSalary = monthlySalary + exchangedSalary / 12;
+
+    if (agreement !== 'none') {
+      const rule = PREMIUM_RULES[agreement];
+      const lowLimit = rule.lowLimitIbb * params.inkomstBasbelopp / 12;
+      const highLimit = rule.highLimitIbb * params.inkomstBasbelopp / 12;
+      const monthlyPremium = Math.min(premiumSalary, lowLimit) * rule.rateBelow +
+                             Math.max(0, Math.min(premiumSalary, highLimit) - lowLimit) * rule.rateAbove;
+      pensionPremium = monthlyPremium * 12;
+
+      steps.push({
+        description: rule.highLimitIbb > rule.lowLimitIbb
+          ? `Tjänstepensionspremie ${rule.label} (${rule.rateBelow * 100}% upp till ${rule.lowLimitIbb} IBB, ${rule.rateAbove * 100}% över)`
+          : `Tjänstepensionspremie ${rule.label} (${rule.rateBelow * 100}% upp till ${rule.lowLimitIbb} IBB)`,
+        formula: `(min(månadslön, ${Math.round(lowLimit)}) × ${rule.rateBelow * 100}% + lön_över_tak × ${rule.rateAbove * 100}%) × 12`,
+        inputs: { månadslön: premiumSalary, tak: lowLimit, procent_under: rule.rateBelow * 100, procent_över: rule.rateAbove * 100 },
+        result: pensionPremium
+      });
+    }
+
+    // Löneväxling premium with the employer's uplift
+    const uplift = inputs.salaryExchange?.employerContribution ?? 0;
+    const salaryExchangePremium = exchangedSalary * (1 + uplift);
+
+    if (salaryExchangePremium > 0) {
+      steps.push({
+        description: `Löneväxling till pension med påslag (${(uplift * 100).toFixed(1)}%)`,
+        formula: `växlad_lön × ${(1 + uplift).toFixed(3)}`,
+        inputs: { växlad_lön: exchangedSalary, påslag: uplift * 100 },
+        result: salaryExchangePremium
+      });
+    }
+
+    // Särskild löneskatt on pension costs
+    const pensionCosts = pensionPremium + salaryExchangePremium;
+    const specialPayrollTax = pensionCosts * params.specialPayrollTax;
+
+    if (pensionCosts > 0) {
+      steps.push({
+        description: `Särskild löneskatt på pensionskostnader (${(params.specialPayrollTax * 100).toFixed(2)}%)`,
+        formula: `pensionspremie × ${(params.specialPayrollTax * 100).toFixed(2)}%`,
+        inputs: { pensionspremie: pensionCosts, procent: params.specialPayrollTax * 100 },
+        result: specialPayrollTax
+      });
+    }
+
+    const totalCost = grossSalary + employerContributions + pensionCosts + specialPayrollTax;
+
+    steps.push({
+      description: "Total kostnad för anställningen per år",
+      formula: "bruttolön + arbetsgivaravgifter + pensionspremie + särskild_löneskatt",
+      inputs: {
+        bruttolön: grossSalary,
+        arbetsgivaravgifter: employerContributions,
+        pensionspremie: pensionCosts,
+        särskild_löneskatt: specialPayrollTax
+      },
+      result: totalCost
+    });
+
+    const calculation: TransparentCalculation = {
+      category: "Arbetsgivarkostnad",
+      steps,
+      finalResult: totalCost
+    };
+
+    return {
+      grossSalary,
+      employerContributions,
+      pensionPremium,
+      salaryExchangePremium,
+      specialPayrollTax,
+      totalCost,
+      calculation
+    };
+  }
+
+  /**
+   * Arbetsgivaravgifter for the year. From oldAgeFrom only the
+   * ålderspensionsavgift is paid; a youth reduction applies a lower rate to
+   * the salary up to a monthly ceiling during the months it is in force.
+   */
+  private calculateContributions(
+    monthlySalary: number,
+    age: number,
+    params: TaxYearParameters,
+    steps: CalculationStep[]
+  ): number {
+    const { fullRate, oldAgeRate, oldAgeFrom, youthReduction } = params.employerContributions;
+    const grossSalary = monthlySalary * 12;
+
+    if (age >= oldAgeFrom) {
+      const contributions = grossSalary * oldAgeRate;
+
+      steps.push({
+        description: `Arbetsgivaravgifter, endast ålderspensionsavgift (${oldAgeFrom} år och äldre)`,
+        formula: `bruttolön × ${(oldAgeRate * 100).toFixed(2)}%`,
+        inputs: { bruttolön: grossSalary, procent: oldAgeRate * 100 },
+        result: contributions
+      });
+
+      return contributions;
+    }
+
+    if (youthReduction && age >= youthReduction.minAge && age <= youthReduction.maxAge) {
+      const { rate, monthlyCeiling, months } = youthReduction;
+      const reducedPart = Math.min(monthlySalary, monthlyCeiling);
+      const reducedMonth = reducedPart * rate + (monthlySalary - reducedPart) * fullRate;
+      const contributions = reducedMonth * months + monthlySalary * fullRate * (12 - months);
+
+      steps.push({
+        description: `Arbetsgivaravgifter med tillfällig nedsättning för unga (${(rate * 100).toFixed(2)}% upp till ${monthlyCeiling} kr/mån i ${months} månader)`,
+        formula: `(min(månadslön, ${monthlyCeiling}) × ${(rate * 100).toFixed(2)}% + resten × ${(fullRate * 100).toFixed(2)}%) × ${months} + månadslön × ${(fullRate * 100).toFixed(2)}% × ${12 - months}`,
+        inputs: { månadslön: monthlySalary, tak: monthlyCeiling, månader: months },
+        result: contributions
+      });
+
+      return contributions;
+    }
+
+    const contributions = grossSalary * fullRate;
+
+    steps.push({
+      description: `Arbetsgivaravgifter (${(fullRate * 100).toFixed(2)}%)`,
+      formula: `bruttolön × ${(fullRate * 100).toFixed(2)}%`,
+      inputs: { bruttolön: grossSalary, procent: fullRate * 100 },
+      result: contributions
+    });
+
+    return contributions;
+  }
+}
+
+// Export singleton instance
+export const employerCostCalculator = new EmployerCostCalculator();
@@ -0,0 +1,240 @@
+// ============================================================================
+// GENERAL PENSION CALCULATOR MODULE
+// Handles allmän pension: pension rights from pensionsgrundande inkomst,
+// indexing of the balances and payout with delningstal
+// ============================================================================
+
+import { CalculationStep, TransparentCalculation, TaxYearParameters } from '../../types';
+import { PENSION_PARAMETERS_2025, MACROECONOMIC_ASSUMPTIONS } from '../swedish-parameters/TaxParameters2025';
+
+export interface PensionRights {
+  pensionableIncome: number; // Pensionsgrundande inkomst (PGI)
+  inkomstpension: number;
+  premiepension: number;
+  total: number;
+}
+
+export interface PensionAccrualInputs {
+  inkomstpension: number; // Balance at the start of the year
+  premiepension: number; // Balance at the start of the year
+  workIncome: number; // Salary and överskott av aktiv näringsverksamhet
+  premiepensionReturn: number; // Real return on the premiepension funds
+  incomeIndexGrowth?: number; // Real change in inkomstindex, defaults to real salary growth
+}
+
+export interface PensionAccrualResult {
+  rights: PensionRights;
+  inkomstpension: number; // Balance at the end of the year
+  premiepension: number; // Balance at the end of the year
+  calculation: TransparentCalculation;
+}
+
+export interface GeneralPensionPayoutInputs {
+  inkomstpension: number; // Balance at the start of the year
+  premiepension: number; // Balance at the start of the year
+  age: number;
+  birthYear: number;
+  premiepensionReturn: number; // Real return on the premiepension funds, also used in its divisor
+  incomeIndexGrowth?: number; // Real change in inkomstindex, defaults to real salary growth
+  withdrawalShare?: number; // Part taken as pension (0.25, 0.5, 0.75), defaults to all
+}
+
+export interface GeneralPensionPayoutResult {
+  delningstal: number; // Inkomstpension divisor including the 1.6% norm
+  premiepensionDivisor: number;
+  inkomstpensionMonthly: number;
+  premiepensionMonthly: number;
+  monthlyPension: number;
+  inkomstpension: number; // Value of the remaining inkomstpension at the end of the year
+  premiepension: number; // Value of the remaining premiepension at the end of the year
+  calculation: TransparentCalculation;
+}
+
+export class GeneralPensionCalculator {
+  /**
+   * Pensionsgrundande inkomst: work income less the allmän pensionsavgift,
+   * capped at 7.5 IBB. Income below 42.3% of the prisbasbelopp gives no PGI.
+   */
+  calculatePensionableIncome(workIncome: number, params: TaxYearParameters): number {
+    const income = Math.max(0, workIncome);
+
+    if (income < params.generalPensionFeeLimits.minIncomePbb * params.prisBasbelopp) {
+      return 0;
+    }
+
+    const ceiling = PENSION_PARAMETERS_2025.generalPension.maxPGIIbb * params.inkomstBasbelopp;
+    return Math.min(income * (1 - params.generalPensionFee), ceiling);
+  }
+
+  /**
+   * Yearly pension rights: 16% of PGI to inkomstpension and 2.5% to premiepension
+   */
+  calculatePensionRights(workIncome: number, params: TaxYearParameters): PensionRights {
+    const { inkomstpensionAndel, premiepensionAndel } = PENSION_PARAMETERS_2025.generalPension;
+    const pensionableIncome = this.calculatePensionableIncome(workIncome, params);
+    const inkomstpension = pensionableIncome * inkomstpensionAndel;
+    const premiepension = pensionableIncome * premiepensionAndel;
+
+    return { pensionableIncome, inkomstpension, premiepension, total: inkomstpension + premiepension };
+  }
+
+  /**
+   * One year of accrual before withdrawals start. The inkomstpension balance
+   * is indexed with inkomstindex and balanseringstal, the premiepension
+   * balance earns the fund return, and the year's rights are added to both.
+   */
+  calculateYearlyAccrual(inputs: PensionAccrualInputs, params: TaxYearParameters): PensionAccrualResult {
+    const steps: CalculationStep[] = [];
+    const { inkomstpensionAndel, premiepensionAndel, maxPGIIbb, balanseringstal } = PENSION_PARAMETERS_2025.generalPension;
+    const incomeIndexGrowth = inputs.incomeIndexGrowth ?? MACROECONOMIC_ASSUMPTIONS.realSalaryGrowth;
+    const rights = this.calculatePensionRights(inputs.workIncome, params);
+
+    steps.push({
+      description: `Pensionsgrundande inkomst (högst ${maxPGIIbb} IBB)`,
+      formula: `min(arbetsinkomst × ${(1 - params.generalPensionFee) * 100}%, ${maxPGIIbb} × ${params.inkomstBasbelopp})`,
+      inputs: { arbetsinkomst: inputs.workIncome },
+      result: rights.pensionableIncome
+    });
+
+    // Inkomstpension: indexing, then the year's rights
+    const indexFactor = (1 + incomeIndexGrowth) * balanseringstal;
+    const inkomstpension = Math.max(0, inputs.inkomstpension) * indexFactor + rights.inkomstpension;
+
+    steps.push({
+      description: `Inkomstpension: omräkning med inkomstindex (${(incomeIndexGrowth * 100).toFixed(1)}% real) och balanstal ${balanseringstal.toFixed(3)}, plus ${inkomstpensionAndel * 100}% av PGI`,
+      formula: `behållning × ${indexFactor.toFixed(4)} + PGI × ${inkomstpensionAndel * 100}%`,
+      inputs: { behållning: inputs.inkomstpension, pgi: rights.pensionableIncome },
+      result: inkomstpension
+    });
+
+    // Premiepension: fund return, then the year's rights
+    const premiepension = Math.max(0, inputs.premiepension) * (1 + inputs.premiepensionReturn) + rights.premiepension;
+
+    steps.push({
+      description: `Premiepension: avkastning (${(inputs.premiepensionReturn * 100).toFixed(1)}% real) plus ${premiepensionAndel * 100}% av PGI`,
+      formula: `behållning × ${(1 + inputs.premiepensionReturn).toFixed(4)} + PGI × ${premiepensionAndel * 100}%`,
+      inputs: { behållning: inputs.premiepension, pgi: rights.pensionableIncome },
+      result: premiepension
+    });
+
+    const calculation: TransparentCalculation = {
+      category: "Allmän pension (intjänande)",
+      steps,
+      finalResult: inkomstpension + premiepension
+    };
+
+    return { rights, inkomstpension, premiepension, calculation };
+  }
+
+  /**
+   * Delningstal: the value of a lifelong pension of 1 kr per year, paid
+   * monthly from the given age, discounted at the rate (the 1.6% norm for
+   * inkomstpension). Survival follows a unisex Gompertz model per birth cohort.
+   */
+  calculateDelningstal(age: number, birthYear: number, rate = PENSION_PARAMETERS_2025.generalPension.delningstal.norm): number {
+    const { referenceCohort, modalAgeOfDeath, modalAgeGainPerCohort, dispersion, maxAge } =
+      PENSION_PARAMETERS_2025.generalPension.delningstal;
+    const modalAge = modalAgeOfDeath + (birthYear - referenceCohort) * modalAgeGainPerCohort;
+    const cumulativeHazard = (x: number) => Math.exp((x - modalAge) / dispersion);
+    const startHazard = cumulativeHazard(age);
+
+    let delningstal = 0;
+    for (let month = 0; month < (maxAge - age) * 12; month++) {
+      const years = month / 12;
+      const survival = Math.exp(startHazard - cumulativeHazard(age + years));
+      delningstal += survival * Math.pow(1 + rate, -years) / 12;
+    }
+
+    return delningstal;
+  }
+
+  /**
+   * One year of paid-out allmän pension. Inkomstpension is the balance
+   * divided by the delningstal and is then indexed with följsamhetsindexering
+   * (inkomstindex less the 1.6% norm); premiepension is divided by an annuity
+   * factor at the expected fund return. The remaining balances are the value
+   * of the pension still to be paid. With partial uttag only that share is
+   * paid out; the rest is indexed like a balance not yet withdrawn.
+   */
+  calculatePayout(inputs: GeneralPensionPayoutInputs): GeneralPensionPayoutResult {
+    const steps: CalculationStep[] = [];
+    const norm = PENSION_PARAMETERS_2025.generalPension.delningstal.norm;
+    const incomeIndexGrowth = inputs.incomeIndexGrowth ?? MACROECONOMIC_ASSUMPTIONS.realSalaryGrowth;
+    const share = Math.min(1, Math.max(0, inputs.withdrawalShare ?? 1));
+    const inkomstpension = Math.max(0, inputs.inkomstpension) * share;
+    const premiepension = Math.max(0, inputs.premiepension) * share;
+    const keptInkomstpension = Math.max(0, inputs.inkomstpension) - inkomstpension;
+    const keptPremiepension = Math.max(0, inputs.premiepension) - premiepension;
+
+    if (share < 1) {
+      steps.push({
+        description: `Partiellt uttag av allmän pension (${share * 100}%)`,
+        formula: `behållning × ${share * 100}%`,
+        inputs: { behållning: inputs.inkomstpension + inputs.premiepension },
+        result: inkomstpension + premiepension
+      });
+    }
+
+    // Inkomstpension
+    const delningstal = this.calculateDelningstal(inputs.age, inputs.birthYear);
+    const inkomstpensionYearly = inkomstpension / delningstal;
+    const inkomstpensionMonthly = inkomstpensionYearly / 12;
+
+    steps.push({
+      description: `Inkomstpension per månad (delningstal ${delningstal.toFixed(2)} för ${inputs.birthYear}, ${inputs.age} år)`,
+      formula: "behållning / delningstal / 12",
+      inputs: { behållning: inkomstpension, delningstal },
+      result: inkomstpensionMonthly
+    });
+
+    // Premiepension
+    const premiepensionDivisor = this.calculateDelningstal(inputs.age, inputs.birthYear, inputs.premiepensionReturn);
+    const premiepensionYearly = premiepension / premiepensionDivisor;
+    const premiepensionMonthly = premiepensionYearly / 12;
+
+    steps.push({
+      description: `Premiepension per månad (delningstal ${premiepensionDivisor.toFixed(2)} vid ${(inputs.premiepensionReturn * 100).toFixed(1)}% avkastning)`,
+      formula: "behållning / delningstal / 12",
+      inputs: { behållning: premiepension, delningstal: premiepensionDivisor },
+      result: premiepensionMonthly
+    });
+
+    // Following year: the inkomstpension moves with inkomstindex less the norm
+    const indexation = (1 + incomeIndexGrowth) / (1 + norm);
+    const remainingInkomstpension = inkomstpensionYearly *
+      this.calculateDelningstal(inputs.age + 1, inputs.birthYear) * indexation +
+      keptInkomstpension * (1 + incomeIndexGrowth);
+    const remainingPremiepension = premiepensionYearly *
+      this.calculateDelningstal(inputs.age + 1, inputs.birthYear, inputs.premiepensionReturn) +
+      keptPremiepension * (1 + inputs.premiepensionReturn);
+
+    steps.push({
+      description: `Följsamhetsindexering av inkomstpensionen till nästa år (inkomstindex ${(incomeIndexGrowth * 100).toFixed(1)}% real minus normen ${norm * 100}%)`,
+      formula: `(1 + ${incomeIndexGrowth}) / (1 + ${norm})`,
+      inputs: { inkomstindex: incomeIndexGrowth * 100, norm: norm * 100 },
+      result: indexation
+    });
+
+    const monthlyPension = inkomstpensionMonthly + premiepensionMonthly;
+
+    const calculation: TransparentCalculation = {
+      category: "Allmän pension (utbetalning)",
+      steps,
+      finalResult: monthlyPension
+    };
+
+    return {
+      delningstal,
+      premiepensionDivisor,
+      inkomstpensionMonthly,
+      premiepensionMonthly,
+      monthlyPension,
+      inkomstpension: remainingInkomstpension,
+      premiepension: remainingPremiepension,
+      calculation
+    };
+  }
+}
+
+// Export singleton instance
+export const generalPensionCalculator = new GeneralPensionCalculator();
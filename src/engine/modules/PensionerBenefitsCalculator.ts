@@ -0,0 +1,182 @@
+// ============================================================================
+// PENSIONER BENEFITS CALCULATOR MODULE
+// Handles support for pensioners with low income: garantipension,
+// bostadstillägg (BTP) and äldreförsörjningsstöd
+// ============================================================================
+
+import { CalculationStep, TransparentCalculation, TaxYearParameters, CivilStatus } from '../../types';
+import { PENSION_PARAMETERS_2025, getPensionAges } from '../swedish-parameters/TaxParameters2025';
+
+export interface BenefitResult {
+  amount: number; // Per year
+  calculation: TransparentCalculation;
+}
+
+export interface HousingSupplementInputs {
+  age: number;
+  birthYear?: number; // The starting age follows riktåldern for the birth year
+  civilStatus?: CivilStatus;
+  monthlyHousingCost: number;
+  yearlyIncome: number; // All pensions and other income before tax, per year
+  assets: number; // Savings and investments at the start of the year
+}
+
+export interface ElderlySupportInputs {
+  age: number;
+  birthYear?: number;
+  civilStatus?: CivilStatus;
+  monthlyHousingCost: number;
+  yearlyNetIncome: number; // Income after tax, per year
+  housingSupplement: number; // Bostadstillägg, per year
+  assets: number;
+}
+
+type CivilStatusKey = 'single' | 'married';
+
+export class PensionerBenefitsCalculator {
+  /**
+   * Garantipension tops up a low inkomstgrundad pension (inkomst- and
+   * premiepension). It is reduced krona för krona up to a limit and by 48%
+   * of the inkomstgrundad pension above it. Married and sambo get a lower
+   * level. Full residence time in Sweden is assumed.
+   */
+  calculateGuaranteePension(
+    yearlyIncomePension: number,
+    age: number,
+    params: TaxYearParameters,
+    civilStatus?: CivilStatus,
+    birthYear?: number
+  ): BenefitResult {
+    const steps: CalculationStep[] = [];
+    const { guaranteePension } = PENSION_PARAMETERS_2025.pensionerBenefits;
+    const ageFrom = this.getAgeFrom(birthYear);
+    const key = this.getCivilStatusKey(civilStatus);
+    const pbb = params.prisBasbelopp;
+    const income = Math.max(0, yearlyIncomePension);
+
+    const fullAmount = guaranteePension.fullAmountPbb[key] * pbb;
+    const limit = guaranteePension.fullReductionUpToPbb[key] * pbb;
+    const amount = age < ageFrom
+      ? 0
+      : income <= limit
+        ? fullAmount - income
+        : Math.max(0, fullAmount - limit - (income - limit) * guaranteePension.reductionRate);
+
+    steps.push({
+      description: age < ageFrom
+        ? `Ingen garantipension före ${ageFrom} år`
+        : `Garantipension (${key === 'married' ? 'gift/sambo' : 'ogift'}, högst ${guaranteePension.fullAmountPbb[key]} pbb)`,
+      formula: income <= limit
+        ? "högsta_nivå - inkomstgrundad_pension"
+        : `högsta_nivå - gräns - (inkomstgrundad_pension - gräns) × ${guaranteePension.reductionRate * 100}%`,
+      inputs: { högsta_nivå: fullAmount, gräns: limit, inkomstgrundad_pension: income },
+      result: amount
+    });
+
+    return {
+      amount,
+      calculation: { category: "Garantipension", steps, finalResult: amount }
+    };
+  }
+
+  /**
+   * Bostadstillägg covers 96% of the housing cost up to a ceiling. It is
+   * reduced by 62% of the income above the full garantipension level, where
+   * 15% of assets above an exemption count as income.
+   */
+  calculateHousingSupplement(inputs: HousingSupplementInputs, params: TaxYearParameters): BenefitResult {
+    const steps: CalculationStep[] = [];
+    const { guaranteePension, housingSupplement } = PENSION_PARAMETERS_2025.pensionerBenefits;
+    const ageFrom = this.getAgeFrom(inputs.birthYear);
+    const key = this.getCivilStatusKey(inputs.civilStatus);
+
+    if (inputs.age < ageFrom || inputs.monthlyHousingCost <= 0) {
+      return {
+        amount: 0,
+        calculation: { category: "Bostadstillägg", steps, finalResult: 0 }
+      };
+    }
+
+    const housingCost = Math.min(inputs.monthlyHousingCost, housingSupplement.maxMonthlyHousingCost[key]) * 12;
+    const maxSupplement = housingCost * housingSupplement.coverage;
+
+    steps.push({
+      description: `Bostadstillägg före inkomstprövning (${housingSupplement.coverage * 100}% av boendekostnaden, högst ${housingSupplement.maxMonthlyHousingCost[key]} kr/mån)`,
+      formula: `min(boendekostnad, ${housingSupplement.maxMonthlyHousingCost[key]}) × 12 × ${housingSupplement.coverage * 100}%`,
+      inputs: { boendekostnad: inputs.monthlyHousingCost },
+      result: maxSupplement
+    });
+
+    const assetIncome = this.calculateAssetIncome(inputs.assets, key);
+    const exemptIncome = guaranteePension.fullAmountPbb[key] * params.prisBasbelopp;
+    const reducingIncome = Math.max(0, inputs.yearlyIncome + assetIncome - exemptIncome);
+    const amount = Math.max(0, maxSupplement - reducingIncome * housingSupplement.reductionRate);
+
+    steps.push({
+      description: `Bostadstillägg efter inkomstprövning (${housingSupplement.reductionRate * 100}% av inkomsten över garantinivån)`,
+      formula: `max(0, bostadstillägg - (inkomst + förmögenhetstillägg - garantinivå) × ${housingSupplement.reductionRate * 100}%)`,
+      inputs: { bostadstillägg: maxSupplement, inkomst: inputs.yearlyIncome, förmögenhetstillägg: assetIncome, garantinivå: exemptIncome },
+      result: amount
+    });
+
+    return {
+      amount,
+      calculation: { category: "Bostadstillägg", steps, finalResult: amount }
+    };
+  }
+
+  /**
+   * Äldreförsörjningsstöd lifts the income after tax, including
+   * bostadstillägg, to a skälig levnadsnivå: a norm plus a reasonable
+   * housing cost.
+   */
+  calculateElderlySupport(inputs: ElderlySupportInputs, params: TaxYearParameters): BenefitResult {
+    const steps: CalculationStep[] = [];
+    const { housingSupplement, elderlySupport } = PENSION_PARAMETERS_2025.pensionerBenefits;
+    const ageFrom = this.getAgeFrom(inputs.birthYear);
+    const key = this.getCivilStatusKey(inputs.civilStatus);
+
+    if (inputs.age < ageFrom) {
+      return {
+        amount: 0,
+        calculation: { category: "Äldreförsörjningsstöd", steps, finalResult: 0 }
+      };
+    }
+
+    const norm = elderlySupport.normPbb[key] * params.prisBasbelopp;
+    const housingCost = Math.min(Math.max(0, inputs.monthlyHousingCost), housingSupplement.maxMonthlyHousingCost[key]) * 12;
+    const reasonableLevel = norm + housingCost;
+    const income = inputs.yearlyNetIncome + inputs.housingSupplement + this.calculateAssetIncome(inputs.assets, key);
+    const amount = Math.max(0, reasonableLevel - income);
+
+    steps.push({
+      description: `Äldreförsörjningsstöd upp till skälig levnadsnivå (${elderlySupport.normPbb[key]} pbb + boendekostnad)`,
+      formula: "max(0, norm + boendekostnad - inkomst_efter_skatt - bostadstillägg - förmögenhetstillägg)",
+      inputs: { norm, boendekostnad: housingCost, inkomst_efter_skatt: inputs.yearlyNetIncome, bostadstillägg: inputs.housingSupplement },
+      result: amount
+    });
+
+    return {
+      amount,
+      calculation: { category: "Äldreförsörjningsstöd", steps, finalResult: amount }
+    };
+  }
+
+  private calculateAssetIncome(assets: number, key: CivilStatusKey): number {
+    const { assetExemption, assetIncomeShare } = PENSION_PARAMETERS_2025.pensionerBenefits.housingSupplement;
+    return Math.max(0, assets - assetExemption[key]) * assetIncomeShare;
+  }
+
+  private getAgeFrom(birthYear?: number): number {
+    return birthYear !== undefined
+      ? getPensionAges(birthYear).guaranteePension
+      : PENSION_PARAMETERS_2025.pensionerBenefits.ageFrom;
+  }
+
+  private getCivilStatusKey(civilStatus?: CivilStatus): CivilStatusKey {
+    return civilStatus === 'gift_sambo' ? 'married' : 'single';
+  }
+}
+
+// Export singleton instance
+export const pensionerBenefitsCalculator = new PensionerBenefitsCalculator();
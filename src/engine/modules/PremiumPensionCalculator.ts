@@ -0,0 +1,112 @@
+// ============================================================================
+// PREMIUM PENSION CALCULATOR MODULE
+// Handles the premiepension fund return: AP7 Såfa with its age-based move
+// from equities to räntor, or an own fund mix, after fees and fondrabatt
+// ============================================================================
+
+import { CalculationStep, TransparentCalculation, PPMFund, PremiepensionStrategy } from '../../types';
+import { PENSION_PARAMETERS_2025 } from '../swedish-parameters/TaxParameters2025';
+
+export interface PremiumPensionSettings {
+  premiepensionStrategy?: PremiepensionStrategy; // Defaults to AP7 Såfa
+  selectedPPMFunds?: PPMFund[];
+}
+
+export interface PremiumPensionReturn {
+  grossReturn: number; // Weighted expected return before fees
+  fundFees: number; // Weighted fund fees after fondrabatt
+  adminFee: number; // Pensionsmyndighetens förvaltningsavgift
+  netReturn: number;
+  equityShare?: number; // AP7 Såfa only
+  calculation: TransparentCalculation;
+}
+
+export class PremiumPensionCalculator {
+  /**
+   * Share in AP7 Aktiefond for AP7 Såfa: all equities up to 55, then a
+   * straight move each year towards the final share at 75.
+   */
+  getSafaEquityShare(age: number): number {
+    const { glideStartAge, glideEndAge, finalEquityShare } = PENSION_PARAMETERS_2025.premiepension.ap7Safa;
+
+    if (age < glideStartAge) {
+      return 1;
+    }
+    if (age >= glideEndAge) {
+      return finalEquityShare;
+    }
+
+    const progress = (age - glideStartAge + 1) / (glideEndAge - glideStartAge + 1);
+    return 1 - progress * (1 - finalEquityShare);
+  }
+
+  /**
+   * Expected real return on the premiepension for the year. Own funds are
+   * weighted by allocation; each fund's fee is reduced by its fondrabatt.
+   * Without any own funds the AP7 Såfa default is used.
+   */
+  calculateYearlyReturn(age: number, settings: PremiumPensionSettings = {}): PremiumPensionReturn {
+    const steps: CalculationStep[] = [];
+    const { adminFee, ap7Safa } = PENSION_PARAMETERS_2025.premiepension;
+    const funds = settings.selectedPPMFunds ?? [];
+    const totalAllocation = funds.reduce((sum, fund) => sum + Math.max(0, fund.allocation), 0);
+    const useOwnFunds = settings.premiepensionStrategy === 'own-funds' && totalAllocation > 0;
+
+    let grossReturn: number;
+    let fundFees: number;
+    let equityShare: number | undefined;
+
+    if (useOwnFunds) {
+      grossReturn = 0;
+      fundFees = 0;
+
+      funds.forEach(fund => {
+        const weight = Math.max(0, fund.allocation) / totalAllocation;
+        const netFee = fund.fees * (1 - (fund.rebate ?? 0));
+        grossReturn += weight * fund.expectedReturn;
+        fundFees += weight * netFee;
+
+        steps.push({
+          description: `${fund.name} (${(weight * 100).toFixed(0)}%): avgift efter fondrabatt`,
+          formula: "avgift × (1 - rabatt)",
+          inputs: { avgift: fund.fees * 100, rabatt: (fund.rebate ?? 0) * 100, avkastning: fund.expectedReturn * 100 },
+          result: netFee
+        });
+      });
+    } else {
+      equityShare = this.getSafaEquityShare(age);
+      const { equityFund, fixedIncomeFund } = ap7Safa;
+      grossReturn = equityShare * equityFund.expectedReturn + (1 - equityShare) * fixedIncomeFund.expectedReturn;
+      fundFees = equityShare * equityFund.fee + (1 - equityShare) * fixedIncomeFund.fee;
+
+      steps.push({
+        description: `AP7 Såfa: andel i aktiefonden vid ${age} år`,
+        formula: age < ap7Safa.glideStartAge
+          ? "100%"
+          : `gradvis från 100% vid ${ap7Safa.glideStartAge - 1} år till ${ap7Safa.finalEquityShare * 100}% vid ${ap7Safa.glideEndAge} år`,
+        inputs: { ålder: age },
+        result: equityShare
+      });
+    }
+
+    const netReturn = grossReturn - fundFees - adminFee;
+
+    steps.push({
+      description: "Premiepension: förväntad avkastning efter avgifter",
+      formula: "avkastning - fondavgifter - förvaltningsavgift",
+      inputs: { avkastning: grossReturn * 100, fondavgifter: fundFees * 100, förvaltningsavgift: adminFee * 100 },
+      result: netReturn
+    });
+
+    const calculation: TransparentCalculation = {
+      category: "Premiepension",
+      steps,
+      finalResult: netReturn
+    };
+
+    return { grossReturn, fundFees, adminFee, netReturn, equityShare, calculation };
+  }
+}
+
+// Export singleton instance
+export const premiumPensionCalculator = new PremiumPensionCalculator();
@@ -0,0 +1,117 @@
+// ============================================================================
+// PROPERTY FEE CALCULATOR MODULE
+// Handles kommunal fastighetsavgift and statlig fastighetsskatt on owned homes
+// ============================================================================
+
+import { CalculationStep, TransparentCalculation, TaxYearParameters, OwnedHome } from '../../types';
+
+export interface PropertyFeeResult {
+  propertyFee: number; // Kommunal fastighetsavgift
+  propertyTax: number; // Statlig fastighetsskatt
+  calculation: TransparentCalculation;
+}
+
+const HOME_TYPE_LABELS: Record<OwnedHome['type'], string> = {
+  villa: 'Villa',
+  bostadsrätt: 'Bostadsrätt',
+  ägarlägenhet: 'Ägarlägenhet',
+  fritidshus: 'Fritidshus',
+};
+
+export class PropertyFeeCalculator {
+  /**
+   * Calculate fastighetsavgift and fastighetsskatt for the homes a person owns.
+   * Villas, fritidshus and ägarlägenheter pay 0.75% of taxeringsvärde up to
+   * the yearly maximum. Bostadsrätter pay nothing themselves (the förening
+   * does). Homes under construction are taxed as tomtmark at 1%. From 66 the
+   * avgift on the permanentbostad is limited to 4% of income; other homes
+   * such as a fritidshus pay in full.
+   */
+  calculatePropertyFees(
+    homes: OwnedHome[],
+    age: number,
+    income: number,
+    params: TaxYearParameters
+  ): PropertyFeeResult {
+    const steps: CalculationStep[] = [];
+    const { rate, maximum, pensionerIncomeShare } = params.propertyFee;
+    let permanentHomeFee = 0;
+    let otherHomesFee = 0;
+    let hasPermanentHome = false;
+    let propertyTax = 0;
+
+    homes.forEach(home => {
+      const value = Math.max(0, home.taxAssessedValue);
+      const label = HOME_TYPE_LABELS[home.type];
+
+      if (home.type === 'bostadsrätt') {
+        steps.push({
+          description: `${label}: ingen fastighetsavgift (betalas av föreningen)`,
+          formula: "0",
+          inputs: { taxeringsvärde: value },
+          result: 0
+        });
+        return;
+      }
+
+      if (home.isUnderConstruction) {
+        const tax = value * params.propertyTax.landRate;
+        propertyTax += tax;
+
+        steps.push({
+          description: `${label} under uppförande: statlig fastighetsskatt på tomtmark`,
+          formula: `taxeringsvärde × ${params.propertyTax.landRate * 100}%`,
+          inputs: { taxeringsvärde: value, procent: params.propertyTax.landRate * 100 },
+          result: tax
+        });
+        return;
+      }
+
+      const fee = Math.min(value * rate, maximum);
+      // Only one home can be the permanentbostad
+      if (!hasPermanentHome && this.isPermanentHome(home)) {
+        hasPermanentHome = true;
+        permanentHomeFee = fee;
+      } else {
+        otherHomesFee += fee;
+      }
+
+      steps.push({
+        description: `${label}: kommunal fastighetsavgift`,
+        formula: `min(taxeringsvärde × ${rate * 100}%, ${maximum})`,
+        inputs: { taxeringsvärde: value, procent: rate * 100, tak: maximum },
+        result: fee
+      });
+    });
+
+    // Begränsningsregel for pensioners: at most 4% of income, permanentbostad only
+    let limitedFee = permanentHomeFee;
+    if (age >= 66 && permanentHomeFee > 0) {
+      const incomeLimit = Math.max(0, income) * pensionerIncomeShare;
+      limitedFee = Math.min(permanentHomeFee, incomeLimit);
+
+      steps.push({
+        description: `Fastighetsavgift för permanentbostaden begränsad till ${pensionerIncomeShare * 100}% av inkomsten (66 år och äldre)`,
+        formula: `min(fastighetsavgift, inkomst × ${pensionerIncomeShare * 100}%)`,
+        inputs: { fastighetsavgift: permanentHomeFee, inkomst: income },
+        result: limitedFee
+      });
+    }
+    const propertyFee = limitedFee + otherHomesFee;
+
+    const calculation: TransparentCalculation = {
+      category: "Fastighetsavgift",
+      steps,
+      finalResult: propertyFee + propertyTax
+    };
+
+    return { propertyFee, propertyTax, calculation };
+  }
+
+  private isPermanentHome(home: OwnedHome): boolean {
+    return home.isPermanentHome ?? home.type !== 'fritidshus';
+  }
+}
+
+// Export singleton instance
+export const propertyFeeCalculator = new PropertyFeeCalculator();
@@ -3,71 +3,191 @@
 // Handles all Swedish tax calculations for the simulator
 // ============================================================================
 
-import { 
-  SWEDISH_TAX_PARAMETERS_2025, 
-  BASIC_DEDUCTION_2025,
-  ISK_EFFECTIVE_TAX_RATE_2025 
-} from '../swedish-parameters/TaxParameters2025';
-import { CalculationStep, TransparentCalculation } from '../../types';
+import { calculateISKTaxRate } from '../swedish-parameters/TaxParameters2025';
+import { getTaxParameters, DEFAULT_TAX_YEAR } from '../swedish-parameters/TaxParameterRegistry';
+import { getMunicipality, getLocalTaxRate } from '../swedish-parameters/Municipalities2025';
+import { capitalIncomeCalculator } from './CapitalIncomeCalculator';
+import { propertyFeeCalculator } from './PropertyFeeCalculator';
+import { businessIncomeCalculator, BusinessIncomeInputs, BusinessIncomeResult } from './BusinessIncomeCalculator';
+import { closeCompanyCalculator, DividendSplit } from './CloseCompanyCalculator';
+import { CalculationStep, TransparentCalculation, TaxYearParameters, PrisbasbeloppStep, OwnedHome } from '../../types';
 
 export interface TaxCalculationInputs {
-  grossSalary: number;
+  year?: number; // Calendar (income) year, defaults to DEFAULT_TAX_YEAR
+  grossSalary: number; // Employment income (inkomst av tjänst, lön)
+  pensionIncome?: number; // Allmän, tjänste- and privat pension paid out
+  businessIncome?: number; // Surplus from active business (aktiv näringsverksamhet)
+  business?: BusinessIncomeInputs; // Enskild näringsverksamhet, replaces businessIncome when given
+  capitalIncome?: number; // Interest income (ränteinkomster, inkomst av kapital)
+  dividends?: number; // Utdelningar (inkomst av kapital)
+  closeCompanyDividend?: {
+    dividend: number; // Utdelning on kvalificerade andelar in a fåmansföretag
+    dividendSpace: number; // Gränsbelopp including sparat utdelningsutrymme
+  };
   age: number;
+  municipalityCode?: string; // Kommunkod, national average rate is used when missing
+  isChurchMember?: boolean; // Member of Svenska kyrkan (pays kyrkoavgift)
+  taxTable?: number; // Skattetabell, a whole-percent rate replacing the local rates and fees
   iskCapital: number;
+  iskQuarterlyValues?: number[]; // ISK value at the start of each quarter, defaults to iskCapital
+  iskDeposits?: number; // Deposits into ISK during the year
   kfCapital: number;
-  capitalGains?: number;
+  capitalGains?: number; // Net gain on listed shares and funds, negative = loss
+  capitalLosses?: number; // Losses on listed shares and funds (positive amount)
   propertyValue?: number;
-  interestExpenses?: number;
+  homes?: OwnedHome[]; // Owned homes for fastighetsavgift
+  interestExpenses?: number; // Ränteutgifter, deductible in inkomst av kapital
 }
 
 export interface TaxCalculationResult {
   municipalTax: number;
   stateTax: number;
+  pensionFee: number; // Allmän pensionsavgift
+  publicServiceFee: number;
+  burialFee: number; // Begravningsavgift
+  churchFee: number; // Kyrkoavgift
+  pensionFeeReduction: number; // Skattereduktion för allmän pensionsavgift
+  earnedIncomeTaxCredit: number; // Jobbskatteavdrag, reduces municipal tax
   iskTax: number;
   kfTax: number;
-  capitalGainsTax: number;
+  capitalGainsTax: number; // Tax on överskott av kapital
+  capitalDeficitReduction: number; // Skattereduktion för underskott av kapital
+  selfEmploymentContributions: number; // Egenavgifter on business income
+  expansionsfondTax: number; // Negative when an återföring gives back earlier tax
+  business?: BusinessIncomeResult;
+  closeCompanyDividend?: DividendSplit;
+  propertyFee: number; // Kommunal fastighetsavgift, a housing cost not included in totalTax
+  propertyTax: number; // Statlig fastighetsskatt, a housing cost not included in totalTax
   totalTax: number;
   netIncome: number;
   calculations: TransparentCalculation[];
 }
 
-export class SwedishTaxCalculator {
-  private readonly taxParams = SWEDISH_TAX_PARAMETERS_2025;
-  private readonly basicDeduction = BASIC_DEDUCTION_2025;
+// Förvärvsinkomst split by type, since fees and credits differ between them
+interface EarnedIncome {
+  employment: number;
+  pension: number;
+  business: number;
+  serviceDividend: number; // Utdelning above the gränsbelopp, taxed as tjänst
+}
+
+// Rates charged on beskattningsbar förvärvsinkomst where the taxpayer lives
+interface LocalTaxRates {
+  label: string; // Municipality name or "rikssnitt"
+  municipalTaxRate: number; // Kommunal + regional skattesats
+  burialFeeRate: number;
+  churchFeeRate: number;
+}
 
+export class SwedishTaxCalculator {
   /**
    * Calculate all taxes for a given year
    */
   calculateYearlyTax(inputs: TaxCalculationInputs): TaxCalculationResult {
     const calculations: TransparentCalculation[] = [];
+    const params = getTaxParameters(inputs.year ?? DEFAULT_TAX_YEAR);
+    
+    // 0. Business income after räntefördelning, fonder and schablonavdrag
+    const businessResult = inputs.business
+      ? businessIncomeCalculator.calculateBusinessIncome(inputs.business, inputs.age, params)
+      : undefined;
+    if (businessResult) {
+      calculations.push(businessResult.calculation);
+    }
+    
+    // Split a fåmansföretag dividend between kapital and tjänst (3:12)
+    const dividendSplit = inputs.closeCompanyDividend
+      ? closeCompanyCalculator.splitDividend(
+          inputs.closeCompanyDividend.dividend,
+          inputs.closeCompanyDividend.dividendSpace,
+          params
+        )
+      : undefined;
+    if (dividendSplit) {
+      calculations.push(dividendSplit.calculation);
+    }
+    
+    const earnedIncome: EarnedIncome = {
+      employment: Math.max(0, inputs.grossSalary),
+      pension: Math.max(0, inputs.pensionIncome ?? 0),
+      business: Math.max(0, businessResult?.businessIncome ?? inputs.businessIncome ?? 0),
+      serviceDividend: dividendSplit?.serviceDividend ?? 0,
+    };
+    const interestIncome = Math.max(0, inputs.capitalIncome ?? 0);
+    const dividends = Math.max(0, inputs.dividends ?? 0);
+    const taxableDividends = dividends + (dividendSplit?.taxableCapitalDividend ?? 0);
+    const localRates = this.getLocalTaxRates(
+      params, inputs.municipalityCode, inputs.isChurchMember, inputs.taxTable
+    );
     
     // 1. Calculate income tax (municipal + state)
-    const incomeTaxResult = this.calculateIncomeTax(inputs.grossSalary, inputs.age);
+    const incomeTaxResult = this.calculateIncomeTax(earnedIncome, inputs.age, params, localRates);
     calculations.push(incomeTaxResult.calculation);
     
-    // 2. Calculate ISK tax (schablonskatt)
-    const iskTaxResult = this.calculateISKTax(inputs.iskCapital);
+    // 2. Calculate ISK tax (schablonskatt) on the kapitalunderlag
+    const iskTaxResult = this.calculateISKTax(inputs, params);
     calculations.push(iskTaxResult.calculation);
     
     // 3. Calculate KF tax (avkastningsskatt)
-    const kfTaxResult = this.calculateKFTax(inputs.kfCapital);
+    const kfTaxResult = this.calculateKFTax(inputs.kfCapital, iskTaxResult.capitalBase, params);
     calculations.push(kfTaxResult.calculation);
     
-    // 4. Calculate capital gains tax if applicable
-    const capitalGainsTax = inputs.capitalGains ? 
-      this.calculateCapitalGainsTax(inputs.capitalGains) : 0;
+    // 4. Calculate inkomst av kapital; a deficit reduces tax on earned income
+    const capitalResult = capitalIncomeCalculator.calculateCapitalIncome({
+      interestIncome,
+      dividends: taxableDividends,
+      capitalGains: inputs.capitalGains,
+      capitalLosses: inputs.capitalLosses,
+      interestExpenses: inputs.interestExpenses,
+      interestAllocation: businessResult?.interestAllocation,
+      reducibleTax: incomeTaxResult.reducibleTax
+    }, params);
+    calculations.push(capitalResult.calculation);
+    
+    // 5. Calculate fastighetsavgift on owned homes, limited by income from 66
+    const propertyResult = propertyFeeCalculator.calculatePropertyFees(
+      inputs.homes ?? [],
+      inputs.age,
+      incomeTaxResult.assessedIncome + capitalResult.surplus,
+      params
+    );
+    if (inputs.homes?.length) {
+      calculations.push(propertyResult.calculation);
+    }
+    
+    const selfEmploymentContributions = businessResult?.contributions ?? 0;
+    const expansionsfondTax = businessResult?.expansionsfondTax ?? 0;
     
-    const totalTax = incomeTaxResult.municipalTax + incomeTaxResult.stateTax + 
-                    iskTaxResult.tax + kfTaxResult.tax + capitalGainsTax;
+    const totalTax = incomeTaxResult.finalTax +
+                    iskTaxResult.tax + kfTaxResult.tax +
+                    capitalResult.tax - capitalResult.deficitReduction +
+                    selfEmploymentContributions + expansionsfondTax;
     
-    const netIncome = inputs.grossSalary - totalTax;
+    // The owner keeps the whole profit; fund allocations only defer tax
+    const businessCash = businessResult ? businessResult.profit : earnedIncome.business;
+    const netIncome = earnedIncome.employment + earnedIncome.pension +
+                      businessCash + interestIncome + dividends +
+                      (dividendSplit?.dividend ?? 0) - totalTax;
     
     return {
       municipalTax: incomeTaxResult.municipalTax,
       stateTax: incomeTaxResult.stateTax,
+      pensionFee: incomeTaxResult.pensionFee,
+      publicServiceFee: incomeTaxResult.publicServiceFee,
+      burialFee: incomeTaxResult.burialFee,
+      churchFee: incomeTaxResult.churchFee,
+      pensionFeeReduction: incomeTaxResult.pensionFeeReduction,
+      earnedIncomeTaxCredit: incomeTaxResult.earnedIncomeTaxCredit,
       iskTax: iskTaxResult.tax,
       kfTax: kfTaxResult.tax,
-      capitalGainsTax,
+      capitalGainsTax: capitalResult.tax,
+      capitalDeficitReduction: capitalResult.deficitReduction,
+      selfEmploymentContributions,
+      expansionsfondTax,
+      business: businessResult,
+      closeCompanyDividend: dividendSplit,
+      propertyFee: propertyResult.propertyFee,
+      propertyTax: propertyResult.propertyTax,
       totalTax,
       netIncome,
       calculations
@@ -75,86 +195,183 @@ export class SwedishTaxCalculator {
   }
 
   /**
-   * Calculate Swedish income tax (municipal + state + pension fee)
+   * Calculate final tax on earned income (slutskatt på förvärvsinkomst).
+   * Order follows Skatteverket: fastställd förvärvsinkomst, grundavdrag,
+   * beskattningsbar förvärvsinkomst, municipal and state tax, fees, and finally
+   * the tax reductions for pension fee and jobbskatteavdrag.
+   * Pension income and dividends taxed in tjänst are förvärvsinkomst but carry
+   * no pension fee and give no jobbskatteavdrag; salary and active business
+   * income do both.
    */
-  private calculateIncomeTax(grossSalary: number, age: number) {
+  private calculateIncomeTax(
+    income: EarnedIncome,
+    age: number,
+    params: TaxYearParameters,
+    localRates: LocalTaxRates
+  ) {
     const steps: CalculationStep[] = [];
+    const workIncome = income.employment + income.business; // Arbetsinkomst
+    const totalIncome = workIncome + income.pension + income.serviceDividend;
     
-    // Step 1: Calculate pension fee (7% of PGI)
-    const maxPGI = this.taxParams.inkomstBasbelopp * 8.07 * 0.93; // Approximate PGI calculation
-    const pensionableIncome = Math.min(grossSalary, maxPGI);
-    const pensionFee = pensionableIncome * this.taxParams.generalPensionFee;
+    // Step 1: Fastställd förvärvsinkomst, rounded down to whole hundreds
+    const assessedIncome = Math.floor(totalIncome / 100) * 100;
     
     steps.push({
-      description: "Allmän pensionsavgift (7% av PGI)",
-      formula: "min(bruttolön, max_PGI) × 7%",
-      inputs: { bruttolön: grossSalary, max_PGI: maxPGI, procent: 7 },
-      result: pensionFee
+      description: "Fastställd förvärvsinkomst",
+      formula: "avrunda_nedåt(lön + näringsverksamhet + pension + utdelning_i_tjänst, 100)",
+      inputs: {
+        lön: income.employment,
+        näringsverksamhet: income.business,
+        pension: income.pension,
+        utdelning_i_tjänst: income.serviceDividend
+      },
+      result: assessedIncome
     });
     
     // Step 2: Calculate basic deduction (grundavdrag)
-    const basicDeduction = this.calculateBasicDeduction(grossSalary - pensionFee, age);
+    const basicDeductionResult = this.calculateBasicDeduction(assessedIncome, age, params);
+    const basicDeduction = basicDeductionResult.amount;
+    steps.push(...basicDeductionResult.steps);
     
-    steps.push({
-      description: "Grundavdrag",
-      formula: "Grundavdrag baserat på beskattningsbar inkomst och ålder",
-      inputs: { beskattningsbar_inkomst: grossSalary - pensionFee, ålder: age },
-      result: basicDeduction
-    });
-    
-    // Step 3: Calculate taxable income
-    const taxableIncome = Math.max(0, grossSalary - pensionFee - basicDeduction);
+    // Step 3: Beskattningsbar förvärvsinkomst, rounded down to whole hundreds
+    const taxableIncome = Math.floor(Math.max(0, assessedIncome - basicDeduction) / 100) * 100;
     
     steps.push({
-      description: "Beskattningsbar inkomst",
-      formula: "bruttolön - pensionsavgift - grundavdrag",
-      inputs: { 
-        bruttolön: grossSalary, 
-        pensionsavgift: pensionFee, 
-        grundavdrag: basicDeduction 
-      },
+      description: "Beskattningsbar förvärvsinkomst",
+      formula: "avrunda_nedåt(fastställd_förvärvsinkomst - grundavdrag, 100)",
+      inputs: { fastställd_förvärvsinkomst: assessedIncome, grundavdrag: basicDeduction },
       result: taxableIncome
     });
     
     // Step 4: Calculate municipal tax
-    const municipalTax = taxableIncome * this.taxParams.averageMunicipalTax;
+    const municipalTax = taxableIncome * localRates.municipalTaxRate;
+    const municipalPercent = Number((localRates.municipalTaxRate * 100).toFixed(2));
     
     steps.push({
-      description: "Kommunalskatt (inkl. region)",
-      formula: "beskattningsbar_inkomst × 32.41%",
-      inputs: { beskattningsbar_inkomst: taxableIncome, procent: 32.41 },
+      description: `Kommunalskatt inkl. region (${localRates.label})`,
+      formula: `beskattningsbar_inkomst × ${municipalPercent}%`,
+      inputs: { beskattningsbar_inkomst: taxableIncome, procent: municipalPercent },
       result: municipalTax
     });
     
-    // Step 5: Calculate state tax
-    const stateThreshold = age >= 66 ? 
-      this.taxParams.stateTaxBreakpoint.over66 : 
-      this.taxParams.stateTaxBreakpoint.under66;
-    
-    const stateTaxableIncome = Math.max(0, taxableIncome - stateThreshold);
-    const stateTax = stateTaxableIncome * this.taxParams.stateTaxRate;
+    // Step 5: Calculate state tax on taxable income above skiktgräns
+    const stateTaxableIncome = Math.max(0, taxableIncome - params.stateTaxThreshold);
+    const stateTax = stateTaxableIncome * params.stateTaxRate;
     
     steps.push({
-      description: "Statlig inkomstskatt (20% över brytpunkt)",
-      formula: "max(0, beskattningsbar_inkomst - brytpunkt) × 20%",
+      description: "Statlig inkomstskatt (20% över skiktgräns)",
+      formula: "max(0, beskattningsbar_inkomst - skiktgräns) × 20%",
       inputs: { 
         beskattningsbar_inkomst: taxableIncome, 
-        brytpunkt: stateThreshold,
+        skiktgräns: params.stateTaxThreshold,
         procent: 20
       },
       result: stateTax
     });
     
+    // Step 6: Allmän pensionsavgift (7% of arbetsinkomst up to 8.07 IBB,
+    // rounded to nearest hundred, not charged on pension income)
+    const { maxIncomeIbb, minIncomePbb } = params.generalPensionFeeLimits;
+    const feeIncomeCap = params.inkomstBasbelopp * maxIncomeIbb;
+    const feeMinimumIncome = params.prisBasbelopp * minIncomePbb;
+    const pensionFee = workIncome < feeMinimumIncome ? 0 :
+      Math.round((Math.min(workIncome, feeIncomeCap) * params.generalPensionFee) / 100) * 100;
+    
+    steps.push({
+      description: "Allmän pensionsavgift (7% av arbetsinkomst)",
+      formula: "avrunda(min(arbetsinkomst, 8,07 × IBB) × 7%, 100)",
+      inputs: { arbetsinkomst: workIncome, tak: feeIncomeCap, lägsta_inkomst: feeMinimumIncome, procent: 7 },
+      result: pensionFee
+    });
+    
+    // Step 7: Public service-avgift
+    const publicServiceFee = Math.min(
+      taxableIncome * params.publicServiceFee.rate,
+      params.publicServiceFee.maximum
+    );
+    
+    steps.push({
+      description: "Public service-avgift",
+      formula: `min(beskattningsbar_inkomst × ${params.publicServiceFee.rate * 100}%, tak)`,
+      inputs: { beskattningsbar_inkomst: taxableIncome, tak: params.publicServiceFee.maximum },
+      result: publicServiceFee
+    });
+    
+    // Step 8: Begravningsavgift and kyrkoavgift
+    const burialFee = taxableIncome * localRates.burialFeeRate;
+    const churchFee = taxableIncome * localRates.churchFeeRate;
+    
+    if (burialFee > 0) {
+      steps.push({
+        description: `Begravningsavgift (${localRates.label})`,
+        formula: `beskattningsbar_inkomst × ${Number((localRates.burialFeeRate * 100).toFixed(3))}%`,
+        inputs: { beskattningsbar_inkomst: taxableIncome, procent: localRates.burialFeeRate * 100 },
+        result: burialFee
+      });
+    }
+    
+    if (churchFee > 0) {
+      steps.push({
+        description: "Kyrkoavgift (snitt för stiftet)",
+        formula: `beskattningsbar_inkomst × ${Number((localRates.churchFeeRate * 100).toFixed(2))}%`,
+        inputs: { beskattningsbar_inkomst: taxableIncome, procent: localRates.churchFeeRate * 100 },
+        result: churchFee
+      });
+    }
+    
+    // Step 9: Skattereduktion för allmän pensionsavgift, applied first and
+    // against municipal tax before state tax
+    const pensionFeeReduction = Math.min(pensionFee, municipalTax + stateTax);
+    const municipalTaxAfterReduction = municipalTax - Math.min(pensionFeeReduction, municipalTax);
+    
+    steps.push({
+      description: "Skattereduktion för allmän pensionsavgift",
+      formula: "min(pensionsavgift, kommunalskatt + statlig_skatt)",
+      inputs: { pensionsavgift: pensionFee, kommunalskatt: municipalTax, statlig_skatt: stateTax },
+      result: pensionFeeReduction
+    });
+    
+    // Step 10: Jobbskatteavdrag, limited to the remaining municipal tax
+    const creditResult = this.calculateEarnedIncomeTaxCredit(
+      workIncome, basicDeduction, age, municipalTaxAfterReduction, localRates.municipalTaxRate, params
+    );
+    const earnedIncomeTaxCredit = creditResult.credit;
+    steps.push(...creditResult.steps);
+    
+    // Step 11: Slutskatt on earned income
+    const finalTax = municipalTax + stateTax + pensionFee + publicServiceFee +
+                     burialFee + churchFee - pensionFeeReduction - earnedIncomeTaxCredit;
+    
+    steps.push({
+      description: "Slutskatt på förvärvsinkomst",
+      formula: "kommunalskatt + statlig_skatt + avgifter - skattereduktioner",
+      inputs: {
+        kommunalskatt: municipalTax,
+        statlig_skatt: stateTax,
+        avgifter: pensionFee + publicServiceFee + burialFee + churchFee,
+        skattereduktioner: pensionFeeReduction + earnedIncomeTaxCredit
+      },
+      result: finalTax
+    });
+    
     const calculation: TransparentCalculation = {
       category: "Inkomstskatt",
       steps,
-      finalResult: municipalTax + stateTax
+      finalResult: finalTax
     };
     
     return {
       municipalTax,
       stateTax,
       pensionFee,
+      publicServiceFee,
+      burialFee,
+      churchFee,
+      pensionFeeReduction,
+      earnedIncomeTaxCredit,
+      finalTax,
+      reducibleTax: municipalTax + stateTax - pensionFeeReduction - earnedIncomeTaxCredit,
+      assessedIncome,
       basicDeduction,
       taxableIncome,
       calculation
@@ -162,77 +379,298 @@ export class SwedishTaxCalculator {
   }
 
   /**
-   * Calculate basic deduction (grundavdrag) based on income and age
+   * Calculate basic deduction (grundavdrag) based on income and age.
+   * Uses the statutory formula in prisbasbelopp steps, with förhöjt grundavdrag
+   * for those who have turned 66. Rounded up to whole hundreds, never above income.
    */
-  private calculateBasicDeduction(taxableIncome: number, age: number): number {
-    const deduction = age >= 66 ? this.basicDeduction.over66 : this.basicDeduction.under66;
-    
-    // Simplified calculation - in reality this is more complex
-    if (taxableIncome <= 100000) {
-      return deduction.minimum;
-    } else if (taxableIncome <= 500000) {
-      return deduction.maximum;
-    } else {
-      return deduction.minimumAtHighIncome;
-    }
+  private calculateBasicDeduction(assessedIncome: number, age: number, params: TaxYearParameters) {
+    const steps: CalculationStep[] = [];
+    const isOver66 = age >= 66;
+    const deductionSteps = isOver66 ? params.basicDeductionSteps.over66 : params.basicDeductionSteps.under66;
+    const pbb = params.prisBasbelopp;
+    
+    const incomeInPbb = assessedIncome / pbb;
+    
+    steps.push({
+      description: "Fastställd förvärvsinkomst i prisbasbelopp",
+      formula: "fastställd_förvärvsinkomst / prisbasbelopp",
+      inputs: { fastställd_förvärvsinkomst: assessedIncome, prisbasbelopp: pbb },
+      result: incomeInPbb
+    });
+    
+    const { value: deductionInPbb, interval, intervalStart } =
+      this.evaluatePrisbasbeloppSteps(deductionSteps, incomeInPbb);
+    
+    steps.push({
+      description: `${isOver66 ? 'Förhöjt grundavdrag' : 'Grundavdrag'} (${this.describeInterval(interval, intervalStart)})`,
+      formula: `(${interval.base} + ${interval.rate} × (inkomst_pbb - ${intervalStart})) × prisbasbelopp`,
+      inputs: { inkomst_pbb: incomeInPbb, prisbasbelopp: pbb },
+      result: deductionInPbb * pbb
+    });
+    
+    const amount = Math.min(assessedIncome, Math.ceil((deductionInPbb * pbb) / 100) * 100);
+    
+    steps.push({
+      description: "Grundavdrag (avrundat uppåt till hundratal)",
+      formula: "min(fastställd_förvärvsinkomst, avrunda_uppåt(grundavdrag, 100))",
+      inputs: { fastställd_förvärvsinkomst: assessedIncome, grundavdrag: deductionInPbb * pbb },
+      result: amount
+    });
+    
+    return { amount, steps };
   }
 
   /**
-   * Calculate ISK schablonskatt (flat tax on capital)
+   * Calculate jobbskatteavdrag (earned income tax credit).
+   * Under 66 the credit is (arbetsinkomst in pbb steps − grundavdrag) × kommunalskatt;
+   * from 66 a higher credit based directly on arbetsinkomst applies.
+   * The credit can never exceed the municipal tax.
    */
-  private calculateISKTax(iskCapital: number) {
+  private calculateEarnedIncomeTaxCredit(
+    earnedIncome: number,
+    basicDeduction: number,
+    age: number,
+    municipalTax: number,
+    municipalTaxRate: number,
+    params: TaxYearParameters
+  ) {
     const steps: CalculationStep[] = [];
+    const income = Math.max(0, earnedIncome);
+    let calculatedCredit: number;
     
-    // Step 1: Apply tax-free amount
-    const taxFreeAmount = this.taxParams.iskKfParameters.taxFreeAmount2025;
-    const taxableCapital = Math.max(0, iskCapital - taxFreeAmount);
+    if (age >= 66) {
+      const { rate, threshold, rateAboveThreshold, maximum } = params.earnedIncomeTaxCredit.over66;
+      calculatedCredit = Math.min(
+        maximum,
+        Math.min(income, threshold) * rate + Math.max(0, income - threshold) * rateAboveThreshold
+      );
+      
+      steps.push({
+        description: "Förhöjt jobbskatteavdrag (66 år och äldre)",
+        formula: `min(${maximum}, min(arbetsinkomst, ${threshold}) × ${rate * 100}% + max(0, arbetsinkomst - ${threshold}) × ${rateAboveThreshold * 100}%)`,
+        inputs: { arbetsinkomst: income, tröskel: threshold, max: maximum },
+        result: calculatedCredit
+      });
+    } else {
+      const pbb = params.prisBasbelopp;
+      const incomeInPbb = income / pbb;
+      const { value, interval, intervalStart } =
+        this.evaluatePrisbasbeloppSteps(params.earnedIncomeTaxCredit.under66, incomeInPbb);
+      const creditBase = value * pbb;
+      
+      steps.push({
+        description: `Jobbskatteavdrag, underlag (${this.describeInterval(interval, intervalStart)})`,
+        formula: `(${interval.base} + ${interval.rate} × (arbetsinkomst_pbb - ${intervalStart})) × prisbasbelopp`,
+        inputs: { arbetsinkomst_pbb: incomeInPbb, prisbasbelopp: pbb },
+        result: creditBase
+      });
+      
+      const municipalPercent = Number((municipalTaxRate * 100).toFixed(2));
+      calculatedCredit = Math.max(0, creditBase - basicDeduction) * municipalTaxRate;
+      
+      steps.push({
+        description: "Jobbskatteavdrag",
+        formula: `max(0, underlag - grundavdrag) × ${municipalPercent}%`,
+        inputs: { underlag: creditBase, grundavdrag: basicDeduction, procent: municipalPercent },
+        result: calculatedCredit
+      });
+
+      // Avtrappning for high incomes, in the years that have it
+      const reduction = params.earnedIncomeTaxCredit.highIncomeReduction;
+      if (reduction && incomeInPbb > reduction.fromPbb) {
+        const limit = reduction.fromPbb * pbb;
+        calculatedCredit = Math.max(0, calculatedCredit - (income - limit) * reduction.rate);
+
+        steps.push({
+          description: `Avtrappning av jobbskatteavdraget (${reduction.rate * 100}% över ${reduction.fromPbb} pbb)`,
+          formula: `max(0, jobbskatteavdrag - (arbetsinkomst - ${reduction.fromPbb} × prisbasbelopp) × ${reduction.rate * 100}%)`,
+          inputs: { arbetsinkomst: income, gräns: limit },
+          result: calculatedCredit
+        });
+      }
+    }
+    
+    const credit = Math.min(calculatedCredit, municipalTax);
     
     steps.push({
-      description: "Kapital över skattefritt belopp",
-      formula: "max(0, ISK_kapital - 150,000)",
-      inputs: { ISK_kapital: iskCapital, skattefritt: taxFreeAmount },
-      result: taxableCapital
+      description: "Jobbskatteavdrag (högst kommunalskatten)",
+      formula: "min(jobbskatteavdrag, kommunalskatt)",
+      inputs: { jobbskatteavdrag: calculatedCredit, kommunalskatt: municipalTax },
+      result: credit
     });
     
-    // Step 2: Calculate tax
-    const tax = taxableCapital * ISK_EFFECTIVE_TAX_RATE_2025;
+    return { credit, steps };
+  }
+
+  /**
+   * Resolve municipal tax rate and local fees. Without a known municipality the
+   * national average municipal tax rate is used and local fees are left out.
+   */
+  private getLocalTaxRates(
+    params: TaxYearParameters,
+    municipalityCode?: string,
+    isChurchMember?: boolean,
+    taxTable?: number
+  ): LocalTaxRates {
+    // Skattetabeller use one whole-percent rate that already covers the fees
+    if (taxTable !== undefined) {
+      return {
+        label: `skattetabell ${taxTable}`,
+        municipalTaxRate: taxTable / 100,
+        burialFeeRate: 0,
+        churchFeeRate: 0
+      };
+    }
+    
+    const municipality = municipalityCode ? getMunicipality(municipalityCode) : undefined;
+    
+    if (!municipality) {
+      return {
+        label: "rikssnitt",
+        municipalTaxRate: params.averageMunicipalTax,
+        burialFeeRate: 0,
+        churchFeeRate: 0
+      };
+    }
+    
+    return {
+      label: municipality.name,
+      municipalTaxRate: getLocalTaxRate(municipality),
+      burialFeeRate: municipality.burialFee,
+      churchFeeRate: isChurchMember ? municipality.churchFee : 0
+    };
+  }
+
+  /**
+   * Evaluate a formula expressed in prisbasbelopp steps for an income in pbb
+   */
+  private evaluatePrisbasbeloppSteps(steps: PrisbasbeloppStep[], incomeInPbb: number) {
+    let intervalStart = 0;
+    let interval = steps[steps.length - 1];
+    for (const step of steps) {
+      if (incomeInPbb <= step.upTo) {
+        interval = step;
+        break;
+      }
+      intervalStart = step.upTo;
+    }
+    
+    const value = interval.base + interval.rate * (incomeInPbb - intervalStart);
+    return { value, interval, intervalStart };
+  }
+
+  private describeInterval(interval: PrisbasbeloppStep, intervalStart: number): string {
+    const intervalEnd = Number.isFinite(interval.upTo) ? `${interval.upTo}` : '∞';
+    return `intervall ${intervalStart}–${intervalEnd} pbb`;
+  }
+
+  /**
+   * Calculate ISK schablonskatt. The kapitalunderlag is a quarter of the sum
+   * of the values at the start of each quarter and the deposits made during
+   * the year. Without quarterly values the year-start value is used for all four.
+   */
+  private calculateISKTax(inputs: TaxCalculationInputs, params: TaxYearParameters) {
+    const steps: CalculationStep[] = [];
+    const quarterlyValues = [0, 1, 2, 3].map(quarter =>
+      Math.max(0, inputs.iskQuarterlyValues?.[quarter] ?? inputs.iskCapital)
+    );
+    const deposits = Math.max(0, inputs.iskDeposits ?? 0);
+    
+    quarterlyValues.forEach((value, quarter) => {
+      steps.push({
+        description: `Marknadsvärde vid ingången av kvartal ${quarter + 1}`,
+        formula: `värde_kvartal_${quarter + 1}`,
+        inputs: { [`värde_kvartal_${quarter + 1}`]: value },
+        result: value
+      });
+    });
+    
+    const quarterlySum = quarterlyValues.reduce((sum, value) => sum + value, 0);
+    const capitalBase = (quarterlySum + deposits) / 4;
     
     steps.push({
-      description: "ISK schablonskatt (0.888% på kapital över fribelopp)",
-      formula: "beskattningsbart_kapital × 0.888%",
-      inputs: { beskattningsbart_kapital: taxableCapital, procent: 0.888 },
-      result: tax
+      description: "Kapitalunderlag",
+      formula: "(summa_kvartalsvärden + insättningar) / 4",
+      inputs: { summa_kvartalsvärden: quarterlySum, insättningar: deposits },
+      result: capitalBase
     });
     
-    const calculation: TransparentCalculation = {
-      category: "ISK Schablonskatt",
-      steps,
-      finalResult: tax
-    };
+    const result = this.calculateSchablonTax(
+      capitalBase, params, params.iskKfParameters.taxFreeAmount, "ISK schablonskatt", steps
+    );
     
-    return { tax, calculation };
+    return {
+      tax: result.tax,
+      capitalBase,
+      calculation: { category: "ISK Schablonskatt", steps, finalResult: result.tax }
+    };
   }
 
   /**
-   * Calculate KF avkastningsskatt (same calculation as ISK)
+   * Calculate KF avkastningsskatt (same calculation as ISK). The skattefri
+   * grundnivå is shared between ISK and KF, so only what ISK leaves unused applies.
    */
-  private calculateKFTax(kfCapital: number) {
-    // KF uses same calculation as ISK for 2025
-    return this.calculateISKTax(kfCapital);
+  private calculateKFTax(kfCapital: number, iskCapitalBase: number, params: TaxYearParameters) {
+    const steps: CalculationStep[] = [];
+    const remainingTaxFree = Math.max(0, params.iskKfParameters.taxFreeAmount - iskCapitalBase);
+    const result = this.calculateSchablonTax(
+      Math.max(0, kfCapital), params, remainingTaxFree, "KF avkastningsskatt", steps
+    );
+    
+    return {
+      tax: result.tax,
+      calculation: { category: "KF Avkastningsskatt", steps, finalResult: result.tax }
+    };
   }
 
   /**
-   * Calculate capital gains tax on securities
+   * Apply the tax-free amount and the schablon rate to a kapitalunderlag,
+   * appending the steps to the given list
    */
-  private calculateCapitalGainsTax(capitalGains: number): number {
-    return Math.max(0, capitalGains) * this.taxParams.capitalGainsTax.securities;
+  private calculateSchablonTax(
+    capitalBase: number,
+    params: TaxYearParameters,
+    taxFreeAmount: number,
+    label: string,
+    steps: CalculationStep[]
+  ) {
+    // Step 1: Apply tax-free amount
+    const taxableCapital = Math.max(0, capitalBase - taxFreeAmount);
+    
+    steps.push({
+      description: "Kapital över skattefritt belopp",
+      formula: "max(0, kapitalunderlag - skattefritt)",
+      inputs: { kapitalunderlag: capitalBase, skattefritt: taxFreeAmount },
+      result: taxableCapital
+    });
+    
+    // Step 2: Calculate tax
+    const effectiveRate = calculateISKTaxRate(params.iskKfParameters);
+    const effectivePercent = Number((effectiveRate * 100).toFixed(3));
+    const tax = taxableCapital * effectiveRate;
+    
+    steps.push({
+      description: `${label} (${effectivePercent}% på kapital över fribelopp, ${params.year})`,
+      formula: `beskattningsbart_kapital × ${effectivePercent}%`,
+      inputs: { beskattningsbart_kapital: taxableCapital, procent: effectivePercent },
+      result: tax
+    });
+    
+    return { tax };
   }
 
   /**
    * Calculate net income after all taxes
    */
-  calculateNetIncome(grossIncome: number, age: number, iskCapital: number = 0, kfCapital: number = 0): number {
+  calculateNetIncome(
+    grossIncome: number,
+    age: number,
+    iskCapital: number = 0,
+    kfCapital: number = 0,
+    year: number = DEFAULT_TAX_YEAR
+  ): number {
     const taxResult = this.calculateYearlyTax({
+      year,
       grossSalary: grossIncome,
       age,
       iskCapital,
@@ -251,10 +689,22 @@ export class SwedishTaxCalculator {
     return [
       { description: "Kommunalskatt (inkl. region)", amount: result.municipalTax },
       { description: "Statlig inkomstskatt", amount: result.stateTax },
+      { description: "Allmän pensionsavgift", amount: result.pensionFee },
+      { description: "Public service-avgift", amount: result.publicServiceFee },
+      { description: "Begravningsavgift", amount: result.burialFee },
+      { description: "Kyrkoavgift", amount: result.churchFee },
+      { description: "Skattereduktion allmän pensionsavgift", amount: -result.pensionFeeReduction },
+      { description: "Jobbskatteavdrag", amount: -result.earnedIncomeTaxCredit },
       { description: "ISK schablonskatt", amount: result.iskTax },
       { description: "KF avkastningsskatt", amount: result.kfTax },
-      { description: "Reavinstskatt", amount: result.capitalGainsTax },
-      { description: "Total skatt", amount: result.totalTax }
+      { description: "Egenavgifter", amount: result.selfEmploymentContributions },
+      { description: "Expansionsfondsskatt", amount: result.expansionsfondTax },
+      { description: "Skatt på inkomst av kapital", amount: result.capitalGainsTax },
+      { description: "Skattereduktion underskott av kapital", amount: -result.capitalDeficitReduction },
+      { description: "Total skatt", amount: result.totalTax },
+      // Housing costs charged on the slutskattebesked, not part of total tax
+      { description: "Kommunal fastighetsavgift", amount: result.propertyFee },
+      { description: "Statlig fastighetsskatt", amount: result.propertyTax }
     ];
   }
 }
@@ -0,0 +1,86 @@
+// ============================================================================
+// TAX SOLVER MODULE
+// Solves for the gross income that gives a target net income
+// ============================================================================
+
+import { taxCalculator, TaxCalculationResult } from './TaxCalculator';
+
+export interface GrossIncomeSolverInputs {
+  targetNetIncome: number; // Net income per year after tax
+  incomeType: 'salary' | 'pension';
+  age: number;
+  year?: number; // Calendar (income) year, defaults to DEFAULT_TAX_YEAR
+  municipalityCode?: string;
+  isChurchMember?: boolean;
+}
+
+export interface GrossIncomeSolverResult {
+  grossIncome: number; // Gross income per year, whole kronor
+  netIncome: number; // Net income per year at grossIncome (at least the target)
+  taxResult: TaxCalculationResult;
+}
+
+// Solver stops when the search interval is narrower than this (kr)
+const SOLVER_PRECISION = 1;
+const MAX_ITERATIONS = 100;
+
+export class TaxSolver {
+  /**
+   * Find the lowest gross salary or pension (in whole kronor) that gives at
+   * least the target net income. Net income rises with gross income apart
+   * from small dips at the hundred-kronor rounding steps, so bisection on
+   * gross income converges on the right amount.
+   */
+  solveGrossIncome(inputs: GrossIncomeSolverInputs): GrossIncomeSolverResult {
+    const target = Math.max(0, inputs.targetNetIncome);
+    const calculate = (grossIncome: number) => this.calculateForGross(grossIncome, inputs);
+
+    if (target === 0) {
+      const taxResult = calculate(0);
+      return { grossIncome: 0, netIncome: taxResult.netIncome, taxResult };
+    }
+
+    // Gross is never below net; widen the upper bound until it is enough
+    let low = target;
+    let high = target * 2;
+    for (let i = 0; i < MAX_ITERATIONS && calculate(high).netIncome < target; i++) {
+      low = high;
+      high *= 2;
+    }
+
+    for (let i = 0; i < MAX_ITERATIONS && high - low > SOLVER_PRECISION; i++) {
+      const middle = (low + high) / 2;
+      if (calculate(middle).netIncome >= target) {
+        high = middle;
+      } else {
+        low = middle;
+      }
+    }
+
+    // Round up to whole kronor, stepping up if rounding lands in a dip
+    let grossIncome = Math.ceil(high);
+    let taxResult = calculate(grossIncome);
+    while (taxResult.netIncome < target) {
+      grossIncome += 1;
+      taxResult = calculate(grossIncome);
+    }
+
+    return { grossIncome, netIncome: taxResult.netIncome, taxResult };
+  }
+
+  private calculateForGross(grossIncome: number, inputs: GrossIncomeSolverInputs): TaxCalculationResult {
+    return taxCalculator.calculateYearlyTax({
+      year: inputs.year,
+      grossSalary: inputs.incomeType === 'salary' ? grossIncome : 0,
+      pensionIncome: inputs.incomeType === 'pension' ? grossIncome : 0,
+      age: inputs.age,
+      municipalityCode: inputs.municipalityCode,
+      isChurchMember: inputs.isChurchMember,
+      iskCapital: 0,
+      kfCapital: 0
+    });
+  }
+}
+
+// Export singleton instance
+export const taxSolver = new TaxSolver();
@@ -0,0 +1,132 @@
+// ============================================================================
+// WITHDRAWAL SCHEDULE CALCULATOR MODULE
+// Handles uttag over time: partial allmän pension (25/50/75/100%) and
+// tjänste- and privat pension paid for life or over a fixed term
+// ============================================================================
+
+import { CalculationStep, TransparentCalculation } from '../../types';
+import { PensionAccount, PensionSettings, WithdrawalSegment } from '../../types/pension';
+
+export interface AccountPayoutResult {
+  monthlyAmount: number;
+  segment?: WithdrawalSegment; // The segment paying this year, if any
+  calculation: TransparentCalculation;
+}
+
+export class WithdrawalScheduleCalculator {
+  /**
+   * The account's schedule, or a single lifelong segment at 100% from the
+   * start age for accounts without one
+   */
+  getSchedule(account: PensionAccount): WithdrawalSegment[] {
+    const { schedule, startAge } = account.withdrawalSettings;
+    return schedule && schedule.length > 0 ? schedule : [{ fromAge: startAge, percentage: 100 }];
+  }
+
+  /**
+   * Last age (exclusive) of a segment: the end of a fixed term, the given
+   * to-age or never
+   */
+  getSegmentEndAge(segment: WithdrawalSegment): number {
+    if (segment.termYears) {
+      return segment.fromAge + segment.termYears;
+    }
+    return segment.toAge ?? Infinity;
+  }
+
+  getActiveSegment(schedule: WithdrawalSegment[], age: number): WithdrawalSegment | undefined {
+    return schedule.find(segment => age >= segment.fromAge && age < this.getSegmentEndAge(segment));
+  }
+
+  isWithdrawing(account: PensionAccount, age: number): boolean {
+    return this.getActiveSegment(this.getSchedule(account), age) !== undefined;
+  }
+
+  /**
+   * Share of the allmän pension taken at an age (0–1). Without a schedule
+   * it is all of it from the withdrawal start age.
+   */
+  getGeneralPensionShare(generalPension: PensionSettings['generalPension'], age: number): number {
+    const schedule = generalPension.withdrawalSchedule;
+    if (!schedule || schedule.length === 0) {
+      return age >= generalPension.withdrawalStartAge ? 1 : 0;
+    }
+    if (age < generalPension.withdrawalStartAge) {
+      return 0;
+    }
+    const segment = this.getActiveSegment(schedule, age);
+    return segment ? segment.percentage / 100 : 0;
+  }
+
+  /**
+   * Monthly payout from a tjänste- or privat account. A fixed amount or the
+   * expected pension is scaled by the segment's percentage. Otherwise the
+   * capital is spread over the rest of a fixed term, or over the remaining
+   * life expectancy for a lifelong payout (4% per year when the account is
+   * paid until the capital runs out).
+   */
+  calculateAccountPayout(account: PensionAccount, age: number, lifeExpectancy: number): AccountPayoutResult {
+    const steps: CalculationStep[] = [];
+    const segment = this.getActiveSegment(this.getSchedule(account), age);
+    const settings = account.withdrawalSettings;
+
+    if (!segment) {
+      return {
+        monthlyAmount: 0,
+        calculation: { category: account.name, steps, finalResult: 0 }
+      };
+    }
+
+    const share = segment.percentage / 100;
+    const capital = Math.max(0, account.currentValue);
+    const givenAmount = settings.monthlyAmount > 0
+      ? settings.monthlyAmount
+      : account.expectedMonthlyPension ?? 0;
+    let monthlyAmount: number;
+
+    if (givenAmount > 0) {
+      monthlyAmount = givenAmount * share;
+      steps.push({
+        description: `Uttag per månad från ${account.name} (${segment.percentage}%)`,
+        formula: `${settings.monthlyAmount > 0 ? "valt_månadsbelopp" : "förväntad_pension"} × ${segment.percentage}%`,
+        inputs: { belopp: givenAmount },
+        result: monthlyAmount
+      });
+    } else if (segment.termYears) {
+      const remainingYears = Math.max(1, this.getSegmentEndAge(segment) - age);
+      monthlyAmount = capital * share / (remainingYears * 12);
+      steps.push({
+        description: `Uttag per månad från ${account.name} (${segment.termYears} års utbetalning, ${segment.percentage}%)`,
+        formula: `kapital × ${segment.percentage}% / (återstående_år × 12)`,
+        inputs: { kapital: capital, återstående_år: remainingYears },
+        result: monthlyAmount
+      });
+    } else if (settings.isLifelong) {
+      const remainingYears = Math.max(1, lifeExpectancy - age);
+      monthlyAmount = capital * share / (remainingYears * 12);
+      steps.push({
+        description: `Uttag per månad från ${account.name} (livsvarigt, ${segment.percentage}%)`,
+        formula: `kapital × ${segment.percentage}% / (återstående_år × 12)`,
+        inputs: { kapital: capital, återstående_år: remainingYears },
+        result: monthlyAmount
+      });
+    } else {
+      monthlyAmount = capital * 0.04 * share / 12;
+      steps.push({
+        description: `Uttag per månad från ${account.name} (tills kapitalet är slut, ${segment.percentage}%)`,
+        formula: `kapital × 4% × ${segment.percentage}% / 12`,
+        inputs: { kapital: capital },
+        result: monthlyAmount
+      });
+    }
+
+    return {
+      monthlyAmount,
+      segment,
+      calculation: { category: account.name, steps, finalResult: monthlyAmount }
+    };
+  }
+}
+
+// Export singleton instance
+export const withdrawalScheduleCalculator = new WithdrawalScheduleCalculator();
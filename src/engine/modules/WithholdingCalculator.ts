@@ -0,0 +1,251 @@
+// ============================================================================
+// WITHHOLDING CALCULATOR MODULE
+// Handles monthly preliminärskatt from skattetabeller and compares it with the
+// final yearly tax to give återbetalning or kvarskatt
+// ============================================================================
+
+import { CalculationStep, TransparentCalculation } from '../../types';
+import { taxCalculator, TaxCalculationResult } from './TaxCalculator';
+import { getMunicipality, getLocalTaxRate } from '../swedish-parameters/Municipalities2025';
+import { getTaxParameters, DEFAULT_TAX_YEAR } from '../swedish-parameters/TaxParameterRegistry';
+
+export type WithholdingIncomeType = 'salary' | 'pension';
+
+export interface IncomePayer {
+  name: string; // E.g. "Arbetsgivare", "Pensionsmyndigheten"
+  monthlyAmount: number; // Gross payment per month
+  incomeType: WithholdingIncomeType;
+  usesTaxTable?: boolean; // Defaults to true for the first payer and false (sidoinkomst) for the rest
+}
+
+export interface WithholdingInputs {
+  payers: IncomePayer[];
+  age: number; // Age at the end of the income year
+  year?: number; // Calendar (income) year, defaults to DEFAULT_TAX_YEAR
+  municipalityCode?: string;
+  isChurchMember?: boolean;
+  otherPreliminaryTax?: number; // Paid besides the payers, e.g. F-skatt and tax withheld on dividends
+  finalTax?: number; // Slutlig skatt from the caller's full tax calculation, defaults to the tax on the payers' income
+}
+
+export interface PayerWithholding {
+  name: string;
+  monthlyAmount: number;
+  incomeType: WithholdingIncomeType;
+  monthlyTax: number; // Preliminärskatt withheld each month
+  method: 'skattetabell' | 'sidoinkomst';
+  column?: number; // Skattetabell column, only for table withholding
+}
+
+export interface WithholdingResult {
+  taxTable: number; // Skattetabell number (whole-percent local rate)
+  payers: PayerWithholding[];
+  preliminaryTax: number; // Withheld over the year
+  finalTax: number; // Tax on the combined income (slutlig skatt)
+  difference: number; // Positive = återbetalning, negative = kvarskatt
+  finalTaxResult?: TaxCalculationResult; // Only when the final tax is calculated here
+  calculation: TransparentCalculation;
+}
+
+// Skattetabeller give the tax for income bands of this width (kr per month)
+const TABLE_BAND_WIDTH = 100;
+
+// Flat withholding for payers that are not the main payer (sidoinkomst)
+const SECONDARY_INCOME_RATE = 0.30;
+
+// Age from which the pensioner columns and the higher grundavdrag apply
+const TABLE_PENSIONER_AGE = 66;
+
+export class WithholdingCalculator {
+  /**
+   * Simulate one year of preliminärskatt and compare it with the final tax.
+   * Each payer withholds as if its payment were the only income: table payers
+   * use the skattetabell column for the person's age and income type, other
+   * payers withhold 30%. Several table payers each give the full grundavdrag
+   * and ignore statlig skatt on the combined income, which is why kvarskatt is
+   * common for people with several pension payers. A caller with income
+   * besides the payers passes its own final tax and other preliminary tax.
+   */
+  simulateWithholding(inputs: WithholdingInputs): WithholdingResult {
+    const steps: CalculationStep[] = [];
+    const taxTable = this.getTableNumber(inputs.municipalityCode, inputs.isChurchMember, inputs.year);
+
+    steps.push({
+      description: `Skattetabell ${taxTable} (kommunal skattesats med avgifter, avrundad till hela procent)`,
+      formula: "avrunda(kommunalskatt + begravningsavgift + kyrkoavgift)",
+      inputs: { skattetabell: taxTable },
+      result: taxTable
+    });
+
+    const payers = inputs.payers.map((payer, index): PayerWithholding => {
+      const monthlyAmount = Math.max(0, payer.monthlyAmount);
+      const usesTaxTable = payer.usesTaxTable ?? index === 0;
+
+      if (!usesTaxTable) {
+        const monthlyTax = Math.round(monthlyAmount * SECONDARY_INCOME_RATE);
+
+        steps.push({
+          description: `${payer.name}: skatteavdrag för sidoinkomst (${SECONDARY_INCOME_RATE * 100}%)`,
+          formula: `månadsbelopp × ${SECONDARY_INCOME_RATE * 100}%`,
+          inputs: { månadsbelopp: monthlyAmount, procent: SECONDARY_INCOME_RATE * 100 },
+          result: monthlyTax
+        });
+
+        return { name: payer.name, monthlyAmount, incomeType: payer.incomeType, monthlyTax, method: 'sidoinkomst' };
+      }
+
+      const column = this.getTableColumn(inputs.age, payer.incomeType);
+      const monthlyTax = this.calculateTableTax(monthlyAmount, payer.incomeType, inputs.age, taxTable, inputs.year);
+
+      steps.push({
+        description: `${payer.name}: skatteavdrag enligt skattetabell ${taxTable}, kolumn ${column}`,
+        formula: "tabellskatt(månadsbelopp)",
+        inputs: { månadsbelopp: monthlyAmount, skattetabell: taxTable, kolumn: column },
+        result: monthlyTax
+      });
+
+      return {
+        name: payer.name,
+        monthlyAmount,
+        incomeType: payer.incomeType,
+        monthlyTax,
+        method: 'skattetabell',
+        column
+      };
+    });
+
+    // Preliminärskatt withheld during the year
+    const monthlyWithholding = payers.reduce((sum, payer) => sum + payer.monthlyTax, 0);
+    const otherPreliminaryTax = Math.max(0, inputs.otherPreliminaryTax ?? 0);
+    const preliminaryTax = monthlyWithholding * 12 + otherPreliminaryTax;
+
+    steps.push({
+      description: "Preliminärskatt för året",
+      formula: otherPreliminaryTax > 0
+        ? "summa månatliga skatteavdrag × 12 + övrig preliminärskatt"
+        : "summa månatliga skatteavdrag × 12",
+      inputs: otherPreliminaryTax > 0
+        ? { skatteavdrag_per_månad: monthlyWithholding, övrig_preliminärskatt: otherPreliminaryTax }
+        : { skatteavdrag_per_månad: monthlyWithholding },
+      result: preliminaryTax
+    });
+
+    // Slutlig skatt on the combined income
+    let finalTax: number;
+    let finalTaxResult: TaxCalculationResult | undefined;
+
+    if (inputs.finalTax !== undefined) {
+      finalTax = inputs.finalTax;
+
+      steps.push({
+        description: "Slutlig skatt enligt årets skatteberäkning",
+        formula: "slutlig skatt",
+        inputs: { slutlig_skatt: finalTax },
+        result: finalTax
+      });
+    } else {
+      const sumIncome = (type: WithholdingIncomeType) => payers
+        .filter(payer => payer.incomeType === type)
+        .reduce((sum, payer) => sum + payer.monthlyAmount * 12, 0);
+
+      finalTaxResult = taxCalculator.calculateYearlyTax({
+        year: inputs.year,
+        grossSalary: sumIncome('salary'),
+        pensionIncome: sumIncome('pension'),
+        age: inputs.age,
+        municipalityCode: inputs.municipalityCode,
+        isChurchMember: inputs.isChurchMember,
+        iskCapital: 0,
+        kfCapital: 0
+      });
+      finalTax = finalTaxResult.totalTax;
+
+      steps.push({
+        description: "Slutlig skatt på den sammanlagda inkomsten",
+        formula: "skatt(lön + pension)",
+        inputs: { lön: sumIncome('salary'), pension: sumIncome('pension') },
+        result: finalTax
+      });
+    }
+
+    const difference = preliminaryTax - finalTax;
+
+    steps.push({
+      description: difference >= 0 ? "Återbetalning av skatt" : "Kvarskatt att betala",
+      formula: "preliminärskatt - slutlig skatt",
+      inputs: { preliminärskatt: preliminaryTax, slutlig_skatt: finalTax },
+      result: difference
+    });
+
+    const calculation: TransparentCalculation = {
+      category: "Preliminärskatt",
+      steps,
+      finalResult: difference
+    };
+
+    return { taxTable, payers, preliminaryTax, finalTax, difference, finalTaxResult, calculation };
+  }
+
+  /**
+   * Skattetabell number: the total local rate including begravningsavgift and
+   * kyrkoavgift, rounded to whole percent. Without a known municipality the
+   * national average municipal tax rate is used.
+   */
+  getTableNumber(municipalityCode?: string, isChurchMember?: boolean, year?: number): number {
+    const municipality = municipalityCode ? getMunicipality(municipalityCode) : undefined;
+
+    if (!municipality) {
+      return Math.round(getTaxParameters(year ?? DEFAULT_TAX_YEAR).averageMunicipalTax * 100);
+    }
+
+    const churchFee = isChurchMember ? municipality.churchFee : 0;
+    return Math.round((getLocalTaxRate(municipality) + municipality.burialFee + churchFee) * 100);
+  }
+
+  /**
+   * Skattetabell column by age and income type:
+   * 1 = lön under 66, 2 = pension från 66, 3 = pension under 66, 4 = lön från 66
+   */
+  getTableColumn(age: number, incomeType: WithholdingIncomeType): number {
+    const isPensionerAge = age >= TABLE_PENSIONER_AGE;
+
+    if (incomeType === 'salary') {
+      return isPensionerAge ? 4 : 1;
+    }
+    return isPensionerAge ? 2 : 3;
+  }
+
+  /**
+   * Monthly table tax. Skattetabeller are built on the yearly tax for the
+   * middle of each income band, assuming the same income every month.
+   */
+  calculateTableTax(
+    monthlyAmount: number,
+    incomeType: WithholdingIncomeType,
+    age: number,
+    taxTable: number,
+    year?: number
+  ): number {
+    if (monthlyAmount <= 0) {
+      return 0;
+    }
+
+    const bandStart = Math.floor(monthlyAmount / TABLE_BAND_WIDTH) * TABLE_BAND_WIDTH;
+    const yearlyIncome = (bandStart + TABLE_BAND_WIDTH / 2) * 12;
+
+    const result = taxCalculator.calculateYearlyTax({
+      year,
+      grossSalary: incomeType === 'salary' ? yearlyIncome : 0,
+      pensionIncome: incomeType === 'pension' ? yearlyIncome : 0,
+      age,
+      taxTable,
+      iskCapital: 0,
+      kfCapital: 0
+    });
+
+    return Math.round(result.totalTax / 12);
+  }
+}
+
+// Export singleton instance
+export const withholdingCalculator = new WithholdingCalculator();
@@ -0,0 +1,444 @@
+// ============================================================================
+// SWEDISH MUNICIPALITIES - LOCAL TAX RATES 2025
+// Kommunalskatt, regionskatt, begravningsavgift and kyrkoavgift for all 290
+// municipalities for income year 2025. Refresh from SCB's table of
+// skattesatser when a new income year is added.
+// ============================================================================
+
+import { Municipality, Diocese } from '../../types';
+
+// Regional tax rate (regionskatt) per county, in percent. Region Gotland levies
+// a single combined rate, so its whole rate is listed as municipal.
+const COUNTIES: Record<string, { name: string; regionalRate: number; diocese: Diocese }> = {
+  '01': { name: 'Stockholms län', regionalRate: 12.08, diocese: 'Stockholm' },
+  '03': { name: 'Uppsala län', regionalRate: 11.71, diocese: 'Uppsala' },
+  '04': { name: 'Södermanlands län', regionalRate: 11.33, diocese: 'Strängnäs' },
+  '05': { name: 'Östergötlands län', regionalRate: 11.55, diocese: 'Linköping' },
+  '06': { name: 'Jönköpings län', regionalRate: 11.76, diocese: 'Växjö' },
+  '07': { name: 'Kronobergs län', regionalRate: 11.90, diocese: 'Växjö' },
+  '08': { name: 'Kalmar län', regionalRate: 11.37, diocese: 'Växjö' },
+  '09': { name: 'Gotlands län', regionalRate: 0.00, diocese: 'Visby' },
+  '10': { name: 'Blekinge län', regionalRate: 11.69, diocese: 'Lund' },
+  '12': { name: 'Skåne län', regionalRate: 11.18, diocese: 'Lund' },
+  '13': { name: 'Hallands län', regionalRate: 11.40, diocese: 'Göteborg' },
+  '14': { name: 'Västra Götalands län', regionalRate: 11.48, diocese: 'Göteborg' },
+  '17': { name: 'Värmlands län', regionalRate: 11.68, diocese: 'Karlstad' },
+  '18': { name: 'Örebro län', regionalRate: 12.30, diocese: 'Strängnäs' },
+  '19': { name: 'Västmanlands län', regionalRate: 10.88, diocese: 'Västerås' },
+  '20': { name: 'Dalarnas län', regionalRate: 11.64, diocese: 'Västerås' },
+  '21': { name: 'Gävleborgs län', regionalRate: 11.51, diocese: 'Uppsala' },
+  '22': { name: 'Västernorrlands län', regionalRate: 11.88, diocese: 'Härnösand' },
+  '23': { name: 'Jämtlands län', regionalRate: 12.45, diocese: 'Härnösand' },
+  '24': { name: 'Västerbottens län', regionalRate: 11.40, diocese: 'Luleå' },
+  '25': { name: 'Norrbottens län', regionalRate: 11.20, diocese: 'Luleå' },
+};
+
+// Municipalities belonging to a different diocese (stift) than most of their county
+const DIOCESE_OVERRIDES: Record<string, Diocese> = {
+  '0188': 'Uppsala', // Norrtälje
+  '0883': 'Linköping', // Västervik
+  '0884': 'Linköping', // Vimmerby
+  '1438': 'Karlstad', // Dals-Ed
+  '1439': 'Karlstad', // Färgelanda
+  '1460': 'Karlstad', // Bengtsfors
+  '1461': 'Karlstad', // Mellerud
+  '1492': 'Karlstad', // Åmål
+  '1442': 'Skara', // Vårgårda
+  '1443': 'Skara', // Bollebygd
+  '1444': 'Skara', // Grästorp
+  '1445': 'Skara', // Essunga
+  '1446': 'Skara', // Karlsborg
+  '1447': 'Skara', // Gullspång
+  '1452': 'Skara', // Tranemo
+  '1463': 'Skara', // Mark
+  '1465': 'Skara', // Svenljunga
+  '1466': 'Skara', // Herrljunga
+  '1470': 'Skara', // Vara
+  '1471': 'Skara', // Götene
+  '1472': 'Skara', // Tibro
+  '1473': 'Skara', // Töreboda
+  '1490': 'Skara', // Borås
+  '1491': 'Skara', // Ulricehamn
+  '1493': 'Skara', // Mariestad
+  '1494': 'Skara', // Lidköping
+  '1495': 'Skara', // Skara
+  '1496': 'Skara', // Skövde
+  '1497': 'Skara', // Hjo
+  '1498': 'Skara', // Tidaholm
+  '1499': 'Skara', // Falköping
+};
+
+// Average kyrkoavgift per diocese for members of Svenska kyrkan, in percent.
+// The exact fee varies by parish (församling) within the diocese.
+export const CHURCH_FEE_BY_DIOCESE: Record<Diocese, number> = {
+  'Stockholm': 0.99,
+  'Uppsala': 1.19,
+  'Linköping': 1.22,
+  'Skara': 1.31,
+  'Strängnäs': 1.20,
+  'Västerås': 1.17,
+  'Växjö': 1.28,
+  'Lund': 1.09,
+  'Göteborg': 1.17,
+  'Karlstad': 1.32,
+  'Härnösand': 1.26,
+  'Luleå': 1.19,
+  'Visby': 1.30,
+};
+
+// Begravningsavgift is set nationally, except in Stockholm and Tranås which
+// manage burial services themselves. In percent.
+export const NATIONAL_BURIAL_FEE = 0.292;
+const BURIAL_FEE_OVERRIDES: Record<string, number> = {
+  '0180': 0.075, // Stockholm
+  '0687': 0.24, // Tranås
+};
+
+// [kommunkod, name, municipal tax rate in percent]
+const MUNICIPAL_RATES: Array<[string, string, number]> = [
+  // Stockholms län
+  ['0114', 'Upplands Väsby', 19.05],
+  ['0115', 'Vallentuna', 19.18],
+  ['0117', 'Österåker', 16.90],
+  ['0120', 'Värmdö', 18.73],
+  ['0123', 'Järfälla', 18.77],
+  ['0125', 'Ekerö', 18.79],
+  ['0126', 'Huddinge', 19.52],
+  ['0127', 'Botkyrka', 20.00],
+  ['0128', 'Salem', 19.40],
+  ['0136', 'Haninge', 19.73],
+  ['0138', 'Tyresö', 19.58],
+  ['0139', 'Upplands-Bro', 19.70],
+  ['0140', 'Nykvarn', 20.30],
+  ['0160', 'Täby', 17.55],
+  ['0162', 'Danderyd', 18.50],
+  ['0163', 'Sollentuna', 18.17],
+  ['0180', 'Stockholm', 17.74],
+  ['0181', 'Södertälje', 20.24],
+  ['0182', 'Nacka', 17.88],
+  ['0183', 'Sundbyberg', 19.10],
+  ['0184', 'Solna', 17.12],
+  ['0186', 'Lidingö', 17.94],
+  ['0187', 'Vaxholm', 19.62],
+  ['0188', 'Norrtälje', 19.95],
+  ['0191', 'Sigtuna', 20.32],
+  ['0192', 'Nynäshamn', 20.32],
+  // Uppsala län
+  ['0305', 'Håbo', 21.00],
+  ['0319', 'Älvkarleby', 22.14],
+  ['0330', 'Knivsta', 21.04],
+  ['0331', 'Heby', 22.45],
+  ['0360', 'Tierp', 22.03],
+  ['0380', 'Uppsala', 21.14],
+  ['0381', 'Enköping', 21.45],
+  ['0382', 'Östhammar', 21.70],
+  // Södermanlands län
+  ['0428', 'Vingåker', 22.40],
+  ['0461', 'Gnesta', 21.66],
+  ['0480', 'Nyköping', 21.78],
+  ['0481', 'Oxelösund', 22.53],
+  ['0482', 'Flen', 22.39],
+  ['0483', 'Katrineholm', 22.05],
+  ['0484', 'Eskilstuna', 22.09],
+  ['0486', 'Strängnäs', 21.23],
+  ['0488', 'Trosa', 21.05],
+  // Östergötlands län
+  ['0509', 'Ödeshög', 22.41],
+  ['0512', 'Ydre', 22.15],
+  ['0513', 'Kinda', 22.15],
+  ['0560', 'Boxholm', 22.30],
+  ['0561', 'Åtvidaberg', 22.30],
+  ['0562', 'Finspång', 22.00],
+  ['0563', 'Valdemarsvik', 22.55],
+  ['0580', 'Linköping', 20.20],
+  ['0581', 'Norrköping', 21.50],
+  ['0582', 'Söderköping', 21.85],
+  ['0583', 'Motala', 21.60],
+  ['0584', 'Vadstena', 21.85],
+  ['0586', 'Mjölby', 21.24],
+  // Jönköpings län
+  ['0604', 'Aneby', 21.49],
+  ['0617', 'Gnosjö', 21.34],
+  ['0642', 'Mullsjö', 21.84],
+  ['0643', 'Habo', 21.29],
+  ['0662', 'Gislaved', 21.54],
+  ['0665', 'Vaggeryd', 21.15],
+  ['0680', 'Jönköping', 21.24],
+  ['0682', 'Nässjö', 21.99],
+  ['0683', 'Värnamo', 21.30],
+  ['0684', 'Sävsjö', 21.79],
+  ['0685', 'Vetlanda', 21.74],
+  ['0686', 'Eksjö', 21.99],
+  ['0687', 'Tranås', 21.69],
+  // Kronobergs län
+  ['0760', 'Uppvidinge', 21.76],
+  ['0761', 'Lessebo', 21.96],
+  ['0763', 'Tingsryd', 21.60],
+  ['0764', 'Alvesta', 21.56],
+  ['0765', 'Älmhult', 21.29],
+  ['0767', 'Markaryd', 21.31],
+  ['0780', 'Växjö', 20.19],
+  ['0781', 'Ljungby', 21.22],
+  // Kalmar län
+  ['0821', 'Högsby', 22.96],
+  ['0834', 'Torsås', 22.37],
+  ['0840', 'Mörbylånga', 21.98],
+  ['0860', 'Hultsfred', 22.48],
+  ['0861', 'Mönsterås', 22.36],
+  ['0862', 'Emmaboda', 22.31],
+  ['0880', 'Kalmar', 21.41],
+  ['0881', 'Nybro', 22.36],
+  ['0882', 'Oskarshamn', 22.02],
+  ['0883', 'Västervik', 22.41],
+  ['0884', 'Vimmerby', 22.01],
+  ['0885', 'Borgholm', 22.18],
+  // Gotlands län
+  ['0980', 'Gotland', 33.60],
+  // Blekinge län
+  ['1060', 'Olofström', 22.51],
+  ['1080', 'Karlskrona', 21.64],
+  ['1081', 'Ronneby', 22.11],
+  ['1082', 'Karlshamn', 22.12],
+  ['1083', 'Sölvesborg', 21.56],
+  // Skåne län
+  ['1214', 'Svalöv', 21.48],
+  ['1230', 'Staffanstorp', 19.24],
+  ['1231', 'Burlöv', 20.74],
+  ['1233', 'Vellinge', 19.10],
+  ['1256', 'Östra Göinge', 21.66],
+  ['1257', 'Örkelljunga', 21.29],
+  ['1260', 'Bjuv', 21.99],
+  ['1261', 'Kävlinge', 19.90],
+  ['1262', 'Lomma', 19.83],
+  ['1263', 'Svedala', 19.69],
+  ['1264', 'Skurup', 20.55],
+  ['1265', 'Sjöbo', 20.46],
+  ['1266', 'Hörby', 21.03],
+  ['1267', 'Höör', 21.31],
+  ['1270', 'Tomelilla', 21.28],
+  ['1272', 'Bromölla', 21.69],
+  ['1273', 'Osby', 21.79],
+  ['1275', 'Perstorp', 21.54],
+  ['1276', 'Klippan', 21.38],
+  ['1277', 'Åstorp', 20.99],
+  ['1278', 'Båstad', 20.21],
+  ['1280', 'Malmö', 21.24],
+  ['1281', 'Lund', 21.24],
+  ['1282', 'Landskrona', 21.14],
+  ['1283', 'Helsingborg', 20.21],
+  ['1284', 'Höganäs', 20.33],
+  ['1285', 'Eslöv', 21.29],
+  ['1286', 'Ystad', 20.74],
+  ['1287', 'Trelleborg', 20.30],
+  ['1290', 'Kristianstad', 21.29],
+  ['1291', 'Simrishamn', 20.99],
+  ['1292', 'Ängelholm', 20.20],
+  ['1293', 'Hässleholm', 21.79],
+  // Hallands län
+  ['1315', 'Hylte', 22.29],
+  ['1380', 'Halmstad', 20.97],
+  ['1381', 'Laholm', 21.44],
+  ['1382', 'Falkenberg', 20.84],
+  ['1383', 'Varberg', 20.49],
+  ['1384', 'Kungsbacka', 19.51],
+  // Västra Götalands län
+  ['1401', 'Härryda', 20.57],
+  ['1402', 'Partille', 20.79],
+  ['1407', 'Öckerö', 21.09],
+  ['1415', 'Stenungsund', 20.83],
+  ['1419', 'Tjörn', 21.50],
+  ['1421', 'Orust', 21.76],
+  ['1427', 'Sotenäs', 21.19],
+  ['1430', 'Munkedal', 22.36],
+  ['1435', 'Tanum', 21.56],
+  ['1438', 'Dals-Ed', 22.86],
+  ['1439', 'Färgelanda', 22.51],
+  ['1440', 'Ale', 21.43],
+  ['1441', 'Lerum', 20.92],
+  ['1442', 'Vårgårda', 21.61],
+  ['1443', 'Bollebygd', 21.70],
+  ['1444', 'Grästorp', 21.85],
+  ['1445', 'Essunga', 21.50],
+  ['1446', 'Karlsborg', 21.84],
+  ['1447', 'Gullspång', 22.61],
+  ['1452', 'Tranemo', 21.50],
+  ['1460', 'Bengtsfors', 22.96],
+  ['1461', 'Mellerud', 22.91],
+  ['1462', 'Lilla Edet', 22.31],
+  ['1463', 'Mark', 21.70],
+  ['1465', 'Svenljunga', 21.68],
+  ['1466', 'Herrljunga', 21.61],
+  ['1470', 'Vara', 21.54],
+  ['1471', 'Götene', 21.57],
+  ['1472', 'Tibro', 22.31],
+  ['1473', 'Töreboda', 22.41],
+  ['1480', 'Göteborg', 21.12],
+  ['1481', 'Mölndal', 20.73],
+  ['1482', 'Kungälv', 21.10],
+  ['1484', 'Lysekil', 22.61],
+  ['1485', 'Uddevalla', 22.06],
+  ['1486', 'Strömstad', 21.31],
+  ['1487', 'Vänersborg', 22.35],
+  ['1488', 'Trollhättan', 22.16],
+  ['1489', 'Alingsås', 21.36],
+  ['1490', 'Borås', 21.31],
+  ['1491', 'Ulricehamn', 21.40],
+  ['1492', 'Åmål', 22.84],
+  ['1493', 'Mariestad', 21.79],
+  ['1494', 'Lidköping', 21.44],
+  ['1495', 'Skara', 21.69],
+  ['1496', 'Skövde', 21.10],
+  ['1497', 'Hjo', 21.91],
+  ['1498', 'Tidaholm', 22.19],
+  ['1499', 'Falköping', 21.74],
+  // Värmlands län
+  ['1715', 'Kil', 22.04],
+  ['1730', 'Eda', 22.60],
+  ['1737', 'Torsby', 22.76],
+  ['1760', 'Storfors', 22.61],
+  ['1761', 'Hammarö', 21.50],
+  ['1762', 'Munkfors', 22.81],
+  ['1763', 'Forshaga', 22.16],
+  ['1764', 'Grums', 22.41],
+  ['1765', 'Årjäng', 22.51],
+  ['1766', 'Sunne', 22.18],
+  ['1780', 'Karlstad', 21.20],
+  ['1781', 'Kristinehamn', 22.04],
+  ['1782', 'Filipstad', 22.76],
+  ['1783', 'Hagfors', 22.76],
+  ['1784', 'Arvika', 22.33],
+  ['1785', 'Säffle', 22.70],
+  // Örebro län
+  ['1814', 'Lekeberg', 21.30],
+  ['1860', 'Laxå', 22.15],
+  ['1861', 'Hallsberg', 21.75],
+  ['1862', 'Degerfors', 22.60],
+  ['1863', 'Hällefors', 22.65],
+  ['1864', 'Ljusnarsberg', 22.60],
+  ['1880', 'Örebro', 20.30],
+  ['1881', 'Kumla', 21.15],
+  ['1882', 'Askersund', 21.85],
+  ['1883', 'Karlskoga', 21.80],
+  ['1884', 'Nora', 21.85],
+  ['1885', 'Lindesberg', 21.95],
+  // Västmanlands län
+  ['1904', 'Skinnskatteberg', 22.91],
+  ['1907', 'Surahammar', 22.41],
+  ['1960', 'Kungsör', 21.91],
+  ['1961', 'Hallstahammar', 22.41],
+  ['1962', 'Norberg', 22.85],
+  ['1980', 'Västerås', 20.86],
+  ['1981', 'Sala', 22.25],
+  ['1982', 'Fagersta', 22.40],
+  ['1983', 'Köping', 22.21],
+  ['1984', 'Arboga', 22.27],
+  // Dalarnas län
+  ['2021', 'Vansbro', 22.86],
+  ['2023', 'Malung-Sälen', 22.66],
+  ['2026', 'Gagnef', 22.46],
+  ['2029', 'Leksand', 22.16],
+  ['2031', 'Rättvik', 22.51],
+  ['2034', 'Orsa', 22.69],
+  ['2039', 'Älvdalen', 22.81],
+  ['2061', 'Smedjebacken', 22.31],
+  ['2062', 'Mora', 22.06],
+  ['2080', 'Falun', 21.56],
+  ['2081', 'Borlänge', 22.16],
+  ['2082', 'Säter', 22.51],
+  ['2083', 'Hedemora', 22.51],
+  ['2084', 'Avesta', 22.46],
+  ['2085', 'Ludvika', 22.36],
+  // Gävleborgs län
+  ['2101', 'Ockelbo', 22.34],
+  ['2104', 'Hofors', 22.84],
+  ['2121', 'Ovanåker', 22.49],
+  ['2132', 'Nordanstig', 22.69],
+  ['2161', 'Ljusdal', 22.84],
+  ['2180', 'Gävle', 21.59],
+  ['2181', 'Sandviken', 22.29],
+  ['2182', 'Söderhamn', 22.64],
+  ['2183', 'Bollnäs', 22.44],
+  ['2184', 'Hudiksvall', 22.34],
+  // Västernorrlands län
+  ['2260', 'Ånge', 23.09],
+  ['2262', 'Timrå', 22.64],
+  ['2280', 'Härnösand', 22.93],
+  ['2281', 'Sundsvall', 22.14],
+  ['2282', 'Kramfors', 23.29],
+  ['2283', 'Sollefteå', 23.39],
+  ['2284', 'Örnsköldsvik', 22.39],
+  // Jämtlands län
+  ['2303', 'Ragunda', 22.70],
+  ['2305', 'Bräcke', 22.60],
+  ['2309', 'Krokom', 22.00],
+  ['2313', 'Strömsund', 22.60],
+  ['2321', 'Åre', 21.95],
+  ['2326', 'Berg', 22.60],
+  ['2361', 'Härjedalen', 22.65],
+  ['2380', 'Östersund', 21.60],
+  // Västerbottens län
+  ['2401', 'Nordmaling', 23.25],
+  ['2403', 'Bjurholm', 23.60],
+  ['2404', 'Vindeln', 23.40],
+  ['2409', 'Robertsfors', 23.10],
+  ['2417', 'Norsjö', 23.50],
+  ['2418', 'Malå', 23.65],
+  ['2421', 'Storuman', 23.30],
+  ['2422', 'Sorsele', 23.65],
+  ['2425', 'Dorotea', 23.90],
+  ['2460', 'Vännäs', 22.90],
+  ['2462', 'Vilhelmina', 23.80],
+  ['2463', 'Åsele', 23.80],
+  ['2480', 'Umeå', 22.10],
+  ['2481', 'Lycksele', 23.05],
+  ['2482', 'Skellefteå', 22.55],
+  // Norrbottens län
+  ['2505', 'Arvidsjaur', 23.20],
+  ['2506', 'Arjeplog', 23.60],
+  ['2510', 'Jokkmokk', 23.55],
+  ['2513', 'Överkalix', 23.65],
+  ['2514', 'Kalix', 23.05],
+  ['2518', 'Övertorneå', 23.35],
+  ['2521', 'Pajala', 23.45],
+  ['2523', 'Gällivare', 22.90],
+  ['2560', 'Älvsbyn', 23.10],
+  ['2580', 'Luleå', 22.05],
+  ['2581', 'Piteå', 22.30],
+  ['2582', 'Boden', 22.85],
+  ['2583', 'Haparanda', 23.30],
+  ['2584', 'Kiruna', 22.75],
+];
+
+export const MUNICIPALITIES_2025: Municipality[] = MUNICIPAL_RATES.map(([code, name, municipalRate]) => {
+  const county = COUNTIES[code.slice(0, 2)];
+  const diocese = DIOCESE_OVERRIDES[code] ?? county.diocese;
+
+  return {
+    code,
+    name,
+    county: county.name,
+    municipalRate: municipalRate / 100,
+    regionalRate: county.regionalRate / 100,
+    burialFee: (BURIAL_FEE_OVERRIDES[code] ?? NATIONAL_BURIAL_FEE) / 100,
+    diocese,
+    churchFee: CHURCH_FEE_BY_DIOCESE[diocese] / 100,
+  };
+});
+
+const MUNICIPALITIES_BY_CODE = new Map<string, Municipality>(
+  MUNICIPALITIES_2025.map((municipality) => [municipality.code, municipality])
+);
+
+/**
+ * Get a municipality by its four-digit kommunkod
+ */
+export function getMunicipality(code: string): Municipality | undefined {
+  return MUNICIPALITIES_BY_CODE.get(code);
+}
+
+/**
+ * Total local tax rate (kommunal + regional skattesats) for a municipality
+ */
+export function getLocalTaxRate(municipality: Municipality): number {
+  return municipality.municipalRate + municipality.regionalRate;
+}
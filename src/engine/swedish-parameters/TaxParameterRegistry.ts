@@ -0,0 +1,292 @@
+// ============================================================================
+// TAX PARAMETER REGISTRY
+// Swedish tax parameter sets keyed by income year (inkomstår)
+// ============================================================================
+
+import { TaxYearParameters } from '../../types';
+import {
+  SWEDISH_TAX_PARAMETERS_2025,
+  BASIC_DEDUCTION_STEPS,
+  BASIC_DEDUCTION_STEPS_OVER_66,
+  EARNED_INCOME_TAX_CREDIT_STEPS,
+  EARNED_INCOME_TAX_CREDIT_OVER_66,
+} from './TaxParameters2025';
+
+// Year used when a calculation does not specify a calendar year
+export const DEFAULT_TAX_YEAR = 2025;
+
+// Rates that are the same in every decided year 2023–2026: statlig skatt,
+// allmän pensionsavgift, kapitalskatt, särskild löneskatt, egenavgifter and
+// the periodiserings- and expansionsfond rules. Grundavdrag under 66 has the
+// same prisbasbelopp steps in all years, so it follows each year's pbb.
+const COMMON_PARAMETERS = {
+  stateTaxRate: SWEDISH_TAX_PARAMETERS_2025.stateTaxRate,
+  generalPensionFee: SWEDISH_TAX_PARAMETERS_2025.generalPensionFee,
+  generalPensionFeeLimits: {
+    maxIncomeIbb: 8.07,
+    minIncomePbb: 0.423,
+  },
+  capitalGainsTax: SWEDISH_TAX_PARAMETERS_2025.capitalGainsTax,
+  capitalLossDeduction: SWEDISH_TAX_PARAMETERS_2025.capitalLossDeduction,
+  propertyTax: {
+    landRate: 0.01,
+  },
+  interestDeduction: SWEDISH_TAX_PARAMETERS_2025.interestDeduction,
+  specialPayrollTax: 0.2426,
+  selfEmploymentContributions: {
+    fullRate: 0.2897,
+    oldAgeRate: 0.1021,
+    oldAgeFrom: 66,
+    standardDeduction: 0.25,
+    standardDeductionOldAge: 0.10,
+    reductionRate: 0.075,
+    reductionMaxBase: 200000,
+  },
+  businessAllocations: {
+    periodiseringsfondShare: 0.30,
+    periodiseringsfondYears: 6,
+    expansionsfondTaxRate: 0.206,
+    expansionsfondCapitalFactor: 1.2594, // 1 / (1 − 20.6%)
+    positiveInterestSupplement: 0.06,
+    positiveInterestMinBase: 50000,
+    negativeInterestSupplement: 0.01,
+    negativeInterestMaxBase: -500000,
+  },
+};
+
+// Förhöjt grundavdrag and jobbskatteavdrag from 66 are the 2025 rules for
+// every year. The increases for pensioners in 2024 and 2025 are not modelled
+// per year (approximate for 2023–2024).
+const BASIC_DEDUCTION_STEPS_BY_YEAR = {
+  under66: BASIC_DEDUCTION_STEPS,
+  over66: BASIC_DEDUCTION_STEPS_OVER_66,
+};
+
+// Jobbskatteavdrag 2023: 33.05% up to 3.24 pbb and 11.1% up to 8.08 pbb,
+// reduced by 3% of arbetsinkomst above 13.54 pbb
+const EARNED_INCOME_TAX_CREDIT_2023 = {
+  under66: [
+    { upTo: 0.91, base: 0, rate: 1 },
+    { upTo: 3.24, base: 0.91, rate: 0.3305 },
+    { upTo: 8.08, base: 1.68, rate: 0.111 },
+    { upTo: Infinity, base: 2.218, rate: 0 },
+  ],
+  highIncomeReduction: { fromPbb: 13.54, rate: 0.03 },
+  over66: EARNED_INCOME_TAX_CREDIT_OVER_66,
+};
+
+// Jobbskatteavdrag 2024: the 2023 steps without the reduction for high incomes
+const EARNED_INCOME_TAX_CREDIT_2024 = {
+  under66: EARNED_INCOME_TAX_CREDIT_2023.under66,
+  over66: EARNED_INCOME_TAX_CREDIT_OVER_66,
+};
+
+// Jobbskatteavdrag from 2025: 38.74% up to 3.24 pbb and 25.1% up to 8.08 pbb.
+// The 2026 strengthening is not yet modelled, so 2026 carries these steps over
+// and lists them in carriedOver.
+const EARNED_INCOME_TAX_CREDIT_2025 = {
+  under66: EARNED_INCOME_TAX_CREDIT_STEPS,
+  over66: EARNED_INCOME_TAX_CREDIT_OVER_66,
+};
+
+const ISK_KF_COMMON = {
+  supplement: SWEDISH_TAX_PARAMETERS_2025.iskKfParameters.supplement,
+  minRate: SWEDISH_TAX_PARAMETERS_2025.iskKfParameters.minRate,
+  taxRate: SWEDISH_TAX_PARAMETERS_2025.iskKfParameters.taxRate,
+};
+
+// Arbetsgivaravgifter; from 66 only the ålderspensionsavgift is paid
+const EMPLOYER_CONTRIBUTIONS_COMMON = {
+  fullRate: 0.3142,
+  oldAgeRate: 0.1021,
+  oldAgeFrom: 66,
+};
+
+// 3:12 rules for fåmansföretag up to 2025: förenklingsregel or huvudregel
+const CLOSE_COMPANY_RULES_TO_2025 = {
+  baseAmountIbb: 2.75,
+  baseAmountWithMainRule: false,
+  wageShare: 0.5,
+  wageDeductionIbb: 0,
+  salaryRequirement: { baseIbb: 6, share: 0.05, maxIbb: 9.6 },
+  minOwnershipForWageSpace: 0.04,
+  wageSpaceSalaryMultiple: 50,
+  capitalRateSupplement: 0.09,
+  capitalThreshold: 0,
+  savedSpaceRateSupplement: 0.03,
+  qualifiedDividendShare: 2 / 3,
+  serviceIncomeCapIbb: 90,
+  corporateTaxRate: 0.206,
+};
+
+// 3:12 rules from 2026: grundbelopp plus lönebaserat utrymme above 8 IBB,
+// no löneuttagskrav and no uppräkning of sparat utdelningsutrymme
+const CLOSE_COMPANY_RULES_FROM_2026 = {
+  baseAmountIbb: 4,
+  baseAmountWithMainRule: true,
+  wageShare: 0.5,
+  wageDeductionIbb: 8,
+  capitalRateSupplement: 0.09,
+  capitalThreshold: 100000,
+  savedSpaceRateSupplement: 0,
+  qualifiedDividendShare: 2 / 3,
+  serviceIncomeCapIbb: 90,
+  corporateTaxRate: 0.206,
+};
+
+// Kommunal fastighetsavgift for småhus (incl. fritidshus) and ägarlägenheter
+const PROPERTY_FEE_COMMON = {
+  rate: 0.0075, // 0.75% of taxeringsvärde, up to the yearly maximum
+  pensionerIncomeShare: 0.04,
+};
+
+const DECIDED_TAX_PARAMETERS: TaxYearParameters[] = [
+  {
+    year: 2023,
+    isForecast: false,
+    carriedOver: ['förhöjt grundavdrag och jobbskatteavdrag från 66 år'],
+    inkomstBasbelopp: 74300,
+    prisBasbelopp: 52500,
+    stateTaxBreakpoint: {
+      under66: 613900,
+      over66: 694400,
+    },
+    stateTaxThreshold: 598500,
+    averageMunicipalTax: 0.3224,
+    publicServiceFee: { rate: 0.01, maximum: 1152 },
+    propertyFee: { ...PROPERTY_FEE_COMMON, maximum: 9287 },
+    closeCompany: { ...CLOSE_COMPANY_RULES_TO_2025, previousYearIbb: 71000 },
+    employerContributions: {
+      ...EMPLOYER_CONTRIBUTIONS_COMMON,
+      // Temporary reduction for 19–23 year olds, ended 31 March 2023
+      youthReduction: { minAge: 18, maxAge: 22, rate: 0.1973, monthlyCeiling: 25000, months: 3 },
+    },
+    iskKfParameters: {
+      ...ISK_KF_COMMON,
+      governmentBondRate: 0.0194, // Statslåneränta 30 Nov 2022
+      taxFreeAmount: 0,
+    },
+    basicDeductionSteps: BASIC_DEDUCTION_STEPS_BY_YEAR,
+    earnedIncomeTaxCredit: EARNED_INCOME_TAX_CREDIT_2023,
+    ...COMMON_PARAMETERS,
+  },
+  {
+    year: 2024,
+    isForecast: false,
+    carriedOver: ['förhöjt grundavdrag och jobbskatteavdrag från 66 år'],
+    inkomstBasbelopp: 76200,
+    prisBasbelopp: 57300,
+    stateTaxBreakpoint: {
+      under66: 615300,
+      over66: 703200,
+    },
+    stateTaxThreshold: 598500,
+    averageMunicipalTax: 0.3237,
+    publicServiceFee: { rate: 0.01, maximum: 1181 },
+    propertyFee: { ...PROPERTY_FEE_COMMON, maximum: 9525 },
+    closeCompany: { ...CLOSE_COMPANY_RULES_TO_2025, previousYearIbb: 74300 },
+    employerContributions: EMPLOYER_CONTRIBUTIONS_COMMON,
+    iskKfParameters: {
+      ...ISK_KF_COMMON,
+      governmentBondRate: 0.0262, // Statslåneränta 30 Nov 2023
+      taxFreeAmount: 0,
+    },
+    basicDeductionSteps: BASIC_DEDUCTION_STEPS_BY_YEAR,
+    earnedIncomeTaxCredit: EARNED_INCOME_TAX_CREDIT_2024,
+    ...COMMON_PARAMETERS,
+  },
+  {
+    year: 2025,
+    isForecast: false,
+    inkomstBasbelopp: SWEDISH_TAX_PARAMETERS_2025.inkomstBasbelopp,
+    prisBasbelopp: SWEDISH_TAX_PARAMETERS_2025.prisBasbelopp,
+    stateTaxBreakpoint: SWEDISH_TAX_PARAMETERS_2025.stateTaxBreakpoint,
+    stateTaxThreshold: SWEDISH_TAX_PARAMETERS_2025.stateTaxThreshold,
+    averageMunicipalTax: SWEDISH_TAX_PARAMETERS_2025.averageMunicipalTax,
+    publicServiceFee: { rate: 0.01, maximum: 1249 },
+    propertyFee: { ...PROPERTY_FEE_COMMON, maximum: 9809 },
+    closeCompany: { ...CLOSE_COMPANY_RULES_TO_2025, previousYearIbb: 76200 },
+    employerContributions: EMPLOYER_CONTRIBUTIONS_COMMON,
+    iskKfParameters: {
+      ...ISK_KF_COMMON,
+      governmentBondRate: SWEDISH_TAX_PARAMETERS_2025.iskKfParameters.governmentBondRate,
+      taxFreeAmount: SWEDISH_TAX_PARAMETERS_2025.iskKfParameters.taxFreeAmount2025,
+    },
+    basicDeductionSteps: BASIC_DEDUCTION_STEPS_BY_YEAR,
+    earnedIncomeTaxCredit: EARNED_INCOME_TAX_CREDIT_2025,
+    ...COMMON_PARAMETERS,
+  },
+  {
+    year: 2026,
+    isForecast: false,
+    carriedOver: ['jobbskatteavdrag', 'förhöjt grundavdrag och jobbskatteavdrag från 66 år'],
+    inkomstBasbelopp: 83400,
+    prisBasbelopp: 59200,
+    stateTaxBreakpoint: {
+      under66: 660400,
+      over66: 751200,
+    },
+    stateTaxThreshold: 643000,
+    averageMunicipalTax: 0.3238,
+    publicServiceFee: { rate: 0.01, maximum: 1293 },
+    propertyFee: { ...PROPERTY_FEE_COMMON, maximum: 10074 },
+    closeCompany: { ...CLOSE_COMPANY_RULES_FROM_2026, previousYearIbb: SWEDISH_TAX_PARAMETERS_2025.inkomstBasbelopp },
+    employerContributions: {
+      ...EMPLOYER_CONTRIBUTIONS_COMMON,
+      // Temporary reduction for 19–23 year olds, 1 April 2026 to 30 September 2027
+      youthReduction: { minAge: 18, maxAge: 22, rate: 0.2081, monthlyCeiling: 25000, months: 9 },
+    },
+    iskKfParameters: {
+      ...ISK_KF_COMMON,
+      governmentBondRate: 0.0255, // Statslåneränta 30 Nov 2025
+      taxFreeAmount: SWEDISH_TAX_PARAMETERS_2025.iskKfParameters.taxFreeAmount2026,
+    },
+    basicDeductionSteps: BASIC_DEDUCTION_STEPS_BY_YEAR,
+    earnedIncomeTaxCredit: EARNED_INCOME_TAX_CREDIT_2025,
+    ...COMMON_PARAMETERS,
+  },
+];
+
+const TAX_PARAMETERS_BY_YEAR = new Map<number, TaxYearParameters>(
+  DECIDED_TAX_PARAMETERS.map((params) => [params.year, params])
+);
+
+const FIRST_DECIDED_YEAR = DECIDED_TAX_PARAMETERS[0].year;
+const LAST_DECIDED_YEAR = DECIDED_TAX_PARAMETERS[DECIDED_TAX_PARAMETERS.length - 1].year;
+
+/**
+ * Get the tax parameter set for a calendar year.
+ * Years after the latest decided year are forward-projected by carrying the
+ * latest amounts forward unchanged, which matches the real prognosis model
+ * (all amounts in today's money). Years before the first set use the first set.
+ */
+export function getTaxParameters(year: number): TaxYearParameters {
+  const decided = TAX_PARAMETERS_BY_YEAR.get(year);
+  if (decided) {
+    return decided;
+  }
+
+  if (year < FIRST_DECIDED_YEAR) {
+    return TAX_PARAMETERS_BY_YEAR.get(FIRST_DECIDED_YEAR)!;
+  }
+
+  const latest = TAX_PARAMETERS_BY_YEAR.get(LAST_DECIDED_YEAR)!;
+
+  // Temporary reductions are not carried forward, and amounts based on the
+  // year before use the (unchanged) latest inkomstbasbelopp
+  return {
+    ...latest,
+    year,
+    isForecast: true,
+    carriedOver: undefined,
+    employerContributions: EMPLOYER_CONTRIBUTIONS_COMMON,
+    closeCompany: { ...latest.closeCompany, previousYearIbb: latest.inkomstBasbelopp },
+  };
+}
+
+/**
+ * Get the income years that have decided (non-projected) parameters
+ */
+export function getDecidedTaxYears(): number[] {
+  return DECIDED_TAX_PARAMETERS.map((params) => params.year);
+}
@@ -3,7 +3,7 @@
 // Based on official sources and the specification document
 // ============================================================================
 
-import { SwedishTaxParameters2025, MacroeconomicAssumptions } from '../../types';
+import { SwedishTaxParameters2025, MacroeconomicAssumptions, PrisbasbeloppStep, PensionAges } from '../../types';
 
 export const SWEDISH_TAX_PARAMETERS_2025: SwedishTaxParameters2025 = {
   inkomstBasbelopp: 80600, // kr per year
@@ -14,6 +14,7 @@ export const SWEDISH_TAX_PARAMETERS_2025: SwedishTaxParameters2025 = {
     over66: 733200,  // kr per year (ca 61,100 kr/månad)
   },
   
+  stateTaxThreshold: 625800, // Skiktgräns (brytpunkt minus grundavdrag)
   stateTaxRate: 0.20, // 20%
   averageMunicipalTax: 0.3241, // 32.41% (national average including region)
   generalPensionFee: 0.07, // 7% of PGI
@@ -32,6 +33,10 @@ export const SWEDISH_TAX_PARAMETERS_2025: SwedishTaxParameters2025 = {
     primaryHome: 0.22, // 22% on primary residence
   },
   
+  capitalLossDeduction: {
+    listedSecurities: 0.70, // 70% of excess losses on listed shares and funds
+  },
+  
   interestDeduction: {
     rate1: 0.30, // 30% deduction up to threshold
     rate2: 0.21, // 21% deduction above threshold
@@ -65,8 +70,53 @@ export const PENSION_PARAMETERS_2025 = {
     inkomstpensionAndel: 0.16, // 16 percentage points to inkomstpension
     premiepensionAndel: 0.025, // 2.5 percentage points to premiepension
     maxPGI: 604500, // Maximum pensionsgrundande inkomst (8.07 × IBB × 0.93)
+    maxPGIIbb: 7.5, // The same ceiling in IBB, for other years
     minInkomstForIntjänande: 24873, // Minimum income for pension accrual
     följsamhetsIndexering: 0.04, // 4.0% for 2025
+    balanseringstal: 1.0, // Balansering not active (balanstal above 1.0)
+    delningstal: {
+      norm: 0.016, // Tillväxtnorm built into the inkomstpension delningstal
+      referenceCohort: 1960,
+      // Unisex Gompertz mortality fitted to a delningstal of about 16.75 at 65
+      // for the reference cohort, with later cohorts living slightly longer
+      modalAgeOfDeath: 88,
+      modalAgeGainPerCohort: 0.1,
+      dispersion: 9.5,
+      maxAge: 120,
+    },
+  },
+  
+  // Support for pensioners with low income. Amounts in prisbasbelopp unless
+  // stated; the starting age follows riktåldern (66 up to 2025)
+  pensionerBenefits: {
+    ageFrom: 66,
+    guaranteePension: {
+      fullAmountPbb: { single: 2.3212, married: 2.0730 }, // Approximate 2025 levels
+      fullReductionUpToPbb: { single: 1.26, married: 1.14 }, // Inkomstgrundad pension reduces krona för krona up to this
+      reductionRate: 0.48, // Then 48% of the inkomstgrundad pension above it
+    },
+    housingSupplement: {
+      coverage: 0.96, // Share of the housing cost covered
+      maxMonthlyHousingCost: { single: 7540, married: 3770 }, // kr per month and person
+      reductionRate: 0.62, // Of income above the full garantipension
+      assetExemption: { single: 100000, married: 200000 },
+      assetIncomeShare: 0.15, // Share of assets above the exemption counted as income
+    },
+    elderlySupport: {
+      normPbb: { single: 1.3546, married: 1.1446 }, // Skälig levnadsnivå excluding housing
+    },
+  },
+  
+  // Premiepension funds
+  premiepension: {
+    adminFee: 0.0007, // Pensionsmyndighetens förvaltningsavgift, about 0.07%
+    ap7Safa: {
+      equityFund: { expectedReturn: 0.045, fee: 0.0005 }, // AP7 Aktiefond
+      fixedIncomeFund: { expectedReturn: 0.005, fee: 0.0003 }, // AP7 Räntefond
+      glideStartAge: 56, // All in equities up to 55, then moving to räntor
+      glideEndAge: 75,
+      finalEquityShare: 0.33,
+    },
   },
   
   // Occupational pension parameters
@@ -76,31 +126,125 @@ export const PENSION_PARAMETERS_2025 = {
       premieÖverTak: 0.30, // 30% of salary between 7.5 and 30 IBB
       takLågNivå: 50375, // 7.5 IBB/12 monthly (kr/månad)
       takHögNivå: 201500, // 30 IBB/12 monthly (kr/månad)
+      takLågNivåIbb: 7.5,
+      takHögNivåIbb: 30,
     },
     
     ITPK: {
-      premie: 0.02, // 2% of salary
+      premie: 0.02, // 2% of salary, the premium part of ITP2
+      takIbb: 30,
     },
     
     SAFLO: {
       premieUnderTak: 0.045, // 4.5% (4.38% billed to employer, 4.5% credited)
       premieÖverTak: 0.30, // 30% above threshold
       tak: 50375, // 7.5 IBB/12 monthly (kr/månad)
+      takIbb: 7.5,
+    },
+
+    KAPKL: {
+      premieUnderTak: 0.045, // 4.5% avgiftsbestämd ålderspension on the whole salary
+      premieÖverTak: 0.045, // The förmånsbestämd part above 7.5 IBB is modelled as a defined benefit
+      takIbb: 7.5,
+    },
+
+    AKAPKR: {
+      premieUnderTak: 0.06, // 6% up to 7.5 IBB
+      premieÖverTak: 0.315, // 31.5% between 7.5 and 30 IBB
+      takIbb: 7.5,
+      takHögNivåIbb: 30,
+    },
+
+    PA16: {
+      premieUnderTak: 0.06, // Avdelning I, 6% up to 7.5 IBB (approximate)
+      premieÖverTak: 0.315, // 31.5% between 7.5 and 30 IBB (approximate)
+      takIbb: 7.5,
+      takHögNivåIbb: 30,
+    },
+
+    // Förmånsbestämd pension (ITP2, KAP-KL, PA16 avdelning II) as a share of
+    // the final salary per band of inkomstbasbelopp
+    definedBenefit: {
+      bands: [
+        { upToIbb: 7.5, rate: 0.10 },
+        { upToIbb: 20, rate: 0.65 },
+        { upToIbb: 30, rate: 0.325 },
+      ],
+      fullServiceYears: 30, // 360 months of service give the full pension
+      serviceEndAge: 65, // Service is counted up to 65
+      finalSalaryYears: 5, // Average of the last years' salaries before the pension
     },
   },
   
-  // Riktålder (target retirement age) by birth year
+  // Riktålder (target retirement age) by birth year, born up to the key
   riktÅlder: new Map([
     [1958, 66], [1959, 66],
     [1960, 67], [1961, 67], [1962, 67], [1963, 67], [1964, 67], [1965, 67], [1966, 67],
-    [1967, 68], // Approximate for 1967-1980
-    [1981, 69], // Approximate for 1981-1996
-    [1997, 70], // Approximate for 1997-2014
-    [2015, 71], // Approximate for 2015+
+    [1980, 68], // Approximate for 1967-1980
+    [1996, 69], // Approximate for 1981-1996
+    [2014, 70], // Approximate for 1997-2014
   ]),
+
+  // Earliest uttag of allmän pension for those born up to the year; later
+  // cohorts can start a number of years before riktåldern
+  earliestWithdrawal: [
+    { bornUpTo: 1957, age: 61 },
+    { bornUpTo: 1960, age: 62 },
+    { bornUpTo: 1962, age: 63 },
+  ],
+  earliestYearsBeforeRiktålder: 3,
+
+  // LAS: the right to keep the employment, 69 from 2023 and later
+  // following riktåldern (approximate)
+  las: {
+    minAge: 69,
+    yearsAfterRiktålder: 2,
+  },
+
+  // Uttag: allmän pension in quarters, tjänstepension for life or a fixed term
+  withdrawalOptions: {
+    generalPensionPercentages: [25, 50, 75, 100],
+    fixedTermYears: [5, 10, 15, 20],
+  },
 };
 
-// Basic deduction amounts (grundavdrag) for 2025
+// Grundavdrag in prisbasbelopp steps, applied to fastställd förvärvsinkomst
+export const BASIC_DEDUCTION_STEPS: PrisbasbeloppStep[] = [
+  { upTo: 0.99, base: 0.423, rate: 0 },
+  { upTo: 2.72, base: 0.423, rate: 0.20 },
+  { upTo: 3.11, base: 0.77, rate: 0 },
+  { upTo: 7.88, base: 0.77, rate: -0.10 },
+  { upTo: Infinity, base: 0.293, rate: 0 },
+];
+
+// Förhöjt grundavdrag for those who have turned 66 at the start of the year
+export const BASIC_DEDUCTION_STEPS_OVER_66: PrisbasbeloppStep[] = [
+  { upTo: 0.99, base: 1.11, rate: 0 },
+  { upTo: 2.72, base: 1.11, rate: 0.9616 },
+  { upTo: 3.11, base: 2.7735, rate: 0 },
+  { upTo: 12.58, base: 2.7735, rate: -0.10 },
+  { upTo: Infinity, base: 1.8265, rate: 0 },
+];
+
+// Jobbskatteavdrag: arbetsinkomst in prisbasbelopp steps. The credit is
+// (value − grundavdrag) × kommunalskatt
+export const EARNED_INCOME_TAX_CREDIT_STEPS: PrisbasbeloppStep[] = [
+  { upTo: 0.91, base: 0, rate: 1 },
+  { upTo: 3.24, base: 0.91, rate: 0.3874 },
+  { upTo: 8.08, base: 1.813, rate: 0.251 },
+  { upTo: Infinity, base: 3.027, rate: 0 },
+];
+
+// Förhöjt jobbskatteavdrag for those who have turned 66 at the start of the year
+export const EARNED_INCOME_TAX_CREDIT_OVER_66 = {
+  rate: 0.20, // 20% of arbetsinkomst up to threshold
+  threshold: 100000, // kr
+  rateAboveThreshold: 0.05, // 5% of arbetsinkomst above threshold
+  maximum: 30000, // kr (reached at 300,000 kr)
+};
+
+// Basic deduction amounts (grundavdrag) for 2025 - reference values that
+// BASIC_DEDUCTION_STEPS and BASIC_DEDUCTION_STEPS_OVER_66 produce with pbb 58,800
 export const BASIC_DEDUCTION_2025 = {
   under66: {
     minimum: 24900,
@@ -138,9 +282,29 @@ export function getRiktÅlder(birthYear: number): number {
   return 71;
 }
 
-// Utility function to calculate effective ISK/KF tax rate for 2025
-export function calculateISKTaxRate(): number {
-  const params = SWEDISH_TAX_PARAMETERS_2025.iskKfParameters;
+// Utility function to get all riktålder-linked pension ages by birth year
+export function getPensionAges(birthYear: number): PensionAges {
+  const { earliestWithdrawal, earliestYearsBeforeRiktålder, las } = PENSION_PARAMETERS_2025;
+  const riktålder = getRiktÅlder(birthYear);
+  const earliestGeneralPension =
+    earliestWithdrawal.find(rule => birthYear <= rule.bornUpTo)?.age ??
+    riktålder - earliestYearsBeforeRiktålder;
+
+  return {
+    riktålder,
+    earliestGeneralPension,
+    guaranteePension: riktålder,
+    las: Math.max(las.minAge, riktålder + las.yearsAfterRiktålder),
+  };
+}
+
+// Utility function to calculate effective ISK/KF tax rate (defaults to 2025)
+export function calculateISKTaxRate(
+  params: Pick<
+    SwedishTaxParameters2025['iskKfParameters'],
+    'governmentBondRate' | 'supplement' | 'minRate' | 'taxRate'
+  > = SWEDISH_TAX_PARAMETERS_2025.iskKfParameters
+): number {
   const schablonRate = Math.max(
     params.governmentBondRate + params.supplement,
     params.minRate
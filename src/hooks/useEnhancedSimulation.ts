@@ -9,6 +9,7 @@ import {
   MVPIncomeData,
   MVPExpenseData,
   MVPAssetData,
+  SalaryExchangeComparison,
 } from "../types";
 import {
   PensionSettings,
@@ -32,6 +33,7 @@ interface EnhancedSimulationState {
   inputs: EnhancedSimulationInputs;
   investmentRates: InvestmentRates;
   projections: EnhancedYearProjection[];
+  salaryExchangeComparison: SalaryExchangeComparison | null;
   isCalculating: boolean;
   lastCalculated: Date | null;
   warnings: string[];
@@ -60,6 +62,7 @@ const DEFAULT_ENHANCED_INPUTS: EnhancedSimulationInputs = {
   income: {
     monthlySalary: 45000,
     realSalaryGrowth: 0.016,
+    pensionAgreement: "ITP1",
   },
   expenses: {
     monthlyLiving: 25000,
@@ -67,10 +70,15 @@ const DEFAULT_ENHANCED_INPUTS: EnhancedSimulationInputs = {
   assets: {
     liquidSavings: 100000,
     iskAccount: 200000,
+    iskMonthlyDeposit: 0,
+    capitalInsurance: 0,
+    capitalInsuranceMonthlyDeposit: 0,
+    capitalInsuranceMonthlyWithdrawal: 0,
   },
   investments: {
     liquidSavingsRate: DEFAULT_INVESTMENT_ASSUMPTIONS.liquidSavingsRate,
     iskAccountRate: DEFAULT_INVESTMENT_ASSUMPTIONS.iskAccountRate,
+    capitalInsuranceRate: DEFAULT_INVESTMENT_ASSUMPTIONS.capitalInsuranceRate,
   },
   pensions: {
     ...DEFAULT_PENSION_SETTINGS,
@@ -86,6 +94,7 @@ const DEFAULT_ENHANCED_INPUTS: EnhancedSimulationInputs = {
 const DEFAULT_INVESTMENT_RATES: InvestmentRates = {
   liquidSavingsRate: DEFAULT_INVESTMENT_ASSUMPTIONS.liquidSavingsRate,
   iskAccountRate: DEFAULT_INVESTMENT_ASSUMPTIONS.iskAccountRate,
+  capitalInsuranceRate: DEFAULT_INVESTMENT_ASSUMPTIONS.capitalInsuranceRate,
 };
 
 // Initialize state with data from localStorage if available
@@ -97,6 +106,7 @@ function initializeState(): EnhancedSimulationState {
       inputs: savedData.inputs,
       investmentRates: savedData.investmentRates,
       projections: [],
+      salaryExchangeComparison: null,
       isCalculating: false,
       lastCalculated: getLastSavedTimestamp(),
       warnings: [],
@@ -108,6 +118,7 @@ function initializeState(): EnhancedSimulationState {
     inputs: DEFAULT_ENHANCED_INPUTS,
     investmentRates: DEFAULT_INVESTMENT_RATES,
     projections: [],
+    salaryExchangeComparison: null,
     isCalculating: false,
     lastCalculated: null,
     warnings: [],
@@ -130,7 +141,7 @@ export function useEnhancedSimulation(): EnhancedSimulationState &
           const config = {
             includePensions: true,
             useCustomInvestmentRates: true,
-            enableTransparency: false,
+            enableTransparency: true,
           };
 
           // Validate inputs using unified engine
@@ -146,10 +157,16 @@ export function useEnhancedSimulation(): EnhancedSimulationState &
               config,
               state.investmentRates
             ) as EnhancedYearProjection[]; // Type assertion safe because config.includePensions = true
+            const salaryExchangeComparison = financialSimulationEngine.compareSalaryExchange(
+              state.inputs,
+              config,
+              state.investmentRates
+            );
 
             setState((prev) => ({
               ...prev,
               projections,
+              salaryExchangeComparison,
               isCalculating: false,
               lastCalculated: new Date(),
               warnings: validation.warnings,
@@ -310,6 +327,7 @@ export function useEnhancedSimulation(): EnhancedSimulationState &
       inputs: DEFAULT_ENHANCED_INPUTS,
       investmentRates: DEFAULT_INVESTMENT_RATES,
       projections: [],
+      salaryExchangeComparison: null,
       isCalculating: false,
       lastCalculated: null,
       warnings: [],
@@ -333,6 +351,8 @@ export function useEnhancedSimulation(): EnhancedSimulationState &
         "Nettoinkomst",
         "Utgifter",
         "Sparande",
+        "ISK",
+        "KF",
         "Nettoförmögenhet",
         "Pensionskapital",
       ];
@@ -345,6 +365,8 @@ export function useEnhancedSimulation(): EnhancedSimulationState &
         Nettoinkomst: projection.calculations.netIncome,
         Utgifter: projection.expenses,
         Sparande: projection.savings,
+        ISK: projection.assets.iskValue,
+        KF: projection.assets.kfValue,
         Nettoförmögenhet: projection.netWorth,
         Pensionskapital: projection.pensionCapital?.total || 0,
       }));
@@ -424,6 +446,8 @@ export function useEnhancedChartData(projections: EnhancedYearProjection[]) {
         incomeExpenseData: [],
         pensionIncomeData: [],
         pensionCapitalData: [],
+        accountPayoutData: [],
+        assetData: [],
       };
     }
 
@@ -461,6 +485,22 @@ export function useEnhancedChartData(projections: EnhancedYearProjection[]) {
       label: `År ${p.year} (${p.age} år)`,
     }));
 
+    // Yearly payout curve per pension account, in the order they first pay
+    const payoutAccounts = new Map<string, string>();
+    projections.forEach((p) =>
+      p.pensionIncome?.accounts.forEach((a) => payoutAccounts.set(a.accountId, a.name))
+    );
+    const accountPayoutData = Array.from(payoutAccounts, ([accountId, name]) => ({
+      accountId,
+      name,
+      data: projections.map((p) => ({
+        year: p.year,
+        age: p.age,
+        value: (p.pensionIncome?.accounts.find((a) => a.accountId === accountId)?.monthlyAmount || 0) * 12,
+        label: `År ${p.year} (${p.age} år)`,
+      })),
+    }));
+
     const pensionCapitalData = projections.map((p) => ({
       year: p.year,
       age: p.age,
@@ -471,12 +511,23 @@ export function useEnhancedChartData(projections: EnhancedYearProjection[]) {
       label: `År ${p.year} (${p.age} år)`,
     }));
 
+    const assetData = projections.map((p) => ({
+      year: p.year,
+      age: p.age,
+      liquid: p.assets?.liquidAssets || 0,
+      isk: p.assets?.iskValue || 0,
+      kf: p.assets?.kfValue || 0,
+      label: `År ${p.year} (${p.age} år)`,
+    }));
+
     return {
       netWorthData,
       cashFlowData,
       incomeExpenseData,
       pensionIncomeData,
       pensionCapitalData,
+      accountPayoutData,
+      assetData,
     };
   }, [projections]);
 }
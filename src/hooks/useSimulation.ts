@@ -55,6 +55,7 @@ const DEFAULT_INPUTS: MVPSimulationInputs = {
   investments: {
     liquidSavingsRate: DEFAULT_INVESTMENT_ASSUMPTIONS.liquidSavingsRate,
     iskAccountRate: DEFAULT_INVESTMENT_ASSUMPTIONS.iskAccountRate,
+    capitalInsuranceRate: DEFAULT_INVESTMENT_ASSUMPTIONS.capitalInsuranceRate,
   },
 };
 
@@ -0,0 +1,155 @@
+// ============================================================================
+// BUSINESS INCOME CALCULATOR TESTS
+// Unit tests for egenavgifter, periodiseringsfond, expansionsfond and räntefördelning
+// ============================================================================
+
+import { describe, it, expect } from 'vitest';
+import { businessIncomeCalculator } from '../engine/modules/BusinessIncomeCalculator';
+import { taxCalculator } from '../engine/modules/TaxCalculator';
+import { getTaxParameters } from '../engine/swedish-parameters/TaxParameterRegistry';
+
+describe('Business Income Calculator', () => {
+  const params = getTaxParameters(2025);
+  const bondRate = params.iskKfParameters.governmentBondRate;
+
+  describe('Egenavgifter and schablonavdrag', () => {
+    it('should deduct 25% schablonavdrag and charge egenavgifter with nedsättning', () => {
+      const result = businessIncomeCalculator.calculateBusinessIncome({ profit: 400000 }, 45, params);
+
+      expect(result.standardDeduction).toBe(100000);
+      expect(result.businessIncome).toBe(300000);
+      // 28.97% minus 7.5% nedsättning on the first 200,000 kr
+      expect(result.contributions).toBeCloseTo(300000 * 0.2897 - 15000, 5);
+    });
+
+    it('should only charge ålderspensionsavgift with a 10% schablonavdrag from 66', () => {
+      const result = businessIncomeCalculator.calculateBusinessIncome({ profit: 200000 }, 67, params);
+
+      expect(result.businessIncome).toBe(180000);
+      expect(result.contributions).toBeCloseTo(180000 * 0.1021, 5);
+    });
+
+    it('should not tax a loss', () => {
+      const result = businessIncomeCalculator.calculateBusinessIncome({ profit: -50000 }, 45, params);
+
+      expect(result.businessIncome).toBe(0);
+      expect(result.contributions).toBe(0);
+    });
+  });
+
+  describe('Periodiseringsfond', () => {
+    it('should limit the avsättning to 30% of the underlag after schablonavdrag', () => {
+      const result = businessIncomeCalculator.calculateBusinessIncome({
+        profit: 400000,
+        periodiseringsfondAllocation: 400000
+      }, 45, params);
+
+      expect(result.periodiseringsfondAllocation).toBeCloseTo(90000, 5);
+      expect(result.businessIncome).toBeCloseTo(310000 * 0.75, 5);
+    });
+
+    it('should add återföring to the business income', () => {
+      const result = businessIncomeCalculator.calculateBusinessIncome({
+        profit: 200000,
+        periodiseringsfondReversal: 60000
+      }, 45, params);
+
+      expect(result.businessIncome).toBeCloseTo(260000 * 0.75, 5);
+    });
+  });
+
+  describe('Expansionsfond', () => {
+    it('should limit the avsättning by the kapitalunderlag and tax it at 20.6%', () => {
+      const result = businessIncomeCalculator.calculateBusinessIncome({
+        profit: 400000,
+        expansionsfondChange: 100000,
+        equityCapital: 50000
+      }, 45, params);
+
+      expect(result.expansionsfondChange).toBeCloseTo(50000 * 1.2594, 5);
+      expect(result.expansionsfondTax).toBeCloseTo(50000 * 1.2594 * 0.206, 5);
+    });
+
+    it('should give back the tax on återföring, limited by the fund balance', () => {
+      const result = businessIncomeCalculator.calculateBusinessIncome({
+        profit: 100000,
+        expansionsfondChange: -50000,
+        expansionsfondBalance: 30000
+      }, 45, params);
+
+      expect(result.expansionsfondChange).toBe(-30000);
+      expect(result.expansionsfondTax).toBeCloseTo(-30000 * 0.206, 5);
+      expect(result.businessIncome).toBeCloseTo(130000 * 0.75, 5);
+    });
+  });
+
+  describe('Räntefördelning', () => {
+    it('should move statslåneränta + 6% of a positive kapitalunderlag to kapital', () => {
+      const result = businessIncomeCalculator.calculateBusinessIncome({
+        profit: 400000,
+        equityCapital: 1000000
+      }, 45, params);
+
+      expect(result.interestAllocation).toBeCloseTo(1000000 * (bondRate + 0.06), 5);
+    });
+
+    it('should skip positive räntefördelning when not wanted or below 50,000 kr', () => {
+      const declined = businessIncomeCalculator.calculateBusinessIncome({
+        profit: 400000,
+        equityCapital: 1000000,
+        useInterestAllocation: false
+      }, 45, params);
+      const small = businessIncomeCalculator.calculateBusinessIncome({
+        profit: 400000,
+        equityCapital: 40000
+      }, 45, params);
+
+      expect(declined.interestAllocation).toBe(0);
+      expect(small.interestAllocation).toBe(0);
+    });
+
+    it('should apply negative räntefördelning below -500,000 kr', () => {
+      const result = businessIncomeCalculator.calculateBusinessIncome({
+        profit: 400000,
+        equityCapital: -1000000
+      }, 45, params);
+
+      expect(result.interestAllocation).toBeCloseTo(-1000000 * (bondRate + 0.01), 5);
+      expect(result.businessIncome).toBeCloseTo((400000 - result.interestAllocation) * 0.75, 5);
+    });
+  });
+
+  describe('Integration with income tax', () => {
+    it('should tax the överskott as work income and add egenavgifter to total tax', () => {
+      const result = taxCalculator.calculateYearlyTax({
+        year: 2025,
+        grossSalary: 0,
+        business: { profit: 400000 },
+        age: 45,
+        iskCapital: 0,
+        kfCapital: 0
+      });
+
+      expect(result.business?.businessIncome).toBe(300000);
+      expect(result.pensionFee).toBe(21000);
+      expect(result.earnedIncomeTaxCredit).toBeGreaterThan(0);
+      expect(result.selfEmploymentContributions).toBeCloseTo(300000 * 0.2897 - 15000, 5);
+      expect(result.netIncome).toBeCloseTo(400000 - result.totalTax, 5);
+      expect(result.calculations.some(c => c.category === 'Näringsverksamhet')).toBe(true);
+    });
+
+    it('should tax positive räntefördelning as inkomst av kapital', () => {
+      const result = taxCalculator.calculateYearlyTax({
+        year: 2025,
+        grossSalary: 0,
+        business: { profit: 400000, equityCapital: 1000000 },
+        age: 45,
+        iskCapital: 0,
+        kfCapital: 0
+      });
+
+      const allocation = 1000000 * (bondRate + 0.06);
+      expect(result.capitalGainsTax).toBeCloseTo(Math.floor(allocation / 100) * 100 * 0.30, 5);
+    });
+  });
+});
@@ -0,0 +1,140 @@
+// ============================================================================
+// CAPITAL INCOME CALCULATOR TESTS
+// Unit tests for inkomst av kapital, loss offsetting and underskottsavdrag
+// ============================================================================
+
+import { describe, it, expect } from 'vitest';
+import { capitalIncomeCalculator } from '../engine/modules/CapitalIncomeCalculator';
+import { taxCalculator } from '../engine/modules/TaxCalculator';
+import { getTaxParameters } from '../engine/swedish-parameters/TaxParameterRegistry';
+
+describe('Capital Income Calculator', () => {
+  const params = getTaxParameters(2025);
+
+  describe('Överskott av kapital', () => {
+    it('should tax interest and dividends at 30%', () => {
+      const result = capitalIncomeCalculator.calculateCapitalIncome({
+        interestIncome: 10000,
+        dividends: 5000
+      }, params);
+
+      expect(result.surplus).toBe(15000);
+      expect(result.tax).toBe(4500);
+      expect(result.deficitReduction).toBe(0);
+    });
+
+    it('should round the surplus down to whole hundreds', () => {
+      const result = capitalIncomeCalculator.calculateCapitalIncome({ interestIncome: 1099 }, params);
+
+      expect(result.surplus).toBe(1000);
+      expect(result.tax).toBe(300);
+    });
+
+    it('should offset listed losses in full against listed gains', () => {
+      const result = capitalIncomeCalculator.calculateCapitalIncome({
+        capitalGains: 100000,
+        capitalLosses: 40000
+      }, params);
+
+      expect(result.surplus).toBe(60000);
+      expect(result.tax).toBe(18000);
+    });
+
+    it('should deduct interest expenses from capital income', () => {
+      const result = capitalIncomeCalculator.calculateCapitalIncome({
+        dividends: 50000,
+        interestExpenses: 20000
+      }, params);
+
+      expect(result.surplus).toBe(30000);
+      expect(result.tax).toBe(9000);
+    });
+  });
+
+  describe('Loss offsetting (70% rule)', () => {
+    it('should only deduct 70% of listed losses exceeding listed gains', () => {
+      const result = capitalIncomeCalculator.calculateCapitalIncome({
+        interestIncome: 30000,
+        capitalGains: 50000,
+        capitalLosses: 80000
+      }, params);
+
+      // Remaining loss 30,000 kr, 70% = 21,000 kr deductible against interest
+      expect(result.surplus).toBe(9000);
+      expect(result.tax).toBeCloseTo(2700, 5);
+    });
+
+    it('should treat negative capital gains as a listed loss', () => {
+      const asNegativeGain = capitalIncomeCalculator.calculateCapitalIncome({ capitalGains: -50000 }, params);
+      const asLoss = capitalIncomeCalculator.calculateCapitalIncome({ capitalLosses: 50000 }, params);
+
+      expect(asNegativeGain.deficit).toBe(35000);
+      expect(asNegativeGain.deficitReduction).toBe(asLoss.deficitReduction);
+    });
+  });
+
+  describe('Skattereduktion för underskott av kapital', () => {
+    it('should give 30% reduction on a deficit up to 100,000 kr', () => {
+      const result = capitalIncomeCalculator.calculateCapitalIncome({ interestExpenses: 60000 }, params);
+
+      expect(result.deficit).toBe(60000);
+      expect(result.deficitReduction).toBe(18000);
+      expect(result.tax).toBe(0);
+    });
+
+    it('should give 21% reduction on the deficit above 100,000 kr', () => {
+      const result = capitalIncomeCalculator.calculateCapitalIncome({ interestExpenses: 150000 }, params);
+
+      expect(result.deficitReduction).toBeCloseTo(30000 + 50000 * 0.21, 5);
+    });
+
+    it('should limit the reduction to the tax on earned income', () => {
+      const result = capitalIncomeCalculator.calculateCapitalIncome({
+        interestExpenses: 60000,
+        reducibleTax: 5000
+      }, params);
+
+      expect(result.deficitReduction).toBe(5000);
+      expect(result.calculation.finalResult).toBe(-5000);
+    });
+  });
+
+  describe('Integration with income tax', () => {
+    const baseInputs = {
+      grossSalary: 500000,
+      age: 40,
+      iskCapital: 0,
+      kfCapital: 0
+    };
+
+    it('should reduce total tax by the deficit reduction', () => {
+      const withMortgage = taxCalculator.calculateYearlyTax({ ...baseInputs, interestExpenses: 60000 });
+      const withoutMortgage = taxCalculator.calculateYearlyTax(baseInputs);
+
+      expect(withMortgage.capitalDeficitReduction).toBe(18000);
+      expect(withoutMortgage.totalTax - withMortgage.totalTax).toBeCloseTo(18000, 5);
+    });
+
+    it('should not give a deficit reduction without tax on earned income', () => {
+      const result = taxCalculator.calculateYearlyTax({
+        grossSalary: 0,
+        age: 40,
+        iskCapital: 0,
+        kfCapital: 0,
+        interestExpenses: 60000
+      });
+
+      expect(result.capitalDeficitReduction).toBe(0);
+      expect(result.totalTax).toBe(0);
+    });
+
+    it('should report its own transparent calculation', () => {
+      const result = taxCalculator.calculateYearlyTax({ ...baseInputs, dividends: 20000 });
+      const capital = result.calculations.find(c => c.category === 'Inkomst av kapital');
+
+      expect(capital).toBeDefined();
+      expect(capital?.finalResult).toBe(6000);
+      expect(result.netIncome).toBeCloseTo(520000 - result.totalTax, 5);
+    });
+  });
+});
@@ -0,0 +1,180 @@
+// ============================================================================
+// CLOSE COMPANY CALCULATOR TESTS
+// Unit tests for the 3:12 gränsbelopp, sparat utdelningsutrymme and dividend taxation
+// ============================================================================
+
+import { describe, it, expect } from 'vitest';
+import { closeCompanyCalculator } from '../engine/modules/CloseCompanyCalculator';
+import { taxCalculator } from '../engine/modules/TaxCalculator';
+import { getTaxParameters } from '../engine/swedish-parameters/TaxParameterRegistry';
+
+describe('Close Company Calculator', () => {
+  const params2025 = getTaxParameters(2025);
+  const params2026 = getTaxParameters(2026);
+  const bondRate = params2025.iskKfParameters.governmentBondRate;
+
+  describe('Gränsbelopp up to 2025', () => {
+    it('should give 2.75 IBB of the year before under the förenklingsregel', () => {
+      const result = closeCompanyCalculator.calculateDividendSpace({
+        ownershipShare: 1,
+        acquisitionCost: 25000,
+        ownerSalary: 300000,
+        companySalaries: 300000
+      }, params2025);
+
+      expect(result.rule).toBe('simplified');
+      expect(result.baseAmount).toBeCloseTo(2.75 * 76200, 5);
+      expect(result.dividendSpace).toBeCloseTo(209550, 5);
+    });
+
+    it('should give 50% of the löneunderlag when the löneuttagskrav is met', () => {
+      const result = closeCompanyCalculator.calculateDividendSpace({
+        ownershipShare: 1,
+        acquisitionCost: 100000,
+        ownerSalary: 700000,
+        companySalaries: 1500000
+      }, params2025);
+
+      expect(result.rule).toBe('main');
+      expect(result.wageBasedSpace).toBeCloseTo(750000, 5);
+      expect(result.capitalBasedSpace).toBeCloseTo(100000 * (bondRate + 0.09), 5);
+      expect(result.dividendSpace).toBeCloseTo(750000 + result.capitalBasedSpace, 5);
+    });
+
+    it('should give no lönebaserat utrymme below the löneuttagskrav', () => {
+      // Requirement: min(6 × 76,200 + 5% × 1,500,000, 9.6 × 76,200) = 531,200 kr
+      const result = closeCompanyCalculator.calculateDividendSpace({
+        ownershipShare: 1,
+        acquisitionCost: 25000,
+        ownerSalary: 500000,
+        companySalaries: 1500000,
+        rule: 'main'
+      }, params2025);
+
+      expect(result.wageBasedSpace).toBe(0);
+      expect(result.dividendSpace).toBeCloseTo(25000 * (bondRate + 0.09), 5);
+    });
+
+    it('should count up sparat utdelningsutrymme by statslåneränta + 3%', () => {
+      const result = closeCompanyCalculator.calculateDividendSpace({
+        ownershipShare: 0.5,
+        acquisitionCost: 0,
+        ownerSalary: 0,
+        companySalaries: 0,
+        savedSpace: 100000
+      }, params2025);
+
+      expect(result.baseAmount).toBeCloseTo(209550 / 2, 5);
+      expect(result.savedSpace).toBeCloseTo(100000 * (1 + bondRate + 0.03), 5);
+    });
+  });
+
+  describe('Gränsbelopp from 2026', () => {
+    it('should add a grundbelopp of 4 IBB to lönebaserat utrymme above 8 IBB', () => {
+      const result = closeCompanyCalculator.calculateDividendSpace({
+        ownershipShare: 1,
+        acquisitionCost: 50000,
+        ownerSalary: 600000,
+        companySalaries: 1000000,
+        savedSpace: 100000
+      }, params2026);
+
+      expect(result.baseAmount).toBeCloseTo(322400, 5);
+      expect(result.wageBasedSpace).toBeCloseTo((1000000 - 8 * 80600) * 0.5, 5);
+      expect(result.capitalBasedSpace).toBe(0);
+      expect(result.savedSpace).toBe(100000);
+      expect(result.dividendSpace).toBeCloseTo(322400 + result.wageBasedSpace + 100000, 5);
+    });
+  });
+
+  describe('Dividend split', () => {
+    it('should take up 2/3 of a dividend within the gränsbelopp and save the rest', () => {
+      const split = closeCompanyCalculator.splitDividend(150000, 209550, params2025);
+
+      expect(split.qualifiedDividend).toBe(150000);
+      expect(split.serviceDividend).toBe(0);
+      expect(split.taxableCapitalDividend).toBeCloseTo(100000, 5);
+      expect(split.remainingSpace).toBeCloseTo(59550, 5);
+    });
+
+    it('should tax the part above the gränsbelopp as tjänst', () => {
+      const split = closeCompanyCalculator.splitDividend(300000, 209550, params2025);
+
+      expect(split.qualifiedDividend).toBeCloseTo(209550, 5);
+      expect(split.serviceDividend).toBeCloseTo(90450, 5);
+      expect(split.capitalDividend).toBe(0);
+      expect(split.remainingSpace).toBe(0);
+    });
+  });
+
+  describe('Company result', () => {
+    it('should charge 20.6% bolagsskatt after the salary cost and add retained earnings', () => {
+      const result = closeCompanyCalculator.calculateCompanyResult(1000000, 400000, 50000, params2025);
+
+      expect(result.corporateTax).toBeCloseTo(600000 * 0.206, 5);
+      expect(result.distributableEarnings).toBeCloseTo(50000 + 600000 * 0.794, 5);
+    });
+
+    it('should charge no bolagsskatt on a loss', () => {
+      const result = closeCompanyCalculator.calculateCompanyResult(300000, 400000, 250000, params2025);
+
+      expect(result.corporateTax).toBe(0);
+      expect(result.distributableEarnings).toBe(150000);
+    });
+
+    it('should pick the pay segment covering the age', () => {
+      const payPlan = [
+        { fromAge: 50, toAge: 55, monthlySalary: 50000, dividendStrategy: 'gränsbelopp' as const, yearlyDividend: 0 },
+        { fromAge: 55, monthlySalary: 20000, dividendStrategy: 'fixed' as const, yearlyDividend: 100000 },
+      ];
+
+      expect(closeCompanyCalculator.getPaySegment(payPlan, 54)?.monthlySalary).toBe(50000);
+      expect(closeCompanyCalculator.getPaySegment(payPlan, 55)?.monthlySalary).toBe(20000);
+      expect(closeCompanyCalculator.getPaySegment(payPlan, 49)).toBeUndefined();
+    });
+  });
+
+  describe('Pension consequences', () => {
+    it('should give 18.5% of PGI in pension rights from salary only', () => {
+      expect(closeCompanyCalculator.calculatePensionRights(400000, params2025))
+        .toBeCloseTo(400000 * 0.93 * 0.185, 5);
+    });
+
+    it('should gross a dividend up for bolagsskatt and arbetsgivaravgifter as salary', () => {
+      expect(closeCompanyCalculator.calculateSalaryEquivalent(100000, 50, params2025))
+        .toBeCloseTo(100000 / 0.794 / 1.3142, 5);
+      expect(closeCompanyCalculator.calculateSalaryEquivalent(100000, 67, params2025))
+        .toBeCloseTo(100000 / 0.794 / 1.1021, 5);
+    });
+  });
+
+  describe('Integration with income tax', () => {
+    it('should tax a dividend within the gränsbelopp at 20%', () => {
+      const base = { year: 2025, grossSalary: 600000, age: 45, iskCapital: 0, kfCapital: 0 };
+      const withoutDividend = taxCalculator.calculateYearlyTax(base);
+      const withDividend = taxCalculator.calculateYearlyTax({
+        ...base,
+        closeCompanyDividend: { dividend: 150000, dividendSpace: 209550 }
+      });
+
+      expect(withDividend.totalTax - withoutDividend.totalTax).toBeCloseTo(30000, 5);
+      expect(withDividend.netIncome - withoutDividend.netIncome).toBeCloseTo(120000, 5);
+    });
+
+    it('should tax a dividend above the gränsbelopp as tjänst without pensionsavgift', () => {
+      const result = taxCalculator.calculateYearlyTax({
+        year: 2025,
+        grossSalary: 600000,
+        closeCompanyDividend: { dividend: 300000, dividendSpace: 209550 },
+        age: 45,
+        iskCapital: 0,
+        kfCapital: 0
+      });
+
+      expect(result.closeCompanyDividend?.serviceDividend).toBeCloseTo(90450, 5);
+      expect(result.pensionFee).toBe(
+        taxCalculator.calculateYearlyTax({ year: 2025, grossSalary: 600000, age: 45, iskCapital: 0, kfCapital: 0 }).pensionFee
+      );
+    });
+  });
+});
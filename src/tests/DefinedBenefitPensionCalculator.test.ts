@@ -0,0 +1,89 @@
+// ============================================================================
+// DEFINED BENEFIT PENSION CALCULATOR TESTS
+// Unit tests for final salary, years of service and the ITP2 benefit formula
+// ============================================================================
+
+import { describe, it, expect } from 'vitest';
+import { definedBenefitPensionCalculator, SalaryYear } from '../engine/modules/DefinedBenefitPensionCalculator';
+import { getTaxParameters } from '../engine/swedish-parameters/TaxParameterRegistry';
+
+const salaryPath = (fromAge: number, toAge: number, salary: number | ((age: number) => number)): SalaryYear[] =>
+  Array.from({ length: toAge - fromAge + 1 }, (_, i) => ({
+    age: fromAge + i,
+    salary: typeof salary === 'function' ? salary(fromAge + i) : salary
+  }));
+
+describe('Defined Benefit Pension Calculator', () => {
+  const params = getTaxParameters(2025);
+  const ibb = params.inkomstBasbelopp;
+
+  describe('Benefit formula', () => {
+    it('should pay 10% up to 7.5 IBB and 65% up to 20 IBB', () => {
+      const result = definedBenefitPensionCalculator.calculateBenefit({
+        salaryHistory: salaryPath(35, 64, 720000),
+        retirementAge: 65,
+        serviceYears: 0
+      }, params);
+
+      expect(result.serviceShare).toBe(1);
+      expect(result.yearlyPension).toBeCloseTo(7.5 * ibb * 0.10 + (720000 - 7.5 * ibb) * 0.65, 5);
+      expect(result.monthlyPension).toBeCloseTo(result.yearlyPension / 12, 5);
+    });
+
+    it('should pay 32.5% between 20 and 30 IBB and nothing above', () => {
+      const high = definedBenefitPensionCalculator.calculateBenefit({
+        salaryHistory: salaryPath(60, 64, 2000000),
+        retirementAge: 65,
+        serviceYears: 30
+      }, params);
+      const aboveCap = definedBenefitPensionCalculator.calculateBenefit({
+        salaryHistory: salaryPath(60, 64, 3000000),
+        retirementAge: 65,
+        serviceYears: 30
+      }, params);
+
+      const upTo20 = 7.5 * ibb * 0.10 + 12.5 * ibb * 0.65;
+      expect(high.yearlyPension).toBeCloseTo(upTo20 + (2000000 - 20 * ibb) * 0.325, 5);
+      expect(aboveCap.yearlyPension).toBeCloseTo(upTo20 + 10 * ibb * 0.325, 5);
+    });
+  });
+
+  describe('Final salary and service', () => {
+    it('should average the last five salaries before the pension', () => {
+      const result = definedBenefitPensionCalculator.calculateBenefit({
+        salaryHistory: salaryPath(55, 70, age => (age < 65 ? age * 10000 : 0)),
+        retirementAge: 65,
+        serviceYears: 20
+      }, params);
+
+      expect(result.finalSalary).toBeCloseTo((60 + 61 + 62 + 63 + 64) / 5 * 10000, 5);
+    });
+
+    it('should reduce the pension in proportion for short service', () => {
+      const full = definedBenefitPensionCalculator.calculateBenefit({
+        salaryHistory: salaryPath(50, 64, 500000),
+        retirementAge: 65,
+        serviceYears: 15
+      }, params);
+      const short = definedBenefitPensionCalculator.calculateBenefit({
+        salaryHistory: salaryPath(50, 64, 500000),
+        retirementAge: 65,
+        serviceYears: 0
+      }, params);
+
+      expect(short.serviceYears).toBe(15);
+      expect(short.serviceShare).toBeCloseTo(0.5, 10);
+      expect(short.yearlyPension).toBeCloseTo(full.yearlyPension / 2, 5);
+    });
+
+    it('should only count service up to 65', () => {
+      const result = definedBenefitPensionCalculator.calculateBenefit({
+        salaryHistory: salaryPath(40, 66, 500000),
+        retirementAge: 67,
+        serviceYears: 0
+      }, params);
+
+      expect(result.serviceYears).toBe(25);
+    });
+  });
+});
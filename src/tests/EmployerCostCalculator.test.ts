@@ -0,0 +1,143 @@
+// ============================================================================
+// EMPLOYER COST CALCULATOR TESTS
+// Unit tests for arbetsgivaravgifter, tjänstepension premiums and särskild löneskatt
+// ============================================================================
+
+import { describe, it, expect } from 'vitest';
+import { employerCostCalculator } from '../engine/modules/EmployerCostCalculator';
+
+describe('Employer Cost Calculator', () => {
+  describe('Arbetsgivaravgifter', () => {
+    it('should charge full arbetsgivaravgifter of 31.42%', () => {
+      const result = employerCostCalculator.calculateEmployerCost({
+        monthlySalary: 40000,
+        age: 40,
+        year: 2025
+      });
+
+      expect(result.grossSalary).toBe(480000);
+      expect(result.employerContributions).toBeCloseTo(150816, 5);
+      expect(result.pensionPremium).toBe(0);
+      expect(result.totalCost).toBeCloseTo(630816, 5);
+    });
+
+    it('should only charge ålderspensionsavgift from 66', () => {
+      const result = employerCostCalculator.calculateEmployerCost({
+        monthlySalary: 40000,
+        age: 66,
+        year: 2025
+      });
+
+      expect(result.employerContributions).toBeCloseTo(480000 * 0.1021, 5);
+    });
+
+    it('should apply the 2026 youth reduction up to 25,000 kr per month from April', () => {
+      const result = employerCostCalculator.calculateEmployerCost({
+        monthlySalary: 30000,
+        age: 20,
+        year: 2026
+      });
+
+      const reducedMonth = 25000 * 0.2081 + 5000 * 0.3142;
+      expect(result.employerContributions).toBeCloseTo(reducedMonth * 9 + 30000 * 0.3142 * 3, 5);
+    });
+
+    it('should not apply a youth reduction in 2025 or carry it into forecast years', () => {
+      const in2025 = employerCostCalculator.calculateEmployerCost({ monthlySalary: 30000, age: 20, year: 2025 });
+      const in2030 = employerCostCalculator.calculateEmployerCost({ monthlySalary: 30000, age: 20, year: 2030 });
+
+      expect(in2025.employerContributions).toBeCloseTo(360000 * 0.3142, 5);
+      expect(in2030.employerContributions).toBeCloseTo(360000 * 0.3142, 5);
+    });
+  });
+
+  describe('Tjänstepension and särskild löneskatt', () => {
+    it('should pay ITP1 premiums of 4.5% up to 7.5 IBB and 30% above', () => {
+      const result = employerCostCalculator.calculateEmployerCost({
+        monthlySalary: 60000,
+        age: 40,
+        year: 2025,
+        pensionAgreement: 'ITP1'
+      });
+
+      // 7.5 × 80,600 / 12 = 50,375 kr per month
+      const expectedPremium = (50375 * 0.045 + 9625 * 0.30) * 12;
+      expect(result.pensionPremium).toBeCloseTo(expectedPremium, 5);
+      expect(result.specialPayrollTax).toBeCloseTo(expectedPremium * 0.2426, 5);
+      expect(result.totalCost).toBeCloseTo(
+        720000 + 720000 * 0.3142 + expectedPremium * 1.2426, 5
+      );
+    });
+
+    it('should only pay the lower SAF-LO rate below the limit', () => {
+      const result = employerCostCalculator.calculateEmployerCost({
+        monthlySalary: 30000,
+        age: 40,
+        year: 2025,
+        pensionAgreement: 'SAF-LO'
+      });
+
+      expect(result.pensionPremium).toBeCloseTo(30000 * 0.045 * 12, 5);
+    });
+
+    it('should pay AKAP-KR premiums of 6% up to 7.5 IBB and 31.5% above', () => {
+      const result = employerCostCalculator.calculateEmployerCost({
+        monthlySalary: 60000,
+        age: 40,
+        year: 2025,
+        pensionAgreement: 'AKAP-KR'
+      });
+
+      expect(result.pensionPremium).toBeCloseTo((50375 * 0.06 + 9625 * 0.315) * 12, 5);
+    });
+
+    it('should pay KAP-KL at 4.5% above 7.5 IBB and leave the rest to the förmånsbestämd part', () => {
+      const result = employerCostCalculator.calculateEmployerCost({
+        monthlySalary: 60000,
+        age: 40,
+        year: 2025,
+        pensionAgreement: 'KAP-KL'
+      });
+
+      expect(result.pensionPremium).toBeCloseTo(60000 * 0.045 * 12, 5);
+    });
+
+    it('should only pay the 2% ITPK premium for ITP2', () => {
+      const result = employerCostCalculator.calculateEmployerCost({
+        monthlySalary: 60000,
+        age: 40,
+        year: 2025,
+        pensionAgreement: 'ITP2'
+      });
+
+      expect(result.pensionPremium).toBeCloseTo(60000 * 0.02 * 12, 5);
+    });
+
+    it('should add the löneväxling premium with uplift and keep ITP1 on the full salary', () => {
+      const result = employerCostCalculator.calculateEmployerCost({
+        monthlySalary: 40000,
+        age: 40,
+        year: 2025,
+        pensionAgreement: 'ITP1',
+        salaryExchange: { yearlyAmount: 60000, employerContribution: 0.058 }
+      });
+
+      const agreementPremium = 45000 * 0.045 * 12;
+      expect(result.pensionPremium).toBeCloseTo(agreementPremium, 5);
+      expect(result.salaryExchangePremium).toBeCloseTo(60000 * 1.058, 5);
+      expect(result.employerContributions).toBeCloseTo(480000 * 0.3142, 5);
+      expect(result.specialPayrollTax).toBeCloseTo((agreementPremium + 60000 * 1.058) * 0.2426, 5);
+    });
+
+    it('should report its own transparent calculation', () => {
+      const result = employerCostCalculator.calculateEmployerCost({
+        monthlySalary: 45000,
+        age: 30,
+        pensionAgreement: 'ITP1'
+      });
+
+      expect(result.calculation.category).toBe('Arbetsgivarkostnad');
+      expect(result.calculation.finalResult).toBe(result.totalCost);
+    });
+  });
+});
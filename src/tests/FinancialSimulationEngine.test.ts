@@ -5,6 +5,9 @@
 
 import { describe, it, expect } from "vitest";
 import { financialSimulationEngine } from "../engine/core/FinancialSimulationEngine";
+import { generalPensionCalculator } from "../engine/modules/GeneralPensionCalculator";
+import { definedBenefitPensionCalculator } from "../engine/modules/DefinedBenefitPensionCalculator";
+import { getTaxParameters } from "../engine/swedish-parameters/TaxParameterRegistry";
 import { MVPSimulationInputs } from "../types";
 import {
   EnhancedSimulationInputs,
@@ -107,10 +110,12 @@ describe("Financial Simulation Engine", () => {
   });
 
   describe("Enhanced Mode - Input Validation", () => {
+    // Born 1960: allmän pension from 62 and riktålder 66
     const enhancedConfig = {
       includePensions: true,
       useCustomInvestmentRates: true,
       enableTransparency: false,
+      startYear: 1990,
     };
 
     it("should validate correct enhanced inputs", () => {
@@ -143,6 +148,43 @@ describe("Financial Simulation Engine", () => {
       );
     });
 
+    it("should derive the earliest pension age from the birth year", () => {
+      const youngerInputs = {
+        ...enhancedInputs,
+        profile: { ...enhancedInputs.profile, birthYear: 1996 },
+        pensions: {
+          ...enhancedInputs.pensions,
+          generalPension: {
+            ...enhancedInputs.pensions.generalPension,
+            withdrawalStartAge: 65,
+          },
+        },
+      };
+      const validation = financialSimulationEngine.validateInputs(
+        youngerInputs,
+        { ...enhancedConfig, startYear: 2026 }
+      );
+      expect(validation.errors.some((e) => e.includes("66 års ålder"))).toBe(
+        true
+      );
+      expect(
+        validation.warnings.some((w) => w.includes("Garantipension"))
+      ).toBe(true);
+    });
+
+    it("should reject a birth year that does not match the age", () => {
+      const profileWith = (birthYear: number) => ({
+        ...enhancedInputs,
+        profile: { ...enhancedInputs.profile, birthYear },
+      });
+
+      // 30 years old in 1990: born 1959 or 1960
+      expect(financialSimulationEngine.validateInputs(profileWith(1959), enhancedConfig).isValid).toBe(true);
+      const validation = financialSimulationEngine.validateInputs(profileWith(1970), enhancedConfig);
+      expect(validation.isValid).toBe(false);
+      expect(validation.errors).toContain("Födelseår 1970 stämmer inte med åldern 30 år 1990");
+    });
+
     it("should validate investment rates - direct method test", () => {
       // Test the validation method directly
       const testRates = {
@@ -484,11 +526,16 @@ describe("Financial Simulation Engine", () => {
       );
       expect(projections.length).toBeGreaterThan(0);
 
-      // Should still have pension structure but with zero values
+      // Should still have pension structure; only allmän pension earned
+      // from the working years is paid out
       const retirementProjection = projections.find(
         (p) => p.age === emptyPensionInputs.profile.desiredRetirementAge
       );
-      expect(retirementProjection!.pensionIncome!.total).toBe(0);
+      expect(retirementProjection!.pensionIncome!.occupationalPension).toBe(0);
+      expect(retirementProjection!.pensionIncome!.privatePension).toBe(0);
+      expect(retirementProjection!.pensionIncome!.total).toBe(
+        retirementProjection!.pensionIncome!.generalPension
+      );
     });
   });
 
@@ -544,6 +591,1041 @@ describe("Financial Simulation Engine", () => {
     });
   });
 
+  describe("ISK Deposits", () => {
+    const iskConfig = {
+      includePensions: false,
+      useCustomInvestmentRates: true,
+      enableTransparency: false,
+      startYear: 2025,
+    };
+    const iskRates = { liquidSavingsRate: 0.005, iskAccountRate: 0.035 };
+
+    it("should route monthly deposits into ISK and the kapitalunderlag", () => {
+      const inputs: MVPSimulationInputs = {
+        ...basicInputs,
+        assets: { liquidSavings: 100000, iskAccount: 200000, iskMonthlyDeposit: 10000 },
+      };
+
+      const withDeposits = financialSimulationEngine.runSimulation(inputs, iskConfig, iskRates);
+      const withoutDeposits = financialSimulationEngine.runSimulation(basicInputs, iskConfig, iskRates);
+
+      expect(withDeposits[1].assets.iskValue).toBeGreaterThan(200000 * 1.035 + 120000);
+      expect(withDeposits[0].calculations.iskTax).toBeGreaterThan(withoutDeposits[0].calculations.iskTax);
+      expect(withDeposits[0].calculations.cashFlow).toBeCloseTo(withDeposits[0].savings - 120000, 5);
+    });
+
+    it("should grow ISK by the yearly rate without deposits", () => {
+      const projections = financialSimulationEngine.runSimulation(basicInputs, iskConfig, iskRates);
+
+      expect(projections[1].assets.iskValue).toBeCloseTo(200000 * 1.035, 5);
+    });
+  });
+
+  describe("Capital Insurance (KF)", () => {
+    const kfConfig = {
+      includePensions: false,
+      useCustomInvestmentRates: true,
+      enableTransparency: false,
+      startYear: 2025,
+    };
+    const kfRates = {
+      liquidSavingsRate: 0.005,
+      iskAccountRate: 0.035,
+      capitalInsuranceRate: 0.05,
+    };
+
+    it("should grow and tax the KF balance each year", () => {
+      const inputs: MVPSimulationInputs = {
+        ...basicInputs,
+        assets: { liquidSavings: 100000, iskAccount: 0, capitalInsurance: 500000 },
+      };
+
+      const projections = financialSimulationEngine.runSimulation(
+        inputs,
+        kfConfig,
+        kfRates
+      );
+
+      expect(projections[0].assets.kfValue).toBe(500000);
+      expect(projections[1].assets.kfValue).toBeCloseTo(525000, 5);
+      // Skattefri grundnivå 150,000 kr applies to KF when there is no ISK
+      expect(projections[0].calculations.kfTax).toBeCloseTo(350000 * 0.00888, 5);
+      expect(projections[0].netWorth).toBe(600000);
+    });
+
+    it("should fund deposits from cash flow and pay withdrawals into it", () => {
+      const inputs: MVPSimulationInputs = {
+        ...basicInputs,
+        profile: { ...basicInputs.profile, currentAge: 60 },
+        assets: {
+          liquidSavings: 100000,
+          iskAccount: 0,
+          capitalInsurance: 1000000,
+          capitalInsuranceMonthlyDeposit: 5000,
+          capitalInsuranceMonthlyWithdrawal: 10000,
+        },
+      };
+
+      const projections = financialSimulationEngine.runSimulation(
+        inputs,
+        kfConfig,
+        kfRates
+      );
+      const working = projections[0];
+      const retired = projections.find((p) => p.age === 65)!;
+
+      expect(working.calculations.cashFlow).toBeCloseTo(working.savings - 60000, 5);
+      expect(projections[1].assets.kfValue).toBeCloseTo(1060000 * 1.05, 5);
+      expect(retired.calculations.cashFlow).toBeCloseTo(retired.savings + 120000, 5);
+    });
+
+    it("should default to no KF when not provided", () => {
+      const projections = financialSimulationEngine.runSimulation(basicInputs);
+
+      expect(projections.every((p) => p.assets.kfValue === 0)).toBe(true);
+      expect(projections.every((p) => p.calculations.kfTax === 0)).toBe(true);
+    });
+  });
+
+  describe("Employer Cost", () => {
+    it("should add employer costs while working and none in retirement", () => {
+      const inputs: MVPSimulationInputs = {
+        ...basicInputs,
+        income: { ...basicInputs.income, pensionAgreement: "ITP1" },
+      };
+
+      const projections = financialSimulationEngine.runSimulation(inputs);
+      const working = projections[0].calculations;
+      const retired = projections.find((p) => p.age === 70)!.calculations;
+
+      expect(working.employerContributions).toBeCloseTo(45000 * 12 * 0.3142, 5);
+      expect(working.occupationalPensionPremium).toBeCloseTo(45000 * 12 * 0.045, 5);
+      expect(working.employerCost).toBeCloseTo(
+        45000 * 12 + working.employerContributions + working.occupationalPensionPremium + working.specialPayrollTax,
+        5
+      );
+      expect(retired.employerCost).toBe(0);
+    });
+  });
+
+  describe("Occupational Pension Premiums", () => {
+    const occupationalAccount = {
+      id: "itp1",
+      name: "ITP1 Tjänstepension",
+      currentValue: 100000,
+      provider: "Collectum",
+      type: "tjänste" as const,
+      agreement: "ITP1" as const,
+      canChooseWithdrawalAge: true,
+      earliestWithdrawalAge: 55,
+      latestWithdrawalAge: 70,
+      withdrawalSettings: { startAge: 65, monthlyAmount: 0, isPercentage: false, isLifelong: true },
+    };
+
+    it("should credit the employer's premiums to the account for the agreement", () => {
+      const inputs: EnhancedSimulationInputs = {
+        ...enhancedInputs,
+        income: { ...enhancedInputs.income, pensionAgreement: "ITP1" },
+        pensions: { ...enhancedInputs.pensions, accounts: [occupationalAccount] },
+      };
+
+      const projections = financialSimulationEngine.runSimulation(inputs, {
+        includePensions: true,
+        useCustomInvestmentRates: false,
+        enableTransparency: false,
+      });
+      const premium = projections[0].calculations.occupationalPensionPremium;
+
+      expect(premium).toBeCloseTo(45000 * 12 * 0.045, 5);
+      expect(projections[0].pensionCapital!.occupational).toBeCloseTo(100000 * 1.035 + premium, 5);
+      expect(projections[1].pensionCapital!.occupational).toBeCloseTo(
+        (100000 * 1.035 + premium) * 1.035 + projections[1].calculations.occupationalPensionPremium,
+        5
+      );
+      // The inputs are left untouched
+      expect(occupationalAccount.currentValue).toBe(100000);
+    });
+
+    it("should not credit premiums to an account for another agreement", () => {
+      const inputs: EnhancedSimulationInputs = {
+        ...enhancedInputs,
+        income: { ...enhancedInputs.income, pensionAgreement: "SAF-LO" },
+        pensions: { ...enhancedInputs.pensions, accounts: [occupationalAccount] },
+      };
+
+      const projections = financialSimulationEngine.runSimulation(inputs, {
+        includePensions: true,
+        useCustomInvestmentRates: false,
+        enableTransparency: false,
+      });
+      const retired = projections.find((p) => p.age === 65)!;
+
+      // The SAF-LO premium goes to an account added for the agreement
+      expect(projections[0].pensionCapital!.occupational).toBeCloseTo(
+        100000 * 1.035 + projections[0].calculations.occupationalPensionPremium,
+        5
+      );
+      expect(retired.pensionIncome!.accounts.map((a) => a.accountId)).toEqual(["itp1", "avtal-SAF-LO"]);
+    });
+
+    it("should add an account for the agreement when there is none", () => {
+      const inputs: EnhancedSimulationInputs = {
+        ...enhancedInputs,
+        income: { ...enhancedInputs.income, pensionAgreement: "ITP1" },
+        pensions: { ...enhancedInputs.pensions, accounts: [] },
+      };
+
+      const projections = financialSimulationEngine.runSimulation(inputs, {
+        includePensions: true,
+        useCustomInvestmentRates: false,
+        enableTransparency: false,
+      });
+      const retired = projections.find((p) => p.age === 65)!;
+
+      expect(projections[0].pensionCapital!.occupational).toBeCloseTo(
+        projections[0].calculations.occupationalPensionPremium,
+        5
+      );
+      expect(retired.pensionIncome!.occupationalPension).toBeGreaterThan(0);
+      expect(retired.pensionIncome!.accounts[0].name).toBe("Tjänstepension ITP1");
+    });
+  });
+
+  describe("Salary Exchange", () => {
+    const exchangeInputs: EnhancedSimulationInputs = {
+      ...enhancedInputs,
+      income: {
+        ...enhancedInputs.income,
+        monthlySalary: 70000,
+        pensionAgreement: "ITP1",
+        salaryExchange: { monthlyAmount: 5000, employerContribution: 0.058 },
+      },
+      pensions: {
+        ...enhancedInputs.pensions,
+        accounts: [
+          {
+            id: "itp1",
+            name: "ITP1",
+            currentValue: 0,
+            provider: "Collectum",
+            type: "tjänste",
+            canChooseWithdrawalAge: true,
+            earliestWithdrawalAge: 55,
+            latestWithdrawalAge: 70,
+            withdrawalSettings: { startAge: 65, monthlyAmount: 0, isPercentage: false, isLifelong: true },
+          },
+        ],
+      },
+    };
+    const config = {
+      includePensions: true,
+      useCustomInvestmentRates: false,
+      enableTransparency: false,
+    };
+
+    it("should reduce the salary and credit the uplifted premium", () => {
+      const [first] = financialSimulationEngine.runSimulation(exchangeInputs, config);
+
+      expect(first.salary).toBe(65000 * 12);
+      expect(first.calculations.salaryExchangePremium).toBeCloseTo(60000 * 1.058, 5);
+      expect(first.pensionCapital!.occupational).toBeCloseTo(
+        first.calculations.occupationalPensionPremium + first.calculations.salaryExchangePremium,
+        5
+      );
+    });
+
+    it("should compare the lifetime effect with keeping the full salary", () => {
+      const comparison = financialSimulationEngine.compareSalaryExchange(exchangeInputs, config)!;
+
+      expect(comparison.workingNetIncomeChange).toBeLessThan(0);
+      expect(comparison.retirementNetIncomeChange).toBeGreaterThan(0);
+      expect(comparison.lifetimeNetIncomeChange).toBeCloseTo(
+        comparison.workingNetIncomeChange + comparison.retirementNetIncomeChange,
+        5
+      );
+      expect(comparison.breakEvenAge).toBeGreaterThan(65);
+      expect(financialSimulationEngine.compareSalaryExchange(enhancedInputs, config)).toBeNull();
+    });
+
+    it("should warn when the salary after exchange is below 8.07 IBB", () => {
+      const low = financialSimulationEngine.validateInputs({
+        ...exchangeInputs,
+        income: { ...exchangeInputs.income, monthlySalary: 55000 },
+      });
+      const high = financialSimulationEngine.validateInputs(exchangeInputs);
+
+      expect(low.warnings.some((w) => w.includes("löneväxling"))).toBe(true);
+      expect(high.warnings.some((w) => w.includes("löneväxling"))).toBe(false);
+    });
+
+    it("should use the inkomstbasbelopp of the simulation's start year for the limit", () => {
+      // 56,000 kr is above 8.07 IBB for 2025 (54,203 kr) but below it for 2026 (56,087 kr)
+      const inputs = {
+        ...exchangeInputs,
+        income: { ...exchangeInputs.income, monthlySalary: 61000 },
+      };
+      const in2025 = financialSimulationEngine.validateInputs(inputs, { ...config, startYear: 2025 });
+      const in2026 = financialSimulationEngine.validateInputs(inputs, { ...config, startYear: 2026 });
+
+      expect(in2025.warnings.some((w) => w.includes("löneväxling"))).toBe(false);
+      expect(in2026.warnings.some((w) => w.includes("löneväxling"))).toBe(true);
+    });
+  });
+
+  describe("Defined Benefit Pension", () => {
+    it("should pay the förmånsbestämd pension from the simulated final salary", () => {
+      const inputs: EnhancedSimulationInputs = {
+        ...enhancedInputs,
+        profile: { ...enhancedInputs.profile, currentAge: 60, desiredRetirementAge: 65 },
+        pensions: {
+          ...enhancedInputs.pensions,
+          accounts: [
+            {
+              id: "itp2",
+              name: "ITP2",
+              currentValue: 0,
+              provider: "Alecta",
+              type: "tjänste",
+              agreement: "ITP2",
+              definedBenefit: { serviceYears: 20 },
+              canChooseWithdrawalAge: true,
+              earliestWithdrawalAge: 55,
+              latestWithdrawalAge: 70,
+              withdrawalSettings: { startAge: 65, monthlyAmount: 0, isPercentage: false, isLifelong: true },
+            },
+          ],
+        },
+      };
+
+      const projections = financialSimulationEngine.runSimulation(inputs, {
+        includePensions: true,
+        useCustomInvestmentRates: false,
+        enableTransparency: true,
+        startYear: 2025,
+      });
+      const retired = projections.find((p) => p.age === 65)!;
+      const expected = definedBenefitPensionCalculator.calculateBenefit(
+        {
+          salaryHistory: projections.filter((p) => p.age < 65).map((p) => ({ age: p.age, salary: p.salary })),
+          retirementAge: 65,
+          serviceYears: 20,
+        },
+        getTaxParameters(2030)
+      );
+
+      // 20 earlier years and 5 simulated give 25 of 30 years
+      expect(expected.serviceShare).toBeCloseTo(25 / 30, 10);
+      expect(retired.pensionIncome!.occupationalPension).toBeCloseTo(expected.monthlyPension, 5);
+      expect(projections[0].pensionIncome!.occupationalPension).toBe(0);
+      expect(retired.trace?.some((c) => c.category === "Förmånsbestämd tjänstepension")).toBe(true);
+    });
+
+    it("should base the final salary on the salary before löneväxling", () => {
+      const definedBenefitAccount = {
+        id: "itp2",
+        name: "ITP2",
+        currentValue: 0,
+        provider: "Alecta",
+        type: "tjänste" as const,
+        agreement: "ITP2" as const,
+        definedBenefit: { serviceYears: 20 },
+        canChooseWithdrawalAge: true,
+        earliestWithdrawalAge: 55,
+        latestWithdrawalAge: 70,
+        withdrawalSettings: { startAge: 65, monthlyAmount: 0, isPercentage: false, isLifelong: true },
+      };
+      const inputs: EnhancedSimulationInputs = {
+        ...enhancedInputs,
+        profile: { ...enhancedInputs.profile, currentAge: 60, desiredRetirementAge: 65 },
+        income: { ...enhancedInputs.income, monthlySalary: 70000, pensionAgreement: "ITP2" },
+        pensions: { ...enhancedInputs.pensions, accounts: [definedBenefitAccount] },
+      };
+      const config = {
+        includePensions: true,
+        useCustomInvestmentRates: false,
+        enableTransparency: false,
+        startYear: 2025,
+      };
+
+      const withoutExchange = financialSimulationEngine.runSimulation(inputs, config);
+      const withExchange = financialSimulationEngine.runSimulation(
+        {
+          ...inputs,
+          income: {
+            ...inputs.income,
+            salaryExchange: { monthlyAmount: 5000, employerContribution: 0.058 },
+          },
+        },
+        config
+      );
+      const pensionAt65 = (projections: typeof withExchange) =>
+        projections
+          .find((p) => p.age === 65)!
+          .pensionIncome!.accounts.find((a) => a.accountId === "itp2")!.monthlyAmount;
+
+      expect(withExchange[0].salary).toBe(65000 * 12);
+      expect(pensionAt65(withExchange)).toBeGreaterThan(0);
+      expect(pensionAt65(withExchange)).toBeCloseTo(pensionAt65(withoutExchange), 5);
+    });
+  });
+
+  describe("Business Income", () => {
+    const businessInputs: MVPSimulationInputs = {
+      ...basicInputs,
+      profile: { ...basicInputs.profile, currentAge: 55 },
+      income: {
+        monthlySalary: 0,
+        realSalaryGrowth: 0,
+        business: {
+          yearlyProfit: 500000,
+          usePeriodiseringsfond: true,
+          expansionsfondAllocation: 0,
+          equityCapital: 0,
+        },
+      },
+    };
+
+    it("should reverse each periodiseringsfond after six years", () => {
+      const projections = financialSimulationEngine.runSimulation(businessInputs);
+
+      expect(projections[0].business?.periodiseringsfondAllocation).toBeGreaterThan(0);
+      expect(projections[5].business?.periodiseringsfondReversal).toBe(0);
+      expect(projections[6].business?.periodiseringsfondReversal).toBeCloseTo(
+        projections[0].business!.periodiseringsfondAllocation,
+        5
+      );
+      expect(projections[0].calculations.selfEmploymentContributions).toBeGreaterThan(0);
+      expect(projections[0].calculations.grossIncome).toBe(500000);
+    });
+
+    it("should reverse all fonder when the business ends at retirement", () => {
+      const projections = financialSimulationEngine.runSimulation(businessInputs);
+      const windUp = projections.find((p) => p.age === 65)!;
+      const after = projections.find((p) => p.age === 66)!;
+
+      expect(windUp.business?.profit).toBe(0);
+      expect(windUp.business?.periodiseringsfondReversal).toBeGreaterThan(0);
+      expect(after.business).toBeUndefined();
+    });
+
+    it("should pay the business tax as F-skatt without kvarskatt", () => {
+      const first = financialSimulationEngine.runSimulation(businessInputs)[0].calculations;
+
+      expect(first.selfEmploymentContributions).toBeGreaterThan(0);
+      expect(first.preliminaryTax).toBeCloseTo(first.totalTax, 5);
+      expect(first.taxRefund).toBeCloseTo(0, 5);
+    });
+  });
+
+  describe("Close Company", () => {
+    const ownerInputs: MVPSimulationInputs = {
+      ...basicInputs,
+      profile: { ...basicInputs.profile, currentAge: 60 },
+      income: {
+        monthlySalary: 30000,
+        realSalaryGrowth: 0,
+        closeCompany: {
+          ownershipShare: 1,
+          acquisitionCost: 25000,
+          yearlyProfit: 1000000,
+          retainedEarnings: 0,
+          otherSalaries: 0,
+          payPlan: [{ fromAge: 60, monthlySalary: 30000, dividendStrategy: "fixed", yearlyDividend: 150000 }],
+          savedSpace: 0,
+        },
+      },
+    };
+    const config = {
+      includePensions: false,
+      useCustomInvestmentRates: false,
+      enableTransparency: false,
+      startYear: 2025,
+    };
+
+    it("should carry unused gränsbelopp forward as sparat utdelningsutrymme", () => {
+      const projections = financialSimulationEngine.runSimulation(ownerInputs, config);
+      const first = projections[0].closeCompany!;
+
+      expect(first.dividendSpace).toBeCloseTo(209550, 5);
+      expect(first.qualifiedDividend).toBe(150000);
+      expect(first.savedSpace).toBeCloseTo(59550, 5);
+      expect(projections[1].closeCompany!.dividendSpace).toBeGreaterThan(322400 + 59550 - 1);
+      expect(projections[0].calculations.grossIncome).toBe(30000 * 12 + 150000);
+    });
+
+    it("should show the pension rights given up by taking dividends", () => {
+      const projections = financialSimulationEngine.runSimulation(ownerInputs, config);
+      const first = projections[0].closeCompany!;
+      const salaryEquivalent = 150000 / (1 - 0.206) / (1 + 0.3142);
+
+      expect(first.pensionRights).toBeCloseTo(360000 * 0.93 * 0.185, 5);
+      expect(first.forgonePensionRights).toBeCloseTo(salaryEquivalent * 0.93 * 0.185, 5);
+    });
+
+    it("should pay the salary from the profit and the dividend from what is left after bolagsskatt", () => {
+      const first = financialSimulationEngine.runSimulation(ownerInputs, config)[0].closeCompany!;
+
+      expect(first.salaryCost).toBeCloseTo(360000 * 1.3142, 5);
+      expect(first.corporateTax).toBeCloseTo((1000000 - first.salaryCost) * 0.206, 5);
+      expect(first.retainedEarnings).toBeCloseTo(1000000 - first.salaryCost - first.corporateTax - 150000, 5);
+    });
+
+    it("should raise the dividend and lower pension rights with a lower salary, within the profit", () => {
+      const withSalary = (monthlySalary: number) => financialSimulationEngine.runSimulation({
+        ...ownerInputs,
+        income: {
+          ...ownerInputs.income,
+          closeCompany: {
+            ...ownerInputs.income.closeCompany!,
+            payPlan: [{ fromAge: 60, monthlySalary, dividendStrategy: "fixed", yearlyDividend: 2000000 }],
+          },
+        },
+      }, config)[0].closeCompany!;
+      const highSalary = withSalary(40000);
+      const lowSalary = withSalary(20000);
+
+      expect(lowSalary.dividend).toBeGreaterThan(highSalary.dividend);
+      expect(lowSalary.pensionRights).toBeLessThan(highSalary.pensionRights);
+      expect(lowSalary.dividend).toBeCloseTo((1000000 - 240000 * 1.3142) * (1 - 0.206), 5);
+      expect(lowSalary.retainedEarnings).toBeCloseTo(0, 5);
+    });
+
+    it("should scale the salary down to what the profit can pay", () => {
+      const projections = financialSimulationEngine.runSimulation({
+        ...ownerInputs,
+        income: {
+          ...ownerInputs.income,
+          closeCompany: { ...ownerInputs.income.closeCompany!, yearlyProfit: 300000 },
+        },
+      }, config);
+      const first = projections[0];
+
+      expect(first.closeCompany!.salaryCost).toBeCloseTo(300000, 5);
+      expect(first.closeCompany!.dividend).toBe(0);
+      expect(first.calculations.grossIncome).toBeCloseTo(300000 / 1.3142, 5);
+    });
+
+    it("should follow the pay plan per age and retain the profit without a period", () => {
+      const projections = financialSimulationEngine.runSimulation({
+        ...ownerInputs,
+        income: {
+          ...ownerInputs.income,
+          closeCompany: {
+            ...ownerInputs.income.closeCompany!,
+            payPlan: [
+              { fromAge: 60, toAge: 62, monthlySalary: 50000, dividendStrategy: "fixed", yearlyDividend: 0 },
+              { fromAge: 63, monthlySalary: 20000, dividendStrategy: "gränsbelopp", yearlyDividend: 0 },
+            ],
+          },
+        },
+      }, config);
+      const atAge = (age: number) => projections.find((p) => p.age === age)!;
+
+      expect(atAge(61).calculations.grossIncome).toBe(50000 * 12);
+      expect(atAge(62).calculations.grossIncome).toBe(0);
+      expect(atAge(62).closeCompany!.retainedEarnings).toBeGreaterThan(atAge(61).closeCompany!.retainedEarnings);
+      expect(atAge(63).closeCompany!.dividend).toBeGreaterThan(0);
+    });
+
+    it("should take the whole gränsbelopp and stop dividends in retirement", () => {
+      const projections = financialSimulationEngine.runSimulation({
+        ...ownerInputs,
+        income: {
+          ...ownerInputs.income,
+          closeCompany: {
+            ...ownerInputs.income.closeCompany!,
+            payPlan: [{ fromAge: 60, monthlySalary: 30000, dividendStrategy: "gränsbelopp", yearlyDividend: 0 }],
+          },
+        },
+      }, config);
+
+      expect(projections[0].closeCompany!.dividend).toBeCloseTo(209550, 5);
+      expect(projections[0].closeCompany!.savedSpace).toBe(0);
+      expect(projections.find((p) => p.age === 66)!.closeCompany).toBeUndefined();
+    });
+  });
+
+  describe("General Pension Accrual", () => {
+    const config = {
+      includePensions: true,
+      useCustomInvestmentRates: false,
+      enableTransparency: false,
+      startYear: 2025,
+    };
+
+    it("should add 16% and 2.5% of PGI to inkomstpension and premiepension", () => {
+      const inputs: EnhancedSimulationInputs = {
+        ...enhancedInputs,
+        income: { ...enhancedInputs.income, monthlySalary: 40000, realSalaryGrowth: 0 },
+        pensions: {
+          ...enhancedInputs.pensions,
+          accounts: [],
+          generalPension: {
+            currentInkomstpension: 0,
+            currentPremiepension: 0,
+            estimatedMonthlyAmount: 0,
+            withdrawalStartAge: 65,
+          },
+        },
+      };
+
+      const first = financialSimulationEngine.runSimulation(inputs, config)[0].pensionCapital!;
+
+      expect(first.inkomstpension).toBeCloseTo(480000 * 0.93 * 0.16, 5);
+      expect(first.premiepension).toBeCloseTo(480000 * 0.93 * 0.025, 5);
+      expect(first.general).toBeCloseTo(first.inkomstpension + first.premiepension, 5);
+    });
+
+    it("should cap PGI at 7.5 IBB and index inkomstpension with inkomstindex", () => {
+      const inputs: EnhancedSimulationInputs = {
+        ...enhancedInputs,
+        income: { ...enhancedInputs.income, monthlySalary: 100000, realSalaryGrowth: 0 },
+        pensions: {
+          ...enhancedInputs.pensions,
+          accounts: [],
+          generalPension: {
+            currentInkomstpension: 1000000,
+            currentPremiepension: 0,
+            estimatedMonthlyAmount: 0,
+            withdrawalStartAge: 65,
+          },
+        },
+      };
+
+      const first = financialSimulationEngine.runSimulation(inputs, config)[0].pensionCapital!;
+
+      expect(first.inkomstpension).toBeCloseTo(1000000 * 1.016 + 7.5 * 80600 * 0.16, 5);
+    });
+  });
+
+  describe("Premiepension Funds", () => {
+    it("should grow premiepension with the chosen funds after fees", () => {
+      const withFunds = (fees: number): EnhancedSimulationInputs => ({
+        ...enhancedInputs,
+        income: { ...enhancedInputs.income, monthlySalary: 0 },
+        pensions: {
+          ...enhancedInputs.pensions,
+          accounts: [],
+          generalPension: {
+            currentInkomstpension: 0,
+            currentPremiepension: 500000,
+            estimatedMonthlyAmount: 0,
+            withdrawalStartAge: 65,
+            premiepensionStrategy: "own-funds",
+            selectedPPMFunds: [{ name: "Aktiefond", allocation: 100, expectedReturn: 0.05, fees }],
+          },
+        },
+      });
+      const config = {
+        includePensions: true,
+        useCustomInvestmentRates: false,
+        enableTransparency: false,
+        startYear: 2025,
+      };
+
+      const cheap = financialSimulationEngine.runSimulation(withFunds(0), config)[0].pensionCapital!;
+      const expensive = financialSimulationEngine.runSimulation(withFunds(0.01), config)[0].pensionCapital!;
+
+      expect(cheap.premiepension).toBeCloseTo(500000 * (1 + 0.05 - 0.0007), 5);
+      expect(expensive.premiepension).toBeCloseTo(500000 * (1 + 0.04 - 0.0007), 5);
+      expect(cheap.inkomstpension).toBe(0);
+    });
+  });
+
+  describe("General Pension Payout", () => {
+    it("should pay allmän pension with delningstal for the birth cohort", () => {
+      const inputs: EnhancedSimulationInputs = {
+        ...enhancedInputs,
+        profile: { ...enhancedInputs.profile, currentAge: 65, desiredRetirementAge: 65 },
+        pensions: {
+          ...enhancedInputs.pensions,
+          accounts: [],
+          generalPension: {
+            currentInkomstpension: 2000000,
+            currentPremiepension: 0,
+            estimatedMonthlyAmount: 0,
+            withdrawalStartAge: 65,
+          },
+        },
+      };
+
+      const projections = financialSimulationEngine.runSimulation(inputs, {
+        includePensions: true,
+        useCustomInvestmentRates: false,
+        enableTransparency: false,
+        startYear: 2025,
+      });
+      const delningstal = generalPensionCalculator.calculateDelningstal(65, 1960);
+
+      expect(projections[0].pensionIncome!.generalPension).toBeCloseTo(2000000 / delningstal / 12, 5);
+      // Real inkomstindex growth of 1.6% cancels the norm
+      expect(projections[10].pensionIncome!.generalPension).toBeCloseTo(
+        projections[0].pensionIncome!.generalPension,
+        5
+      );
+    });
+  });
+
+  describe("Pensioner Benefits", () => {
+    it("should add garantipension and tax-free bostadstillägg for a low pension", () => {
+      const inputs: EnhancedSimulationInputs = {
+        ...enhancedInputs,
+        profile: { ...enhancedInputs.profile, currentAge: 67, desiredRetirementAge: 65 },
+        expenses: { monthlyLiving: 15000, monthlyHousingCost: 5000 },
+        assets: { liquidSavings: 0, iskAccount: 0 },
+        pensions: {
+          ...enhancedInputs.pensions,
+          accounts: [],
+          generalPension: {
+            currentInkomstpension: 400000,
+            currentPremiepension: 0,
+            estimatedMonthlyAmount: 0,
+            withdrawalStartAge: 65,
+          },
+        },
+      };
+
+      const projections = financialSimulationEngine.runSimulation(inputs, {
+        includePensions: true,
+        useCustomInvestmentRates: false,
+        enableTransparency: true,
+        startYear: 2025,
+      });
+      const first = projections[0];
+      const income = first.pensionIncome!;
+      const taxFree = (income.housingSupplement + income.elderlySupport) * 12;
+
+      expect(income.guaranteePension).toBeGreaterThan(0);
+      expect(income.housingSupplement).toBeGreaterThan(0);
+      expect(income.total).toBeCloseTo(
+        income.generalPension + income.guaranteePension + income.housingSupplement + income.elderlySupport,
+        5
+      );
+      // Bostadstillägg and äldreförsörjningsstöd are not taxed
+      expect(first.calculations.netIncome).toBeCloseTo(
+        first.calculations.grossIncome - first.calculations.totalTax,
+        5
+      );
+      expect(first.calculations.grossIncome).toBeCloseTo(
+        (income.generalPension + income.guaranteePension) * 12 + taxFree,
+        5
+      );
+      expect(first.trace?.some((calculation) => calculation.category === "Garantipension")).toBe(true);
+    });
+
+    it("should not pay benefits to a pensioner with a high pension", () => {
+      const inputs: EnhancedSimulationInputs = {
+        ...enhancedInputs,
+        profile: { ...enhancedInputs.profile, currentAge: 67, desiredRetirementAge: 65 },
+        expenses: { monthlyLiving: 15000, monthlyHousingCost: 5000 },
+        pensions: {
+          ...enhancedInputs.pensions,
+          accounts: [],
+          generalPension: {
+            currentInkomstpension: 6000000,
+            currentPremiepension: 0,
+            estimatedMonthlyAmount: 0,
+            withdrawalStartAge: 65,
+          },
+        },
+      };
+
+      const [first] = financialSimulationEngine.runSimulation(inputs, {
+        includePensions: true,
+        useCustomInvestmentRates: false,
+        enableTransparency: false,
+        startYear: 2025,
+      });
+
+      expect(first.pensionIncome!.guaranteePension).toBe(0);
+      expect(first.pensionIncome!.housingSupplement).toBe(0);
+      expect(first.pensionIncome!.elderlySupport).toBe(0);
+    });
+  });
+
+  describe("Transparency", () => {
+    it("should only attach a trace when transparency is enabled", () => {
+      const projections = financialSimulationEngine.runSimulation(basicInputs, {
+        includePensions: false,
+        useCustomInvestmentRates: false,
+        enableTransparency: false,
+        startYear: 2025,
+      });
+
+      expect(projections[0].trace).toBeUndefined();
+    });
+
+    it("should trace tax, employer cost and asset changes each year", () => {
+      const projections = financialSimulationEngine.runSimulation(basicInputs, {
+        includePensions: false,
+        useCustomInvestmentRates: false,
+        enableTransparency: true,
+        startYear: 2025,
+      });
+      const trace = projections[0].trace!;
+      const categories = trace.map((calculation) => calculation.category);
+
+      expect(categories).toContain("Preliminärskatt");
+      expect(categories).toContain("Arbetsgivarkostnad");
+      expect(categories[categories.length - 1]).toBe("Tillgångar och uttag");
+      expect(trace.length).toBeGreaterThan(4);
+      expect(trace.every((calculation) => calculation.steps.length > 0)).toBe(true);
+
+      const assets = trace[trace.length - 1];
+      expect(assets.finalResult).toBeCloseTo(
+        projections[1].assets.liquidAssets + projections[1].assets.iskValue + projections[1].assets.kfValue,
+        5
+      );
+    });
+
+    it("should trace pension withdrawals in retirement", () => {
+      const projections = financialSimulationEngine.runSimulation(enhancedInputs, {
+        includePensions: true,
+        useCustomInvestmentRates: false,
+        enableTransparency: true,
+        startYear: 2025,
+      });
+      const retired = projections.find((p) => p.age === 70)!;
+      const pension = retired.trace!.find((calculation) => calculation.category === "Pension");
+
+      expect(pension?.finalResult).toBeCloseTo(retired.pensionIncome!.total * 12, 5);
+      expect(pension?.steps.some((step) => step.description.startsWith("Allmän pension per månad"))).toBe(true);
+    });
+  });
+
+  describe("Preliminary Tax", () => {
+    it("should compare preliminärskatt with the final tax each year", () => {
+      const projections = financialSimulationEngine.runSimulation(basicInputs, {
+        includePensions: false,
+        useCustomInvestmentRates: false,
+        enableTransparency: false,
+        startYear: 2025,
+      });
+      const first = projections[0].calculations;
+
+      expect(first.preliminaryTax).toBeGreaterThan(0);
+      expect(first.taxRefund).toBeCloseTo(first.preliminaryTax - first.totalTax, 5);
+    });
+
+    it("should show the same refund in the trace as in the projection", () => {
+      const first = financialSimulationEngine.runSimulation(basicInputs, {
+        includePensions: false,
+        useCustomInvestmentRates: false,
+        enableTransparency: true,
+        startYear: 2025,
+      })[0];
+      const withholding = first.trace!.find((calculation) => calculation.category === "Preliminärskatt")!;
+
+      expect(first.calculations.iskTax).toBeGreaterThan(0);
+      expect(withholding.finalResult).toBeCloseTo(first.calculations.taxRefund, 5);
+      expect(withholding.steps.find((step) => step.description.startsWith("Slutlig skatt"))!.result)
+        .toBeCloseTo(first.calculations.totalTax - first.calculations.kfTax, 5);
+    });
+
+    it("should leave the KF tax out of the comparison", () => {
+      const config = {
+        includePensions: false,
+        useCustomInvestmentRates: false,
+        enableTransparency: false,
+        startYear: 2025,
+      };
+      const withoutKf = financialSimulationEngine.runSimulation(basicInputs, config)[0].calculations;
+      const withKf = financialSimulationEngine.runSimulation(
+        { ...basicInputs, assets: { ...basicInputs.assets, capitalInsurance: 1000000 } },
+        config
+      )[0].calculations;
+
+      expect(withKf.kfTax).toBeGreaterThan(0);
+      expect(withKf.totalTax).toBeCloseTo(withoutKf.totalTax + withKf.kfTax, 5);
+      expect(withKf.taxRefund).toBeCloseTo(withoutKf.taxRefund, 5);
+    });
+
+    const severalPayersInputs: EnhancedSimulationInputs = {
+      ...enhancedInputs,
+      pensions: {
+        ...enhancedInputs.pensions,
+        accounts: [
+          {
+            id: "itp",
+            name: "ITP",
+            currentValue: 2000000,
+            provider: "Alecta",
+            type: "tjänste",
+            canChooseWithdrawalAge: true,
+            earliestWithdrawalAge: 55,
+            latestWithdrawalAge: 75,
+            withdrawalSettings: {
+              startAge: 65,
+              monthlyAmount: 10000,
+              isPercentage: false,
+              isLifelong: true,
+            },
+          },
+        ],
+      },
+    };
+
+    it("should give kvarskatt in retirement with several pension payers", () => {
+      const projections = financialSimulationEngine.runSimulation(severalPayersInputs, {
+        includePensions: true,
+        useCustomInvestmentRates: false,
+        enableTransparency: false,
+        startYear: 2025,
+      });
+      const retired = projections.find((p) => p.age === 70);
+
+      expect(retired?.pensionIncome?.occupationalPension).toBeGreaterThan(0);
+      expect(retired!.calculations.taxRefund).toBeLessThan(0);
+    });
+
+    it("should withhold by table from the main pension payer and as sidoinkomst from the others", () => {
+      const projections = financialSimulationEngine.runSimulation(severalPayersInputs, {
+        includePensions: true,
+        useCustomInvestmentRates: false,
+        enableTransparency: true,
+        startYear: 2025,
+      });
+      const retired = projections.find((p) => p.age === 70)!;
+      const steps = retired.trace!.find((calculation) => calculation.category === "Preliminärskatt")!.steps;
+      const stepFor = (payer: string) => steps.find((step) => step.description.startsWith(`${payer}:`))!;
+
+      expect(retired.pensionIncome!.generalPension).toBeGreaterThan(retired.pensionIncome!.occupationalPension);
+      expect(stepFor("Pensionsmyndigheten").description).toContain("skattetabell");
+      expect(stepFor("Tjänstepension").description).toContain("sidoinkomst");
+      expect(stepFor("Tjänstepension").result).toBe(Math.round(retired.pensionIncome!.occupationalPension * 0.3));
+    });
+  });
+
+  describe("Withdrawal Schedule", () => {
+    const scheduleConfig = {
+      includePensions: true,
+      useCustomInvestmentRates: false,
+      enableTransparency: false,
+      startYear: 2025,
+    };
+    const privateAccount = {
+      id: "ips",
+      name: "IPS",
+      currentValue: 500000,
+      provider: "Bank",
+      type: "privat" as const,
+      canChooseWithdrawalAge: true,
+      earliestWithdrawalAge: 55,
+      latestWithdrawalAge: 70,
+      withdrawalSettings: {
+        startAge: 62,
+        monthlyAmount: 0,
+        isPercentage: false,
+        isLifelong: true,
+        schedule: [{ fromAge: 62, percentage: 100, termYears: 5 }],
+      },
+    };
+    const olderInputs: EnhancedSimulationInputs = {
+      ...enhancedInputs,
+      profile: { ...enhancedInputs.profile, currentAge: 60, desiredRetirementAge: 62 },
+    };
+
+    it("should pay a fixed-term account out in full over the term", () => {
+      const projections = financialSimulationEngine.runSimulation(
+        { ...olderInputs, pensions: { ...olderInputs.pensions, accounts: [privateAccount] } },
+        scheduleConfig
+      );
+      const payouts = projections
+        .filter((p) => p.age >= 62 && p.age < 67)
+        .map((p) => p.pensionIncome!.accounts.find((a) => a.accountId === "ips")!.monthlyAmount);
+      const capitalAt62 = 500000 * 1.035 * 1.035;
+
+      expect(payouts).toHaveLength(5);
+      payouts.forEach((payout) => expect(payout).toBeCloseTo(capitalAt62 / 60, 5));
+      expect(projections.find((p) => p.age === 66)!.pensionCapital!.private).toBeCloseTo(0, 5);
+      expect(projections.find((p) => p.age === 67)!.pensionIncome!.privatePension).toBe(0);
+    });
+
+    it("should spread a lifelong payout over the life expectancy for the profile's gender", () => {
+      const lifelongAccount = {
+        ...privateAccount,
+        withdrawalSettings: { ...privateAccount.withdrawalSettings, schedule: [{ fromAge: 62, percentage: 100 }] },
+      };
+      const payoutAt62 = (gender: "man" | "kvinna") =>
+        financialSimulationEngine
+          .runSimulation(
+            {
+              ...olderInputs,
+              profile: { ...olderInputs.profile, gender },
+              pensions: { ...olderInputs.pensions, accounts: [lifelongAccount] },
+            },
+            scheduleConfig
+          )
+          .find((p) => p.age === 62)!
+          .pensionIncome!.accounts.find((a) => a.accountId === "ips")!.monthlyAmount;
+      const capitalAt62 = 500000 * 1.035 * 1.035;
+
+      expect(payoutAt62("kvinna")).toBeCloseTo(capitalAt62 / ((85.4 - 62) * 12), 5);
+      expect(payoutAt62("man")).toBeCloseTo(capitalAt62 / ((82.3 - 62) * 12), 5);
+    });
+
+    it("should scale the allmän pension by the scheduled percentage", () => {
+      const withSchedule = (withdrawalSchedule: { fromAge: number; toAge?: number; percentage: number }[]) =>
+        financialSimulationEngine.runSimulation(
+          {
+            ...olderInputs,
+            pensions: {
+              ...olderInputs.pensions,
+              generalPension: {
+                ...olderInputs.pensions.generalPension,
+                estimatedMonthlyAmount: 20000,
+                withdrawalStartAge: 63,
+                withdrawalSchedule,
+              },
+            },
+          },
+          scheduleConfig
+        );
+      const projections = withSchedule([
+        { fromAge: 63, toAge: 66, percentage: 50 },
+        { fromAge: 66, percentage: 100 },
+      ]);
+
+      expect(projections.find((p) => p.age === 62)!.pensionIncome!.generalPension).toBe(0);
+      expect(projections.find((p) => p.age === 64)!.pensionIncome!.generalPension).toBe(10000);
+      expect(projections.find((p) => p.age === 64)!.pensionIncome!.guaranteePension).toBe(0);
+      expect(projections.find((p) => p.age === 66)!.pensionIncome!.generalPension).toBe(20000);
+    });
+
+    it("should reject percentages and overlaps the rules do not allow", () => {
+      const validation = financialSimulationEngine.validateInputs(
+        {
+          ...enhancedInputs,
+          profile: { ...enhancedInputs.profile, birthYear: 1960 },
+          pensions: {
+            ...enhancedInputs.pensions,
+            generalPension: {
+              ...enhancedInputs.pensions.generalPension,
+              withdrawalSchedule: [{ fromAge: 65, percentage: 40 }],
+            },
+            accounts: [
+              {
+                ...privateAccount,
+                withdrawalSettings: {
+                  ...privateAccount.withdrawalSettings,
+                  schedule: [
+                    { fromAge: 62, percentage: 100, termYears: 7 },
+                    { fromAge: 65, percentage: 100 },
+                  ],
+                },
+              },
+            ],
+          },
+        },
+        scheduleConfig
+      );
+
+      expect(validation.errors.some((e) => e.includes("25, 50, 75, 100%"))).toBe(true);
+      expect(validation.errors.some((e) => e.includes("5, 10, 15, 20 år"))).toBe(true);
+      expect(validation.errors.some((e) => e.includes("överlappar"))).toBe(true);
+    });
+  });
+
   describe("Realistic Scenarios", () => {
     it("should produce reasonable results for typical Swedish worker", () => {
       const typicalSwede: MVPSimulationInputs = {
@@ -590,7 +1672,7 @@ describe("Financial Simulation Engine", () => {
 
       // Should accumulate reasonable wealth by retirement
       expect(summary.retirementNetWorth).toBeGreaterThan(200000); // At least 200k kr
-      expect(summary.retirementNetWorth).toBeLessThan(5000000); // Less than 5M kr
+      expect(summary.retirementNetWorth).toBeLessThan(7500000); // Less than 7.5M kr (net income includes jobbskatteavdrag)
     });
   });
 });
@@ -0,0 +1,158 @@
+// ============================================================================
+// GENERAL PENSION CALCULATOR TESTS
+// Unit tests for pensionsgrundande inkomst, pension rights, indexing and delningstal
+// ============================================================================
+
+import { describe, it, expect } from 'vitest';
+import { generalPensionCalculator } from '../engine/modules/GeneralPensionCalculator';
+import { getTaxParameters } from '../engine/swedish-parameters/TaxParameterRegistry';
+
+describe('General Pension Calculator', () => {
+  const params = getTaxParameters(2025);
+
+  describe('Pensionsgrundande inkomst', () => {
+    it('should deduct the allmän pensionsavgift of 7%', () => {
+      expect(generalPensionCalculator.calculatePensionableIncome(400000, params)).toBeCloseTo(372000, 5);
+    });
+
+    it('should cap PGI at 7.5 IBB', () => {
+      expect(generalPensionCalculator.calculatePensionableIncome(1000000, params)).toBe(604500);
+    });
+
+    it('should give no PGI below 42.3% of the prisbasbelopp', () => {
+      expect(generalPensionCalculator.calculatePensionableIncome(24000, params)).toBe(0);
+      expect(generalPensionCalculator.calculatePensionableIncome(25000, params)).toBeCloseTo(23250, 5);
+    });
+  });
+
+  describe('Pension rights', () => {
+    it('should split 18.5% of PGI into inkomstpension and premiepension', () => {
+      const rights = generalPensionCalculator.calculatePensionRights(400000, params);
+
+      expect(rights.inkomstpension).toBeCloseTo(372000 * 0.16, 5);
+      expect(rights.premiepension).toBeCloseTo(372000 * 0.025, 5);
+      expect(rights.total).toBeCloseTo(372000 * 0.185, 5);
+    });
+  });
+
+  describe('Yearly accrual', () => {
+    it('should index inkomstpension and add the fund return to premiepension', () => {
+      const result = generalPensionCalculator.calculateYearlyAccrual({
+        inkomstpension: 1000000,
+        premiepension: 200000,
+        workIncome: 400000,
+        premiepensionReturn: 0.035,
+        incomeIndexGrowth: 0.02
+      }, params);
+
+      expect(result.inkomstpension).toBeCloseTo(1000000 * 1.02 + 372000 * 0.16, 5);
+      expect(result.premiepension).toBeCloseTo(200000 * 1.035 + 372000 * 0.025, 5);
+      expect(result.calculation.finalResult).toBeCloseTo(result.inkomstpension + result.premiepension, 5);
+    });
+
+    it('should index with real salary growth by default', () => {
+      const result = generalPensionCalculator.calculateYearlyAccrual({
+        inkomstpension: 1000000,
+        premiepension: 0,
+        workIncome: 0,
+        premiepensionReturn: 0
+      }, params);
+
+      expect(result.inkomstpension).toBeCloseTo(1016000, 5);
+    });
+  });
+
+  describe('Delningstal', () => {
+    it('should give a delningstal near 16.75 at 65 for those born 1960', () => {
+      expect(generalPensionCalculator.calculateDelningstal(65, 1960)).toBeCloseTo(16.75, 1);
+    });
+
+    it('should be higher for earlier withdrawal and for later cohorts', () => {
+      const at65 = generalPensionCalculator.calculateDelningstal(65, 1960);
+
+      expect(generalPensionCalculator.calculateDelningstal(62, 1960)).toBeGreaterThan(at65);
+      expect(generalPensionCalculator.calculateDelningstal(70, 1960)).toBeLessThan(at65);
+      expect(generalPensionCalculator.calculateDelningstal(65, 1980)).toBeGreaterThan(at65);
+    });
+  });
+
+  describe('Payout', () => {
+    it('should divide the inkomstpension by the delningstal', () => {
+      const result = generalPensionCalculator.calculatePayout({
+        inkomstpension: 2000000,
+        premiepension: 0,
+        age: 65,
+        birthYear: 1960,
+        premiepensionReturn: 0.035
+      });
+
+      expect(result.inkomstpensionMonthly).toBeCloseTo(2000000 / result.delningstal / 12, 5);
+      expect(result.monthlyPension).toBeCloseTo(result.inkomstpensionMonthly, 5);
+    });
+
+    it('should keep the real pension unchanged when inkomstindex grows with the norm', () => {
+      const first = generalPensionCalculator.calculatePayout({
+        inkomstpension: 2000000,
+        premiepension: 300000,
+        age: 65,
+        birthYear: 1960,
+        premiepensionReturn: 0.035,
+        incomeIndexGrowth: 0.016
+      });
+      const second = generalPensionCalculator.calculatePayout({
+        inkomstpension: first.inkomstpension,
+        premiepension: first.premiepension,
+        age: 66,
+        birthYear: 1960,
+        premiepensionReturn: 0.035,
+        incomeIndexGrowth: 0.016
+      });
+
+      expect(second.monthlyPension).toBeCloseTo(first.monthlyPension, 5);
+    });
+
+    it('should lower the real inkomstpension by the norm without real income growth', () => {
+      const first = generalPensionCalculator.calculatePayout({
+        inkomstpension: 2000000,
+        premiepension: 0,
+        age: 65,
+        birthYear: 1960,
+        premiepensionReturn: 0.035,
+        incomeIndexGrowth: 0
+      });
+      const second = generalPensionCalculator.calculatePayout({
+        inkomstpension: first.inkomstpension,
+        premiepension: 0,
+        age: 66,
+        birthYear: 1960,
+        premiepensionReturn: 0.035,
+        incomeIndexGrowth: 0
+      });
+
+      expect(second.monthlyPension).toBeCloseTo(first.monthlyPension / 1.016, 5);
+    });
+
+    it('should pay only the withdrawn share and index the rest', () => {
+      const full = generalPensionCalculator.calculatePayout({
+        inkomstpension: 2000000,
+        premiepension: 0,
+        age: 65,
+        birthYear: 1960,
+        premiepensionReturn: 0.035,
+        incomeIndexGrowth: 0.016
+      });
+      const half = generalPensionCalculator.calculatePayout({
+        inkomstpension: 2000000,
+        premiepension: 0,
+        age: 65,
+        birthYear: 1960,
+        premiepensionReturn: 0.035,
+        incomeIndexGrowth: 0.016,
+        withdrawalShare: 0.5
+      });
+
+      expect(half.monthlyPension).toBeCloseTo(full.monthlyPension / 2, 5);
+      expect(half.inkomstpension).toBeCloseTo(full.inkomstpension / 2 + 1000000 * 1.016, 5);
+    });
+  });
+});
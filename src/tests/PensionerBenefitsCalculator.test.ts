@@ -0,0 +1,131 @@
+// ============================================================================
+// PENSIONER BENEFITS CALCULATOR TESTS
+// Unit tests for garantipension, bostadstillägg and äldreförsörjningsstöd
+// ============================================================================
+
+import { describe, it, expect } from 'vitest';
+import { pensionerBenefitsCalculator } from '../engine/modules/PensionerBenefitsCalculator';
+import { getTaxParameters } from '../engine/swedish-parameters/TaxParameterRegistry';
+import { getPensionAges } from '../engine/swedish-parameters/TaxParameters2025';
+
+describe('Pensioner Benefits Calculator', () => {
+  const params = getTaxParameters(2025);
+  const pbb = params.prisBasbelopp;
+  const singleGuarantee = 2.3212 * pbb;
+
+  describe('Garantipension', () => {
+    it('should pay the full level without inkomstgrundad pension', () => {
+      const single = pensionerBenefitsCalculator.calculateGuaranteePension(0, 66, params);
+      const married = pensionerBenefitsCalculator.calculateGuaranteePension(0, 66, params, 'gift_sambo');
+
+      expect(single.amount).toBeCloseTo(singleGuarantee, 5);
+      expect(married.amount).toBeCloseTo(2.0730 * pbb, 5);
+    });
+
+    it('should reduce krona för krona up to the limit and by 48% above it', () => {
+      const limit = 1.26 * pbb;
+      const low = pensionerBenefitsCalculator.calculateGuaranteePension(50000, 66, params);
+      const high = pensionerBenefitsCalculator.calculateGuaranteePension(100000, 66, params);
+
+      expect(low.amount).toBeCloseTo(singleGuarantee - 50000, 5);
+      expect(high.amount).toBeCloseTo(singleGuarantee - limit - (100000 - limit) * 0.48, 5);
+    });
+
+    it('should pay nothing for a high pension or before 66', () => {
+      expect(pensionerBenefitsCalculator.calculateGuaranteePension(250000, 66, params).amount).toBe(0);
+      expect(pensionerBenefitsCalculator.calculateGuaranteePension(0, 65, params).amount).toBe(0);
+    });
+  });
+
+  describe('Pension ages by birth year', () => {
+    it('should follow the transition rules up to riktålder 67', () => {
+      expect(getPensionAges(1958)).toEqual({ riktålder: 66, earliestGeneralPension: 62, guaranteePension: 66, las: 69 });
+      expect(getPensionAges(1961).earliestGeneralPension).toBe(63);
+      expect(getPensionAges(1963)).toEqual({ riktålder: 67, earliestGeneralPension: 64, guaranteePension: 67, las: 69 });
+    });
+
+    it('should derive later ages from riktåldern', () => {
+      expect(getPensionAges(1996)).toEqual({ riktålder: 69, earliestGeneralPension: 66, guaranteePension: 69, las: 71 });
+    });
+
+    it('should start garantipension at riktåldern for the birth year', () => {
+      const before = pensionerBenefitsCalculator.calculateGuaranteePension(0, 68, params, undefined, 1996);
+      const from = pensionerBenefitsCalculator.calculateGuaranteePension(0, 69, params, undefined, 1996);
+
+      expect(before.amount).toBe(0);
+      expect(from.amount).toBeCloseTo(singleGuarantee, 5);
+    });
+  });
+
+  describe('Bostadstillägg', () => {
+    const baseInputs = {
+      age: 67,
+      monthlyHousingCost: 6000,
+      yearlyIncome: singleGuarantee,
+      assets: 0
+    };
+
+    it('should cover 96% of the housing cost up to the ceiling', () => {
+      const result = pensionerBenefitsCalculator.calculateHousingSupplement(baseInputs, params);
+      const capped = pensionerBenefitsCalculator.calculateHousingSupplement(
+        { ...baseInputs, monthlyHousingCost: 10000 }, params
+      );
+
+      expect(result.amount).toBeCloseTo(6000 * 12 * 0.96, 5);
+      expect(capped.amount).toBeCloseTo(7540 * 12 * 0.96, 5);
+    });
+
+    it('should reduce by 62% of income above the garanti level', () => {
+      const result = pensionerBenefitsCalculator.calculateHousingSupplement(
+        { ...baseInputs, yearlyIncome: singleGuarantee + 10000 }, params
+      );
+
+      expect(result.amount).toBeCloseTo(6000 * 12 * 0.96 - 6200, 5);
+    });
+
+    it('should count 15% of assets above the exemption as income', () => {
+      const result = pensionerBenefitsCalculator.calculateHousingSupplement(
+        { ...baseInputs, assets: 300000 }, params
+      );
+
+      expect(result.amount).toBeCloseTo(6000 * 12 * 0.96 - 200000 * 0.15 * 0.62, 5);
+    });
+
+    it('should pay nothing without housing cost or before 66', () => {
+      expect(pensionerBenefitsCalculator.calculateHousingSupplement(
+        { ...baseInputs, monthlyHousingCost: 0 }, params
+      ).amount).toBe(0);
+      expect(pensionerBenefitsCalculator.calculateHousingSupplement(
+        { ...baseInputs, age: 65 }, params
+      ).amount).toBe(0);
+    });
+  });
+
+  describe('Äldreförsörjningsstöd', () => {
+    it('should lift the income after tax to the skälig levnadsnivå', () => {
+      const result = pensionerBenefitsCalculator.calculateElderlySupport({
+        age: 67,
+        monthlyHousingCost: 5000,
+        yearlyNetIncome: 100000,
+        housingSupplement: 20000,
+        assets: 0
+      }, params);
+
+      expect(result.amount).toBeCloseTo(1.3546 * pbb + 60000 - 120000, 5);
+      expect(result.calculation.category).toBe('Äldreförsörjningsstöd');
+    });
+
+    it('should pay nothing when the income covers the level', () => {
+      const result = pensionerBenefitsCalculator.calculateElderlySupport({
+        age: 67,
+        civilStatus: 'gift_sambo',
+        monthlyHousingCost: 3000,
+        yearlyNetIncome: 200000,
+        housingSupplement: 0,
+        assets: 0
+      }, params);
+
+      expect(result.amount).toBe(0);
+    });
+  });
+});
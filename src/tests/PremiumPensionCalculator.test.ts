@@ -0,0 +1,67 @@
+// ============================================================================
+// PREMIUM PENSION CALCULATOR TESTS
+// Unit tests for the AP7 Såfa glide path, fund fees and fondrabatt
+// ============================================================================
+
+import { describe, it, expect } from 'vitest';
+import { premiumPensionCalculator } from '../engine/modules/PremiumPensionCalculator';
+
+describe('Premium Pension Calculator', () => {
+  describe('AP7 Såfa', () => {
+    it('should hold only equities up to 55', () => {
+      expect(premiumPensionCalculator.getSafaEquityShare(40)).toBe(1);
+      expect(premiumPensionCalculator.getSafaEquityShare(55)).toBe(1);
+    });
+
+    it('should move towards räntor from 56 and reach 33% equities at 75', () => {
+      const at56 = premiumPensionCalculator.getSafaEquityShare(56);
+      const at65 = premiumPensionCalculator.getSafaEquityShare(65);
+
+      expect(at56).toBeLessThan(1);
+      expect(at65).toBeLessThan(at56);
+      expect(premiumPensionCalculator.getSafaEquityShare(75)).toBeCloseTo(0.33, 10);
+      expect(premiumPensionCalculator.getSafaEquityShare(80)).toBeCloseTo(0.33, 10);
+    });
+
+    it('should be the default and deduct fund and administration fees', () => {
+      const result = premiumPensionCalculator.calculateYearlyReturn(40);
+
+      expect(result.equityShare).toBe(1);
+      expect(result.grossReturn).toBeCloseTo(0.045, 10);
+      expect(result.netReturn).toBeCloseTo(0.045 - 0.0005 - 0.0007, 10);
+    });
+
+    it('should give a lower expected return closer to retirement', () => {
+      const young = premiumPensionCalculator.calculateYearlyReturn(40);
+      const old = premiumPensionCalculator.calculateYearlyReturn(70);
+
+      expect(old.netReturn).toBeLessThan(young.netReturn);
+    });
+  });
+
+  describe('Own funds', () => {
+    it('should weight returns by allocation and reduce fees by the fondrabatt', () => {
+      const result = premiumPensionCalculator.calculateYearlyReturn(40, {
+        premiepensionStrategy: 'own-funds',
+        selectedPPMFunds: [
+          { name: 'Global aktiefond', allocation: 75, expectedReturn: 0.05, fees: 0.012, rebate: 0.75 },
+          { name: 'Räntefond', allocation: 25, expectedReturn: 0.01, fees: 0.002 }
+        ]
+      });
+
+      expect(result.equityShare).toBeUndefined();
+      expect(result.grossReturn).toBeCloseTo(0.04, 10);
+      expect(result.fundFees).toBeCloseTo(0.75 * 0.003 + 0.25 * 0.002, 10);
+      expect(result.netReturn).toBeCloseTo(0.04 - result.fundFees - 0.0007, 10);
+    });
+
+    it('should fall back to AP7 Såfa without any funds', () => {
+      const result = premiumPensionCalculator.calculateYearlyReturn(40, {
+        premiepensionStrategy: 'own-funds',
+        selectedPPMFunds: []
+      });
+
+      expect(result.equityShare).toBe(1);
+    });
+  });
+});
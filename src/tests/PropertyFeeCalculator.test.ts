@@ -0,0 +1,146 @@
+// ============================================================================
+// PROPERTY FEE CALCULATOR TESTS
+// Unit tests for fastighetsavgift and fastighetsskatt
+// ============================================================================
+
+import { describe, it, expect } from 'vitest';
+import { propertyFeeCalculator } from '../engine/modules/PropertyFeeCalculator';
+import { taxCalculator } from '../engine/modules/TaxCalculator';
+import { financialSimulationEngine } from '../engine/core/FinancialSimulationEngine';
+import { getTaxParameters } from '../engine/swedish-parameters/TaxParameterRegistry';
+import { MVPSimulationInputs } from '../types';
+
+describe('Property Fee Calculator', () => {
+  const params = getTaxParameters(2025);
+
+  describe('Kommunal fastighetsavgift', () => {
+    it('should charge 0.75% of taxeringsvärde below the cap', () => {
+      const result = propertyFeeCalculator.calculatePropertyFees(
+        [{ type: 'villa', taxAssessedValue: 1000000 }], 40, 500000, params
+      );
+
+      expect(result.propertyFee).toBe(7500);
+      expect(result.propertyTax).toBe(0);
+    });
+
+    it('should cap the avgift at the yearly maximum', () => {
+      const result = propertyFeeCalculator.calculatePropertyFees(
+        [{ type: 'villa', taxAssessedValue: 4000000 }], 40, 500000, params
+      );
+
+      expect(result.propertyFee).toBe(9809);
+    });
+
+    it('should charge ägarlägenheter and fritidshus but not bostadsrätter', () => {
+      const result = propertyFeeCalculator.calculatePropertyFees([
+        { type: 'ägarlägenhet', taxAssessedValue: 800000 },
+        { type: 'fritidshus', taxAssessedValue: 600000 },
+        { type: 'bostadsrätt', taxAssessedValue: 3000000 }
+      ], 40, 500000, params);
+
+      expect(result.propertyFee).toBe(6000 + 4500);
+      expect(result.calculation.steps).toHaveLength(3);
+    });
+
+    it('should use the cap for the calendar year', () => {
+      const result = propertyFeeCalculator.calculatePropertyFees(
+        [{ type: 'villa', taxAssessedValue: 4000000 }], 40, 500000, getTaxParameters(2024)
+      );
+
+      expect(result.propertyFee).toBe(9525);
+    });
+  });
+
+  describe('Pensioner limit', () => {
+    it('should limit the avgift to 4% of income from 66', () => {
+      const result = propertyFeeCalculator.calculatePropertyFees(
+        [{ type: 'villa', taxAssessedValue: 4000000 }], 70, 150000, params
+      );
+
+      expect(result.propertyFee).toBe(6000);
+    });
+
+    it('should charge a fritidshus in full from 66', () => {
+      const result = propertyFeeCalculator.calculatePropertyFees(
+        [{ type: 'fritidshus', taxAssessedValue: 4000000 }], 70, 150000, params
+      );
+
+      expect(result.propertyFee).toBe(9809);
+    });
+
+    it('should only limit the avgift on the permanentbostad', () => {
+      const result = propertyFeeCalculator.calculatePropertyFees([
+        { type: 'villa', taxAssessedValue: 4000000 },
+        { type: 'fritidshus', taxAssessedValue: 600000 },
+        { type: 'villa', taxAssessedValue: 800000, isPermanentHome: false }
+      ], 70, 150000, params);
+
+      expect(result.propertyFee).toBe(6000 + 4500 + 6000);
+    });
+
+    it('should not limit the avgift before 66', () => {
+      const result = propertyFeeCalculator.calculatePropertyFees(
+        [{ type: 'villa', taxAssessedValue: 4000000 }], 65, 150000, params
+      );
+
+      expect(result.propertyFee).toBe(9809);
+    });
+  });
+
+  describe('Statlig fastighetsskatt', () => {
+    it('should tax homes under construction as tomtmark at 1%', () => {
+      const result = propertyFeeCalculator.calculatePropertyFees(
+        [{ type: 'villa', taxAssessedValue: 500000, isUnderConstruction: true }], 40, 500000, params
+      );
+
+      expect(result.propertyFee).toBe(0);
+      expect(result.propertyTax).toBe(5000);
+    });
+  });
+
+  describe('Integration', () => {
+    it('should report fastighetsavgift separately from income tax', () => {
+      const withHome = taxCalculator.calculateYearlyTax({
+        grossSalary: 500000,
+        age: 40,
+        iskCapital: 0,
+        kfCapital: 0,
+        homes: [{ type: 'villa', taxAssessedValue: 2000000 }]
+      });
+      const withoutHome = taxCalculator.calculateYearlyTax({
+        grossSalary: 500000,
+        age: 40,
+        iskCapital: 0,
+        kfCapital: 0
+      });
+
+      expect(withHome.propertyFee).toBe(9809);
+      expect(withHome.totalTax).toBe(withoutHome.totalTax);
+      expect(withHome.calculations.find(c => c.category === 'Fastighetsavgift')).toBeDefined();
+    });
+
+    it('should add the avgift to yearly expenses in the simulation', () => {
+      const inputs: MVPSimulationInputs = {
+        profile: { currentAge: 40, gender: 'kvinna', desiredRetirementAge: 65 },
+        income: { monthlySalary: 45000, realSalaryGrowth: 0 },
+        expenses: { monthlyLiving: 25000 },
+        assets: {
+          liquidSavings: 100000,
+          iskAccount: 0,
+          home: { type: 'villa', taxAssessedValue: 1000000 }
+        },
+        investments: { liquidSavingsRate: 0.005, iskAccountRate: 0.035 }
+      };
+
+      const projections = financialSimulationEngine.runSimulation(inputs, {
+        includePensions: false,
+        useCustomInvestmentRates: false,
+        enableTransparency: false,
+        startYear: 2025
+      });
+
+      expect(projections[0].calculations.propertyFee).toBe(7500);
+      expect(projections[0].expenses).toBe(25000 * 12 + 7500);
+    });
+  });
+});
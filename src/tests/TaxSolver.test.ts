@@ -0,0 +1,67 @@
+// ============================================================================
+// TAX SOLVER TESTS
+// Unit tests for solving gross income from a target net income
+// ============================================================================
+
+import { describe, it, expect } from 'vitest';
+import { taxSolver } from '../engine/modules/TaxSolver';
+import { taxCalculator } from '../engine/modules/TaxCalculator';
+
+describe('Tax Solver', () => {
+  it('should find the gross salary for a target net income', () => {
+    const result = taxSolver.solveGrossIncome({
+      targetNetIncome: 35000 * 12,
+      incomeType: 'salary',
+      age: 40
+    });
+
+    expect(result.netIncome).toBeGreaterThanOrEqual(35000 * 12);
+    expect(result.netIncome - 35000 * 12).toBeLessThan(5);
+    expect(Number.isInteger(result.grossIncome)).toBe(true);
+  });
+
+  it('should return the lowest gross amount that reaches the target', () => {
+    const result = taxSolver.solveGrossIncome({
+      targetNetIncome: 300000,
+      incomeType: 'salary',
+      age: 40
+    });
+    const oneKronaLess = taxCalculator.calculateNetIncome(result.grossIncome - 1, 40);
+
+    expect(oneKronaLess).toBeLessThan(300000);
+  });
+
+  it('should need more gross pension than salary for the same net income', () => {
+    const inputs = { targetNetIncome: 35000 * 12, age: 67 };
+    const asPension = taxSolver.solveGrossIncome({ ...inputs, incomeType: 'pension' });
+    const asSalary = taxSolver.solveGrossIncome({ ...inputs, incomeType: 'salary' });
+
+    expect(asPension.grossIncome).toBeGreaterThan(asSalary.grossIncome);
+    expect(asPension.taxResult.earnedIncomeTaxCredit).toBe(0);
+  });
+
+  it('should use the municipality tax rate', () => {
+    const inputs = { targetNetIncome: 400000, incomeType: 'salary' as const, age: 40 };
+    const osteraker = taxSolver.solveGrossIncome({ ...inputs, municipalityCode: '0117' });
+    const dorotea = taxSolver.solveGrossIncome({ ...inputs, municipalityCode: '2425' });
+
+    expect(dorotea.grossIncome).toBeGreaterThan(osteraker.grossIncome);
+  });
+
+  it('should solve above the state tax threshold', () => {
+    const result = taxSolver.solveGrossIncome({
+      targetNetIncome: 70000 * 12,
+      incomeType: 'salary',
+      age: 40
+    });
+
+    expect(result.taxResult.stateTax).toBeGreaterThan(0);
+    expect(result.netIncome).toBeGreaterThanOrEqual(70000 * 12);
+  });
+
+  it('should return zero gross for a zero target', () => {
+    const result = taxSolver.solveGrossIncome({ targetNetIncome: 0, incomeType: 'salary', age: 40 });
+
+    expect(result.grossIncome).toBe(0);
+  });
+});
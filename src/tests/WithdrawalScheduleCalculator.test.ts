@@ -0,0 +1,98 @@
+// ============================================================================
+// WITHDRAWAL SCHEDULE CALCULATOR TESTS
+// Unit tests for partial allmän pension and fixed-term or lifelong payouts
+// ============================================================================
+
+import { describe, it, expect } from 'vitest';
+import { withdrawalScheduleCalculator } from '../engine/modules/WithdrawalScheduleCalculator';
+import { PensionAccount, WithdrawalSegment } from '../types/pension';
+
+describe('Withdrawal Schedule Calculator', () => {
+  const createAccount = (schedule?: WithdrawalSegment[], monthlyAmount = 0): PensionAccount => ({
+    id: 'itp1',
+    name: 'ITP1',
+    currentValue: 1200000,
+    provider: 'Collectum',
+    type: 'tjänste',
+    canChooseWithdrawalAge: true,
+    earliestWithdrawalAge: 55,
+    latestWithdrawalAge: 70,
+    withdrawalSettings: { startAge: 65, monthlyAmount, isPercentage: false, isLifelong: true, schedule }
+  });
+
+  describe('Segments', () => {
+    it('should use a single lifelong segment without a schedule', () => {
+      const account = createAccount();
+
+      expect(withdrawalScheduleCalculator.isWithdrawing(account, 64)).toBe(false);
+      expect(withdrawalScheduleCalculator.isWithdrawing(account, 95)).toBe(true);
+    });
+
+    it('should end a fixed term after its years and a segment at its to-age', () => {
+      const schedule = [
+        { fromAge: 60, toAge: 62, percentage: 50 },
+        { fromAge: 65, percentage: 100, termYears: 10 }
+      ];
+
+      expect(withdrawalScheduleCalculator.getActiveSegment(schedule, 61)?.percentage).toBe(50);
+      expect(withdrawalScheduleCalculator.getActiveSegment(schedule, 63)).toBeUndefined();
+      expect(withdrawalScheduleCalculator.getActiveSegment(schedule, 74)?.termYears).toBe(10);
+      expect(withdrawalScheduleCalculator.getActiveSegment(schedule, 75)).toBeUndefined();
+    });
+
+    it('should take the allmän pension share from the schedule', () => {
+      const generalPension = {
+        currentInkomstpension: 0,
+        currentPremiepension: 0,
+        estimatedMonthlyAmount: 0,
+        withdrawalStartAge: 63,
+        withdrawalSchedule: [
+          { fromAge: 63, toAge: 65, percentage: 25 },
+          { fromAge: 65, percentage: 100 }
+        ]
+      };
+
+      expect(withdrawalScheduleCalculator.getGeneralPensionShare(generalPension, 62)).toBe(0);
+      expect(withdrawalScheduleCalculator.getGeneralPensionShare(generalPension, 64)).toBe(0.25);
+      expect(withdrawalScheduleCalculator.getGeneralPensionShare(generalPension, 70)).toBe(1);
+      expect(withdrawalScheduleCalculator.getGeneralPensionShare(
+        { ...generalPension, withdrawalSchedule: undefined }, 63
+      )).toBe(1);
+    });
+  });
+
+  describe('Account payout', () => {
+    it('should spread the capital over the rest of a fixed term', () => {
+      const account = createAccount([{ fromAge: 65, percentage: 100, termYears: 5 }]);
+
+      const first = withdrawalScheduleCalculator.calculateAccountPayout(account, 65, 85);
+      const last = withdrawalScheduleCalculator.calculateAccountPayout(account, 69, 85);
+
+      expect(first.monthlyAmount).toBeCloseTo(1200000 / 60, 5);
+      expect(last.monthlyAmount).toBeCloseTo(1200000 / 12, 5);
+    });
+
+    it('should spread a lifelong payout over the remaining life expectancy', () => {
+      const account = createAccount([{ fromAge: 65, percentage: 50 }]);
+
+      const result = withdrawalScheduleCalculator.calculateAccountPayout(account, 65, 85);
+
+      expect(result.monthlyAmount).toBeCloseTo(1200000 * 0.5 / (20 * 12), 5);
+    });
+
+    it('should scale a chosen monthly amount by the percentage', () => {
+      const account = createAccount([{ fromAge: 65, percentage: 75 }], 10000);
+
+      const result = withdrawalScheduleCalculator.calculateAccountPayout(account, 66, 85);
+
+      expect(result.monthlyAmount).toBe(7500);
+      expect(result.calculation.steps).toHaveLength(1);
+    });
+
+    it('should pay nothing between segments', () => {
+      const account = createAccount([{ fromAge: 60, toAge: 62, percentage: 100 }]);
+
+      expect(withdrawalScheduleCalculator.calculateAccountPayout(account, 63, 85).monthlyAmount).toBe(0);
+    });
+  });
+});
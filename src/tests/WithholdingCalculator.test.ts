@@ -0,0 +1,119 @@
+// ============================================================================
+// WITHHOLDING CALCULATOR TESTS
+// Unit tests for preliminärskatt from skattetabeller, återbetalning and kvarskatt
+// ============================================================================
+
+import { describe, it, expect } from 'vitest';
+import { withholdingCalculator } from '../engine/modules/WithholdingCalculator';
+import { getTaxParameters } from '../engine/swedish-parameters/TaxParameterRegistry';
+
+describe('Withholding Calculator', () => {
+  describe('Skattetabell and column', () => {
+    it('should use the national average rate without a municipality', () => {
+      const expected = Math.round(getTaxParameters(2025).averageMunicipalTax * 100);
+
+      expect(withholdingCalculator.getTableNumber(undefined, false, 2025)).toBe(expected);
+    });
+
+    it('should include kyrkoavgift for church members', () => {
+      const member = withholdingCalculator.getTableNumber('1480', true);
+      const nonMember = withholdingCalculator.getTableNumber('1480', false);
+
+      expect(member).toBeGreaterThanOrEqual(nonMember);
+      expect(nonMember).toBeGreaterThanOrEqual(29);
+      expect(nonMember).toBeLessThanOrEqual(36);
+    });
+
+    it('should pick the column by age and income type', () => {
+      expect(withholdingCalculator.getTableColumn(40, 'salary')).toBe(1);
+      expect(withholdingCalculator.getTableColumn(67, 'pension')).toBe(2);
+      expect(withholdingCalculator.getTableColumn(63, 'pension')).toBe(3);
+      expect(withholdingCalculator.getTableColumn(68, 'salary')).toBe(4);
+    });
+
+    it('should withhold less on pension from 66 than on the same salary', () => {
+      const pension = withholdingCalculator.calculateTableTax(25000, 'pension', 70, 32, 2025);
+      const salary = withholdingCalculator.calculateTableTax(25000, 'salary', 40, 32, 2025);
+
+      expect(pension).toBeGreaterThan(0);
+      expect(pension).toBeLessThan(salary); // Förhöjt grundavdrag from 66
+    });
+
+    it('should withhold the same amount within a hundred-kronor band', () => {
+      const low = withholdingCalculator.calculateTableTax(30000, 'salary', 40, 32, 2025);
+      const high = withholdingCalculator.calculateTableTax(30099, 'salary', 40, 32, 2025);
+
+      expect(low).toBe(high);
+    });
+  });
+
+  describe('Återbetalning and kvarskatt', () => {
+    it('should roughly match the final tax with a single table payer', () => {
+      const result = withholdingCalculator.simulateWithholding({
+        payers: [{ name: 'Arbetsgivare', monthlyAmount: 40050, incomeType: 'salary' }],
+        age: 40,
+        year: 2025,
+        municipalityCode: '0180'
+      });
+
+      expect(result.preliminaryTax).toBeGreaterThan(0);
+      // Only the whole-percent rounding of the table separates the two
+      expect(Math.abs(result.difference)).toBeLessThan(result.finalTax * 0.02);
+    });
+
+    it('should give kvarskatt when several pension payers use the table', () => {
+      const result = withholdingCalculator.simulateWithholding({
+        payers: [
+          { name: 'Pensionsmyndigheten', monthlyAmount: 18000, incomeType: 'pension', usesTaxTable: true },
+          { name: 'Tjänstepension', monthlyAmount: 12000, incomeType: 'pension', usesTaxTable: true }
+        ],
+        age: 70,
+        year: 2025
+      });
+
+      // Each payer gives the full grundavdrag
+      expect(result.difference).toBeLessThan(-5000);
+      expect(result.calculation.category).toBe('Preliminärskatt');
+      expect(result.calculation.finalResult).toBe(result.difference);
+    });
+
+    it('should withhold 30% from secondary payers by default', () => {
+      const result = withholdingCalculator.simulateWithholding({
+        payers: [
+          { name: 'Pensionsmyndigheten', monthlyAmount: 18000, incomeType: 'pension' },
+          { name: 'Tjänstepension', monthlyAmount: 12000, incomeType: 'pension' }
+        ],
+        age: 70,
+        year: 2025
+      });
+
+      expect(result.payers[0].method).toBe('skattetabell');
+      expect(result.payers[0].column).toBe(2);
+      expect(result.payers[1].method).toBe('sidoinkomst');
+      expect(result.payers[1].monthlyTax).toBe(3600);
+    });
+
+    it('should compare with a final tax and other preliminary tax given by the caller', () => {
+      const result = withholdingCalculator.simulateWithholding({
+        payers: [{ name: 'Arbetsgivare', monthlyAmount: 40000, incomeType: 'salary' }],
+        age: 40,
+        year: 2025,
+        otherPreliminaryTax: 20000,
+        finalTax: 150000
+      });
+
+      expect(result.preliminaryTax).toBe(result.payers[0].monthlyTax * 12 + 20000);
+      expect(result.finalTax).toBe(150000);
+      expect(result.difference).toBe(result.preliminaryTax - 150000);
+      expect(result.finalTaxResult).toBeUndefined();
+    });
+
+    it('should be zero without any payers', () => {
+      const result = withholdingCalculator.simulateWithholding({ payers: [], age: 40 });
+
+      expect(result.preliminaryTax).toBe(0);
+      expect(result.finalTax).toBe(0);
+      expect(result.difference).toBe(0);
+    });
+  });
+});
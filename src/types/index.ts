@@ -2,11 +2,14 @@
 // SWEDISH PERSONAL FINANCE LIFETIME SIMULATOR - TYPE DEFINITIONS
 // ============================================================================
 
+// Gift and sambo count as married for garantipension and bostadstillägg
+export type CivilStatus = 'ensamstående' | 'gift_sambo' | 'särbo';
+
 export interface UserProfile {
   currentAge: number;
   gender: 'man' | 'kvinna';
   desiredRetirementAge: number;
-  civilStatus?: 'ensamstående' | 'gift_sambo' | 'särbo';
+  civilStatus?: CivilStatus;
   children?: Array<{ age: number }>;
 }
 
@@ -53,6 +56,14 @@ export interface Property {
   deferredAmount?: number; // uppskovsbelopp
 }
 
+// Owned home for fastighetsavgift and fastighetsskatt
+export interface OwnedHome {
+  type: Property['type'];
+  taxAssessedValue: number; // Taxeringsvärde, usually about 75% of market value
+  isUnderConstruction?: boolean; // Taxed as tomtmark with statlig fastighetsskatt instead of avgift
+  isPermanentHome?: boolean; // Permanentbostad, defaults to every type except fritidshus
+}
+
 export interface Loan {
   id: string;
   type: 'bolån' | 'studielån' | 'privatlån' | 'billån' | 'kreditkort';
@@ -99,19 +110,24 @@ export interface IncomeParameters {
   }>;
 }
 
+export interface PPMFund {
+  name: string;
+  allocation: number; // percentage
+  expectedReturn: number; // Real yearly return before fees, as a decimal
+  fees: number; // Yearly fund fee, as a decimal
+  rebate?: number; // Fondrabatt: share of the fee given back
+}
+
+export type PremiepensionStrategy = 'ap7-safa' | 'own-funds';
+
 export interface GeneralPension {
   currentInkomstpensionCapital: number;
   currentPremiepensionCapital: number;
-  selectedPPMFunds?: Array<{
-    name: string;
-    allocation: number; // percentage
-    expectedReturn: number;
-    fees: number;
-  }>;
+  selectedPPMFunds?: PPMFund[];
 }
 
 export interface OccupationalPension {
-  agreementType: 'ITP1' | 'ITP2' | 'SAF-LO' | 'KAP-KL' | 'AKAP-KR' | 'PA16' | 'other';
+  agreementType: Exclude<PensionAgreement, 'none'> | 'other';
   currentCapital?: number;
   employerContribution?: {
     percentageUpToLimit: number;
@@ -192,6 +208,7 @@ export interface SwedishTaxParameters2025 {
     under66: number; // 643,100 kr/year
     over66: number; // 733,200 kr/year
   };
+  stateTaxThreshold: number; // Skiktgräns 625,800 kr/year (taxable income)
   stateTaxRate: number; // 20%
   averageMunicipalTax: number; // 32.41%
   generalPensionFee: number; // 7% of PGI
@@ -207,6 +224,9 @@ export interface SwedishTaxParameters2025 {
     securities: number; // 30%
     primaryHome: number; // 22%
   };
+  capitalLossDeduction: {
+    listedSecurities: number; // 70% of losses not offset against listed gains
+  };
   interestDeduction: {
     rate1: number; // 30% (up to 100k)
     rate2: number; // 21% (above 100k)
@@ -214,6 +234,152 @@ export interface SwedishTaxParameters2025 {
   };
 }
 
+// One interval of a statutory formula expressed in prisbasbelopp (pbb).
+// Within the interval the value is (base + rate × (income − previous upTo)) pbb.
+export interface PrisbasbeloppStep {
+  upTo: number; // Upper bound of the interval in pbb (Infinity for the last one)
+  base: number; // Value in pbb at the start of the interval
+  rate: number; // Change in value per pbb of income within the interval
+}
+
+// Tax parameters for a single income year (inkomstår)
+export interface TaxYearParameters {
+  year: number;
+  isForecast: boolean; // true = forward-projected from the latest decided year
+  carriedOver?: string[]; // Rules in a decided year taken unchanged from 2025, shown as prognos
+  inkomstBasbelopp: number;
+  prisBasbelopp: number;
+  stateTaxBreakpoint: {
+    under66: number;
+    over66: number;
+  };
+  stateTaxThreshold: number; // Skiktgräns, applied to beskattningsbar förvärvsinkomst
+  stateTaxRate: number;
+  averageMunicipalTax: number;
+  generalPensionFee: number;
+  generalPensionFeeLimits: {
+    maxIncomeIbb: number; // Fee is charged on income up to this many IBB
+    minIncomePbb: number; // No fee if income is below this share of pbb
+  };
+  publicServiceFee: {
+    rate: number; // Share of beskattningsbar förvärvsinkomst
+    maximum: number; // kr per year
+  };
+  propertyFee: {
+    rate: number; // Kommunal fastighetsavgift, share of taxeringsvärde for småhus and ägarlägenhet
+    maximum: number; // kr per year and home
+    pensionerIncomeShare: number; // From 66, the avgift is limited to this share of income
+  };
+  propertyTax: {
+    landRate: number; // Statlig fastighetsskatt on tomtmark (home under construction)
+  };
+  iskKfParameters: {
+    governmentBondRate: number; // Statslåneränta 30 Nov previous year
+    supplement: number;
+    minRate: number;
+    taxRate: number;
+    taxFreeAmount: number; // Skattefri grundnivå for the year
+  };
+  capitalGainsTax: {
+    securities: number;
+    primaryHome: number;
+  };
+  capitalLossDeduction: {
+    listedSecurities: number; // Deductible share of listed losses left after offsetting listed gains
+  };
+  interestDeduction: {
+    rate1: number; // Skattereduktion för underskott av kapital up to threshold
+    rate2: number; // Skattereduktion above threshold
+    threshold: number;
+  };
+  employerContributions: {
+    fullRate: number; // Arbetsgivaravgifter in total
+    oldAgeRate: number; // Only ålderspensionsavgift, for those who have turned oldAgeFrom at the start of the year
+    oldAgeFrom: number;
+    youthReduction?: {
+      minAge: number; // Age at the start of the year
+      maxAge: number;
+      rate: number; // Reduced rate on salary up to monthlyCeiling
+      monthlyCeiling: number; // kr per month
+      months: number; // Months of the year the reduction applies
+    };
+  };
+  specialPayrollTax: number; // Särskild löneskatt on pension premiums paid by the employer
+  selfEmploymentContributions: {
+    fullRate: number; // Egenavgifter in total
+    oldAgeRate: number; // Only ålderspensionsavgift, for those who have turned oldAgeFrom at the start of the year
+    oldAgeFrom: number;
+    standardDeduction: number; // Schablonavdrag for egenavgifter, share of income before the avdrag
+    standardDeductionOldAge: number; // Schablonavdrag when only ålderspensionsavgift is paid
+    reductionRate: number; // Generell nedsättning of egenavgifter (under oldAgeFrom)
+    reductionMaxBase: number; // Avgiftsunderlag the nedsättning applies to, kr per year
+  };
+  closeCompany: {
+    previousYearIbb: number; // 3:12 amounts use the inkomstbasbelopp of the year before
+    baseAmountIbb: number; // Förenklingsregel (to 2025) or grundbelopp (from 2026), split by ownership
+    baseAmountWithMainRule: boolean; // From 2026 the grundbelopp is added to the huvudregel amounts
+    wageShare: number; // Share of the company's löneunderlag in the lönebaserat utrymme
+    wageDeductionIbb: number; // Löneunderlag below this many IBB gives no lönebaserat utrymme
+    salaryRequirement?: {
+      baseIbb: number; // Löneuttagskrav: baseIbb IBB + share × löneunderlag, at most maxIbb IBB
+      share: number;
+      maxIbb: number;
+    };
+    minOwnershipForWageSpace?: number; // Lönebaserat utrymme requires at least this ownership
+    wageSpaceSalaryMultiple?: number; // Lönebaserat utrymme is at most this × the owner's salary
+    capitalRateSupplement: number; // Kapitalbaserat utrymme: statslåneränta + supplement
+    capitalThreshold: number; // Omkostnadsbelopp below this gives no kapitalbaserat utrymme
+    savedSpaceRateSupplement: number; // Uppräkning of sparat utdelningsutrymme: statslåneränta + supplement
+    qualifiedDividendShare: number; // Share of a dividend within the gränsbelopp taxed in kapital (2/3 = 20%)
+    serviceIncomeCapIbb: number; // Dividend above the gränsbelopp is taxed as tjänst up to this many IBB
+    corporateTaxRate: number; // Bolagsskatt on the company's result
+  };
+  businessAllocations: {
+    periodiseringsfondShare: number; // Maximum avsättning, share of the underlag
+    periodiseringsfondYears: number; // Each fund is reversed at the latest after this many years
+    expansionsfondTaxRate: number; // Expansionsfondsskatt, equal to bolagsskatten
+    expansionsfondCapitalFactor: number; // Fund may not exceed kapitalunderlag × this factor
+    positiveInterestSupplement: number; // Added to statslåneräntan for positiv räntefördelning
+    positiveInterestMinBase: number; // Positiv räntefördelning needs a kapitalunderlag above this
+    negativeInterestSupplement: number; // Added to statslåneräntan for negativ räntefördelning
+    negativeInterestMaxBase: number; // Negativ räntefördelning applies below this kapitalunderlag
+  };
+  basicDeductionSteps: {
+    under66: PrisbasbeloppStep[]; // Grundavdrag
+    over66: PrisbasbeloppStep[]; // Förhöjt grundavdrag
+  };
+  earnedIncomeTaxCredit: {
+    under66: PrisbasbeloppStep[]; // Applied to arbetsinkomst, then (value − grundavdrag) × kommunalskatt
+    highIncomeReduction?: {
+      fromPbb: number; // Arbetsinkomst above which the credit is reduced
+      rate: number; // Share of the arbetsinkomst above the limit
+    };
+    over66: {
+      rate: number; // Share of arbetsinkomst up to threshold
+      threshold: number; // kr
+      rateAboveThreshold: number;
+      maximum: number; // kr
+    };
+  };
+}
+
+// Dioceses (stift) of Svenska kyrkan, used for kyrkoavgift
+export type Diocese =
+  | 'Stockholm' | 'Uppsala' | 'Linköping' | 'Skara' | 'Strängnäs' | 'Västerås' | 'Växjö'
+  | 'Lund' | 'Göteborg' | 'Karlstad' | 'Härnösand' | 'Luleå' | 'Visby';
+
+// Local tax rates for a municipality
+export interface Municipality {
+  code: string; // Kommunkod, first two digits identify the county
+  name: string;
+  county: string;
+  municipalRate: number; // Kommunal skattesats
+  regionalRate: number; // Regional skattesats
+  burialFee: number; // Begravningsavgift
+  diocese: Diocese;
+  churchFee: number; // Kyrkoavgift (diocese average), members of Svenska kyrkan only
+}
+
 // Core simulation state for each year
 export interface YearlyFinancialState {
   year: number;
@@ -289,25 +455,99 @@ export interface MVPUserProfile {
   currentAge: number;
   gender: 'man' | 'kvinna';
   desiredRetirementAge: number;
+  municipalityCode?: string; // Kommunkod, national average rate is used when missing
+  isChurchMember?: boolean; // Member of Svenska kyrkan (pays kyrkoavgift)
+  civilStatus?: CivilStatus; // Defaults to ensamstående
+  birthYear?: number; // Defaults to the start year minus currentAge
+}
+
+// Pension ages that follow riktåldern for a birth year
+export interface PensionAges {
+  riktålder: number;
+  earliestGeneralPension: number; // Earliest uttag of allmän pension
+  guaranteePension: number; // Garantipension, bostadstillägg and äldreförsörjningsstöd
+  las: number; // Right to keep the employment (LAS)
+}
+
+// Kollektivavtal that decides the employer's tjänstepension premiums
+export type PensionAgreement = 'ITP1' | 'ITP2' | 'SAF-LO' | 'KAP-KL' | 'AKAP-KR' | 'PA16' | 'none';
+
+// Enskild näringsverksamhet, run alongside or instead of employment
+export interface BusinessSettings {
+  yearlyProfit: number; // Result before fonder and egenavgifter, grows with realSalaryGrowth
+  usePeriodiseringsfond: boolean; // Allocate the maximum to periodiseringsfond every year
+  expansionsfondAllocation: number; // Yearly avsättning to expansionsfond (kr)
+  equityCapital: number; // Kapitalunderlag for räntefördelning and expansionsfond
+}
+
+// 3:12 rule for the gränsbelopp up to 2025: förenklingsregel or huvudregel
+export type DividendRule = 'simplified' | 'main';
+
+// The owner's salary and dividend over a range of ages, like a withdrawal segment
+export interface OwnerPaySegment {
+  fromAge: number;
+  toAge?: number; // Exclusive, open-ended when left out
+  monthlySalary: number; // Owner's salary from the company
+  dividendStrategy: 'gränsbelopp' | 'fixed'; // Take the whole gränsbelopp or a fixed amount
+  yearlyDividend: number; // Dividend per year for the fixed strategy
+}
+
+// Owner of a fåmansaktiebolag, paid salary and dividends out of the company's profit
+export interface CloseCompanySettings {
+  ownershipShare: number; // Share of the company owned (0–1)
+  acquisitionCost: number; // Omkostnadsbelopp for the shares
+  yearlyProfit: number; // Result before the owner's salary cost, grows with realSalaryGrowth
+  retainedEarnings: number; // Fritt eget kapital at the start, available for dividends
+  otherSalaries: number; // Yearly cash salaries to other employees, grows with realSalaryGrowth
+  payPlan: OwnerPaySegment[]; // Ages without a segment pay no salary or dividend
+  savedSpace: number; // Sparat utdelningsutrymme at the start
+  rule?: DividendRule; // Defaults to the rule giving the higher gränsbelopp
+}
+
+// Löneväxling: gross salary given up for a pension premium
+export interface SalaryExchangeSettings {
+  monthlyAmount: number; // Gross salary exchanged per month
+  employerContribution: number; // Uplift on the premium, usually about 5.8%
+  accountId?: string; // Pension account credited, defaults to the tjänstepension account
+}
+
+// Lifetime effect of löneväxling compared with keeping the full salary
+export interface SalaryExchangeComparison {
+  workingNetIncomeChange: number; // Sum over the working years
+  retirementNetIncomeChange: number; // Sum over the years in retirement
+  lifetimeNetIncomeChange: number;
+  finalNetWorthChange: number; // Including pension capital left at the end
+  breakEvenAge: number | null; // When the accumulated net income is back even
 }
 
 export interface MVPIncomeData {
   monthlySalary: number;
   realSalaryGrowth: number;
+  pensionAgreement?: PensionAgreement; // Defaults to none
+  business?: BusinessSettings;
+  closeCompany?: CloseCompanySettings; // The owner's pay plan then replaces monthlySalary
+  salaryExchange?: SalaryExchangeSettings;
 }
 
 export interface MVPExpenseData {
   monthlyLiving: number;
+  monthlyHousingCost?: number; // Boendekostnad, part of monthlyLiving, used for bostadstillägg
 }
 
 export interface MVPAssetData {
   liquidSavings: number;
   iskAccount: number;
+  iskMonthlyDeposit?: number; // Monthly deposit into ISK until retirement
+  home?: OwnedHome; // Gives fastighetsavgift as a yearly housing cost
+  capitalInsurance?: number; // Kapitalförsäkring (KF) market value
+  capitalInsuranceMonthlyDeposit?: number; // Monthly deposit into KF until retirement
+  capitalInsuranceMonthlyWithdrawal?: number; // Monthly withdrawal from KF from retirement
 }
 
 export interface MVPInvestmentAssumptions {
   liquidSavingsRate: number;
   iskAccountRate: number;
+  capitalInsuranceRate?: number; // Defaults to the ISK rate
 }
 
 export interface MVPSimulationInputs {
@@ -322,17 +562,59 @@ export interface MVPYearProjection {
   year: number;
   age: number;
   salary: number;
-  expenses: number;
-  savings: number;
+  expenses: number; // Living costs plus fastighetsavgift
+  savings: number; // Net income minus expenses
   netWorth: number;
+  assets: {
+    liquidAssets: number;
+    iskValue: number;
+    kfValue: number;
+  };
+  closeCompany?: {
+    companyProfit: number; // Result before the owner's salary cost
+    salaryCost: number; // Owner's salary with arbetsgivaravgifter and tjänstepension
+    corporateTax: number; // Bolagsskatt on the result after the salary cost
+    retainedEarnings: number; // Fritt eget kapital left after the dividend
+    dividendSpace: number; // Gränsbelopp including sparat utdelningsutrymme
+    dividend: number;
+    qualifiedDividend: number; // Within the gränsbelopp, taxed at 20%
+    serviceDividend: number; // Above the gränsbelopp, taxed as tjänst
+    savedSpace: number; // Sparat utdelningsutrymme carried to next year
+    pensionRights: number; // Allmän pension rights from the owner's salary
+    forgonePensionRights: number; // Extra rights had the dividend's pre-tax profit been paid as salary
+  };
+  business?: {
+    profit: number;
+    businessIncome: number; // Överskott after fonder and schablonavdrag, pensionsgrundande
+    periodiseringsfondAllocation: number;
+    periodiseringsfondReversal: number;
+    expansionsfondChange: number; // Positive = avsättning, negative = återföring
+  };
   calculations: {
     grossIncome: number;
     pensionFee: number;
     municipalTax: number;
     stateTax: number;
+    publicServiceFee: number;
+    burialFee: number;
+    churchFee: number;
+    pensionFeeReduction: number;
+    earnedIncomeTaxCredit: number;
     iskTax: number;
+    kfTax: number;
+    propertyFee: number; // Fastighetsavgift and fastighetsskatt, included in expenses
+    selfEmploymentContributions: number; // Egenavgifter, included in totalTax
+    expansionsfondTax: number; // Included in totalTax
     totalTax: number;
+    employerContributions: number; // Arbetsgivaravgifter on the salary
+    occupationalPensionPremium: number; // Tjänstepension premium paid by the employer
+    salaryExchangePremium: number; // Löneväxling premium including the uplift
+    specialPayrollTax: number; // Särskild löneskatt on the premium
+    employerCost: number; // Salary + all of the above
+    preliminaryTax: number; // Preliminärskatt withheld by all payers over the year
+    taxRefund: number; // Preliminärskatt - total tax except KF tax: positive = återbetalning, negative = kvarskatt
     netIncome: number;
-    cashFlow: number;
+    cashFlow: number; // Change in liquid assets, after KF deposits and withdrawals
   };
+  trace?: TransparentCalculation[]; // Every calculation behind the year, with enableTransparency
 }
\ No newline at end of file
@@ -3,7 +3,16 @@
 // Extended types for comprehensive pension modeling
 // ============================================================================
 
-import { MVPSimulationInputs, MVPYearProjection } from './index';
+import { MVPSimulationInputs, MVPYearProjection, PPMFund, PremiepensionStrategy, PensionAgreement } from './index';
+
+// One period of a withdrawal schedule. A segment ends at toAge (exclusive)
+// or after a fixed term; without either it runs for life.
+export interface WithdrawalSegment {
+  fromAge: number;
+  toAge?: number;
+  percentage: number; // Share of the full pension taken, 25/50/75/100 for allmän pension
+  termYears?: number; // Fixed-term payout of 5, 10, 15 or 20 years, tjänste and privat only
+}
 
 export interface PensionAccount {
   id: string;
@@ -12,6 +21,11 @@ export interface PensionAccount {
   expectedMonthlyPension?: number; // For defined benefit plans
   provider: string;
   type: 'allmän' | 'tjänste' | 'privat';
+  agreement?: PensionAgreement; // Kollektivavtal whose premiums are credited to a tjänste account
+  definedBenefit?: {
+    // Förmånsbestämd (ITP2, KAP-KL, PA16 avd II), paid from the final salary
+    serviceYears: number; // Years of service before the simulation starts
+  };
   canChooseWithdrawalAge: boolean;
   earliestWithdrawalAge: number;
   latestWithdrawalAge: number;
@@ -20,6 +34,7 @@ export interface PensionAccount {
     monthlyAmount: number;
     isPercentage: boolean; // true = percentage of capital, false = fixed amount
     isLifelong: boolean; // true = until death, false = until capital runs out
+    schedule?: WithdrawalSegment[]; // Replaces the single start age when set
   };
 }
 
@@ -30,6 +45,9 @@ export interface PensionSettings {
     currentPremiepension: number;
     estimatedMonthlyAmount: number; // Based on current accumulated rights
     withdrawalStartAge: number; // When to start taking general pension
+    withdrawalSchedule?: WithdrawalSegment[]; // Partial uttag over time, from withdrawalStartAge
+    premiepensionStrategy?: PremiepensionStrategy; // Defaults to AP7 Såfa
+    selectedPPMFunds?: PPMFund[]; // Used with own funds
   };
 }
 
@@ -38,15 +56,28 @@ export interface EnhancedSimulationInputs extends MVPSimulationInputs {
   pensions: PensionSettings;
 }
 
+export interface PensionAccountPayout {
+  accountId: string;
+  name: string;
+  type: PensionAccount['type'];
+  monthlyAmount: number;
+}
+
 export interface EnhancedYearProjection extends MVPYearProjection {
   pensionIncome: {
     generalPension: number;
+    guaranteePension: number; // Garantipension, taxed as pension
+    housingSupplement: number; // Bostadstillägg, tax-free
+    elderlySupport: number; // Äldreförsörjningsstöd, tax-free
     occupationalPension: number;
     privatePension: number;
-    total: number;
+    total: number; // All of the above, per month
+    accounts: PensionAccountPayout[]; // Tjänste and privat payouts per account
   };
   pensionCapital: {
     general: number;
+    inkomstpension: number; // Part of general, indexed with inkomstindex
+    premiepension: number; // Part of general, invested in funds
     occupational: number;
     private: number;
     total: number;
@@ -66,6 +97,7 @@ export const PENSION_ACCOUNT_TEMPLATES = {
   itp1: {
     name: 'ITP1 Tjänstepension',
     type: 'tjänste' as const,
+    agreement: 'ITP1' as const,
     provider: 'Collectum',
     canChooseWithdrawalAge: true,
     earliestWithdrawalAge: 55,
@@ -74,6 +106,7 @@ export const PENSION_ACCOUNT_TEMPLATES = {
   itp2: {
     name: 'ITP2 Tjänstepension',
     type: 'tjänste' as const,
+    agreement: 'ITP2' as const,
     provider: 'Alecta/Collectum',
     canChooseWithdrawalAge: true,
     earliestWithdrawalAge: 55,
@@ -82,11 +115,39 @@ export const PENSION_ACCOUNT_TEMPLATES = {
   saflo: {
     name: 'Avtalspension SAF-LO',
     type: 'tjänste' as const,
+    agreement: 'SAF-LO' as const,
     provider: 'Fora',
     canChooseWithdrawalAge: true,
     earliestWithdrawalAge: 55,
     latestWithdrawalAge: 70
   },
+  kapkl: {
+    name: 'KAP-KL Tjänstepension',
+    type: 'tjänste' as const,
+    agreement: 'KAP-KL' as const,
+    provider: 'Pensionsvalet',
+    canChooseWithdrawalAge: true,
+    earliestWithdrawalAge: 55,
+    latestWithdrawalAge: 70
+  },
+  akapkr: {
+    name: 'AKAP-KR Tjänstepension',
+    type: 'tjänste' as const,
+    agreement: 'AKAP-KR' as const,
+    provider: 'Pensionsvalet',
+    canChooseWithdrawalAge: true,
+    earliestWithdrawalAge: 55,
+    latestWithdrawalAge: 70
+  },
+  pa16: {
+    name: 'PA16 Tjänstepension',
+    type: 'tjänste' as const,
+    agreement: 'PA16' as const,
+    provider: 'Statens tjänstepensionsverk',
+    canChooseWithdrawalAge: true,
+    earliestWithdrawalAge: 55,
+    latestWithdrawalAge: 70
+  },
   ips: {
     name: 'Privat pensionssparande (IPS)',
     type: 'privat' as const,